@@ -33,7 +33,7 @@ function setCorsHeaders(headers, req) {
     headers['Access-Control-Allow-Origin'] = origin;
     headers['Access-Control-Allow-Credentials'] = 'true';
     headers['Access-Control-Allow-Methods'] = 'GET, POST, PUT, PATCH, DELETE, OPTIONS, HEAD';
-    headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization, X-Requested-With';
+    headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization, X-Requested-With, X-Jmail-Account';
     headers['Access-Control-Max-Age'] = '3600';
     // Log for debugging (remove in production)
     try {
@@ -8,6 +8,7 @@ const COOKIE_NAME_PKCE = "g_pkce";
 const COOKIE_NAME_STATE = "g_state";
 const COOKIE_NAME_OAUTH = "g_oauth"; // Combined PKCE + state for OAuth flow
 const COOKIE_NAME_AUTH = "g_auth"; // Combined refresh + session for authenticated state
+const COOKIE_PREFIX_ACCOUNT = "g_auth_"; // Additional signed-in accounts: one combined cookie per Google sub
 
 function isSecureCookies() {
   const v = process.env.COOKIE_SECURE;
@@ -95,10 +96,7 @@ function clearSessionCookie(headers) {
   );
 }
 
-// Combined auth cookie that stores both refresh token and session in one cookie
-// This avoids issues with multiple Set-Cookie headers not being handled correctly by SWA CLI
-function setAuthCookie(headers, refreshPayload, session) {
-  const months6 = 60 * 60 * 24 * 30 * 6;
+function encodeAuthValue(refreshPayload, session) {
   const refreshSerialized = encryptJson(refreshPayload);
   const sessionPayload = JSON.stringify(session);
   const sessionSig = sign(sessionPayload);
@@ -106,34 +104,10 @@ function setAuthCookie(headers, refreshPayload, session) {
   
   // Combine both into one JSON object, then base64 encode
   const combined = JSON.stringify({ r: refreshSerialized, s: sessionValue });
-  const encoded = Buffer.from(combined).toString('base64');
-  
-  headers.push(
-    cookieSerialize(COOKIE_NAME_AUTH, encoded, {
-      httpOnly: true,
-      secure: true, // Use secure for consistency with OAuth cookie
-      sameSite: "Lax",
-      path: "/",
-      maxAge: months6
-    })
-  );
-}
-
-function clearAuthCookie(headers) {
-  headers.push(
-    cookieSerialize(COOKIE_NAME_AUTH, "", {
-      httpOnly: true,
-      secure: true,
-      sameSite: "Lax",
-      path: "/",
-      expires: new Date(0)
-    })
-  );
+  return Buffer.from(combined).toString('base64');
 }
 
-function getAuthFromCookie(req) {
-  const cookies = parseCookies(req);
-  const v = cookies[COOKIE_NAME_AUTH];
+function decodeAuthValue(v) {
   if (!v) return { refresh: null, session: null };
   
   try {
@@ -166,6 +140,88 @@ function getAuthFromCookie(req) {
   }
 }
 
+// Combined auth cookie that stores both refresh token and session in one cookie
+// This avoids issues with multiple Set-Cookie headers not being handled correctly by SWA CLI
+function setAuthCookie(headers, refreshPayload, session) {
+  const months6 = 60 * 60 * 24 * 30 * 6;
+  const encoded = encodeAuthValue(refreshPayload, session);
+  
+  headers.push(
+    cookieSerialize(COOKIE_NAME_AUTH, encoded, {
+      httpOnly: true,
+      secure: true, // Use secure for consistency with OAuth cookie
+      sameSite: "Lax",
+      path: "/",
+      maxAge: months6
+    })
+  );
+}
+
+function clearAuthCookie(headers) {
+  headers.push(
+    cookieSerialize(COOKIE_NAME_AUTH, "", {
+      httpOnly: true,
+      secure: true,
+      sameSite: "Lax",
+      path: "/",
+      expires: new Date(0)
+    })
+  );
+}
+
+function getAuthFromCookie(req) {
+  const cookies = parseCookies(req);
+  return decodeAuthValue(cookies[COOKIE_NAME_AUTH]);
+}
+
+function accountCookieName(sub) {
+  return COOKIE_PREFIX_ACCOUNT + String(sub || "").replace(/[^A-Za-z0-9_-]/g, "");
+}
+
+// Additional accounts use the same combined format as g_auth, keyed by Google sub.
+// The refresh payload carries sub/email, so the short-lived session part may lapse.
+function setAccountAuthCookie(headers, sub, refreshPayload, session) {
+  const months6 = 60 * 60 * 24 * 30 * 6;
+  headers.push(
+    cookieSerialize(accountCookieName(sub), encodeAuthValue(refreshPayload, session), {
+      httpOnly: true,
+      secure: true,
+      sameSite: "Lax",
+      path: "/",
+      maxAge: months6
+    })
+  );
+}
+
+function clearAccountAuthCookie(headers, sub) {
+  headers.push(
+    cookieSerialize(accountCookieName(sub), "", {
+      httpOnly: true,
+      secure: true,
+      sameSite: "Lax",
+      path: "/",
+      expires: new Date(0)
+    })
+  );
+}
+
+function getAccountAuth(req, sub) {
+  const cookies = parseCookies(req);
+  return decodeAuthValue(cookies[accountCookieName(sub)]);
+}
+
+// All additional accounts with a usable refresh token: [{ sub, email, refresh }]
+function listAccountAuth(req) {
+  const cookies = parseCookies(req);
+  const out = [];
+  for (const name of Object.keys(cookies)) {
+    if (!name.startsWith(COOKIE_PREFIX_ACCOUNT)) continue;
+    const { refresh } = decodeAuthValue(cookies[name]);
+    if (refresh && refresh.refresh_token) out.push({ sub: refresh.sub, email: refresh.email, refresh });
+  }
+  return out;
+}
+
 function getSession(req) {
   // First check combined auth cookie
   const { session: authSession } = getAuthFromCookie(req);
@@ -218,9 +274,9 @@ function setPkceCookie(headers, verifier) {
 
 // Combined OAuth cookie that stores both PKCE verifier and state in one cookie
 // This avoids issues with multiple Set-Cookie headers not being handled correctly
-function setOAuthCookie(headers, verifier, state) {
+function setOAuthCookie(headers, verifier, state, addAccount = false) {
   // Combine verifier and state with a separator that won't appear in either value
-  const combined = JSON.stringify({ v: verifier, s: state });
+  const combined = JSON.stringify(addAccount ? { v: verifier, s: state, a: 1 } : { v: verifier, s: state });
   const encoded = Buffer.from(combined).toString('base64');
   headers.push(
     cookieSerialize(COOKIE_NAME_OAUTH, encoded, {
@@ -238,13 +294,13 @@ function popOAuthCookie(req, headers) {
   const v = cookies[COOKIE_NAME_OAUTH];
   // Don't add a clear cookie - we only want one Set-Cookie header (the g_auth cookie)
   // The g_oauth cookie will naturally expire or be overwritten on next login
-  if (!v) return { verifier: null, state: null };
+  if (!v) return { verifier: null, state: null, addAccount: false };
   try {
     const decoded = Buffer.from(v, 'base64').toString('utf8');
     const parsed = JSON.parse(decoded);
-    return { verifier: parsed.v || null, state: parsed.s || null };
+    return { verifier: parsed.v || null, state: parsed.s || null, addAccount: parsed.a === 1 };
   } catch (_) {
-    return { verifier: null, state: null };
+    return { verifier: null, state: null, addAccount: false };
   }
 }
 
@@ -311,6 +367,10 @@ module.exports = {
   setAuthCookie,
   clearAuthCookie,
   getAuthFromCookie,
+  setAccountAuthCookie,
+  clearAccountAuthCookie,
+  getAccountAuth,
+  listAccountAuth,
   getSession,
   getRefreshPayload,
   setPkceCookie,
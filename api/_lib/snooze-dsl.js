@@ -0,0 +1,181 @@
+"use strict";
+
+// Server copy of svelte-app/src/lib/snooze/dsl.ts: the same grammar and the
+// same parsed shapes. Dates are handled as wall-clock days in the account's
+// zone ({ year, month, day } via Date.UTC arithmetic) and converted once at
+// the end, so no date library is needed. Keep the two in step.
+
+const WEEKDAYS = {
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+  sun: 7, sunday: 7
+};
+const ORDINALS = { first: 1, "1st": 1, second: 2, "2nd": 2, third: 3, "3rd": 3, fourth: 4, "4th": 4, last: -1 };
+const WEEKDAY_RE = Object.keys(WEEKDAYS).join("|");
+
+function parseTime(text) {
+  if (text === "noon") return { hour: 12, minute: 0 };
+  if (text === "midnight") return { hour: 0, minute: 0 };
+  const m = text.match(/^(\d{1,2})(?::([0-5]\d))?\s*(am|pm)?$/);
+  if (!m || (!m[2] && !m[3])) return null;
+  let hour = Number(m[1]);
+  const minute = m[2] ? Number(m[2]) : 0;
+  if (m[3]) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (m[3] === "pm" ? 12 : 0);
+  }
+  return hour > 23 ? null : { hour, minute };
+}
+
+function parseDate(text) {
+  let m;
+  if (text === "") return { kind: "time" };
+  if (text === "today") return { kind: "days", n: 0 };
+  if (text === "tomorrow") return { kind: "days", n: 1 };
+  if ((m = text.match(/^(?:in\s+|\+\s*)?(\d{1,3})\s*(?:d|days?)$/))) return { kind: "days", n: Number(m[1]) };
+  if ((m = text.match(/^(?:in\s+|\+\s*)?(\d{1,3})\s*(?:w|wks?|weeks?)$/))) return { kind: "weeks", n: Number(m[1]) };
+  if ((m = text.match(/^(?:in\s+|\+\s*)?(\d{1,2})\s*months?$/))) return { kind: "months", n: Number(m[1]) };
+  if ((m = text.match(/^(?:in\s+|\+\s*)?(\d{1,3})\s*(?:business|work|working)\s*days?$/))) return { kind: "businessDays", n: Number(m[1]) };
+  if ((m = text.match(new RegExp(`^(next\\s+)?(${WEEKDAY_RE})$`)))) return { kind: "weekday", weekday: WEEKDAYS[m[2]], next: !!m[1] };
+  if (/^next\s+(?:weekday|workday|business\s+day|working\s+day)$/.test(text)) return { kind: "nextWorkday" };
+  if ((m = text.match(/^(?:start\s+of\s+)?next\s+(week|month|quarter|year)$/))) return { kind: "startOf", unit: m[1] };
+  if ((m = text.match(/^end\s+of\s+(?:the\s+)?(week|month|quarter|year)$/))) return { kind: "endOf", unit: m[1] };
+  m = text.match(new RegExp(`^(${Object.keys(ORDINALS).join("|")})\\s+(${WEEKDAY_RE})\\s+of\\s+(?:the\\s+)?(next\\s+)?month$`));
+  if (m) return { kind: "nthWeekday", n: ORDINALS[m[1]], weekday: WEEKDAYS[m[2]], nextMonth: !!m[3] };
+  m = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+of\s+(?:the\s+)?(next\s+)?month$/);
+  if (m && Number(m[1]) >= 1 && Number(m[1]) <= 31) return { kind: "monthDay", day: Number(m[1]), nextMonth: !!m[2] };
+  return null;
+}
+
+function parseRuleExpression(input) {
+  let text = String(input || "").toLowerCase().trim().replace(/\s+/g, " ");
+  const repeat = /^every\s/.test(text);
+  if (repeat) text = text.slice(6);
+  if (!text) return null;
+  const expr = parseOnce(text, repeat);
+  return expr && repeat ? { ...expr, repeat } : expr;
+}
+
+function parseOnce(text, repeat) {
+  const offset = text.match(/^(?:in\s+|\+\s*)?(\d{1,4})\s*(m|mins?|minutes?|h|hrs?|hours?)$/);
+  if (offset) {
+    const n = Number(offset[1]);
+    if (n <= 0) return null;
+    return { kind: "offset", minutes: offset[2].startsWith("h") ? n * 60 : n };
+  }
+  let time;
+  let rest = text;
+  const tail = text.match(/^(.*?)\s*(?:\bat\s+)?(noon|midnight|\d{1,2}(?::[0-5]\d)?\s*(?:am|pm)?)$/);
+  if (tail) {
+    const t = parseTime(tail[2]);
+    if (t) {
+      time = t;
+      rest = tail[1].trim();
+    }
+  }
+  if (repeat && rest === "day") rest = time ? "" : "1 day";
+  else if (repeat && rest === "weekday") rest = "next weekday";
+  else if (repeat && (rest === "week" || rest === "month")) rest = `1 ${rest}`;
+  const date = parseDate(rest);
+  if (!date) return null;
+  if (date.kind === "time" && !time) return null;
+  return time ? { kind: "date", date, time } : { kind: "date", date };
+}
+
+// Wall-clock day helpers; months are 1-based, weekdays ISO (Monday = 1)
+function day(year, month, d) {
+  const t = new Date(Date.UTC(year, month - 1, d));
+  return { year: t.getUTCFullYear(), month: t.getUTCMonth() + 1, day: t.getUTCDate() };
+}
+const addDays = (d, n) => day(d.year, d.month, d.day + n);
+const weekday = (d) => new Date(Date.UTC(d.year, d.month - 1, d.day)).getUTCDay() || 7;
+const daysInMonth = (year, month) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+// Like luxon's plus({ months }): clamp to the target month's last day
+function addMonths(d, n) {
+  const first = day(d.year, d.month + n, 1);
+  return { ...first, day: Math.min(d.day, daysInMonth(first.year, first.month)) };
+}
+function periodStart(d, unit) {
+  if (unit === "week") return addDays(d, 1 - weekday(d));
+  if (unit === "month") return day(d.year, d.month, 1);
+  if (unit === "quarter") return day(d.year, Math.floor((d.month - 1) / 3) * 3 + 1, 1);
+  return day(d.year, 1, 1);
+}
+function addPeriods(d, unit, n) {
+  if (unit === "week") return addDays(d, 7 * n);
+  return addMonths(d, (unit === "month" ? 1 : unit === "quarter" ? 3 : 12) * n);
+}
+
+function landingDay(date, today, shift = 0) {
+  switch (date.kind) {
+    case "time":
+      return addDays(today, shift);
+    case "days":
+      return addDays(today, date.n);
+    case "weeks":
+      return addDays(today, 7 * date.n);
+    case "months":
+      return addMonths(today, date.n);
+    case "businessDays": {
+      let d = today;
+      for (let left = date.n; left > 0; ) {
+        d = addDays(d, 1);
+        if (weekday(d) <= 5) left--;
+      }
+      return d;
+    }
+    case "weekday": {
+      let offset = (date.weekday - weekday(today) + 7) % 7;
+      if (date.next && offset === 0) offset = 7;
+      return addDays(today, offset + 7 * shift);
+    }
+    case "nextWorkday": {
+      let d = addDays(today, 1);
+      while (weekday(d) > 5) d = addDays(d, 1);
+      return d;
+    }
+    case "startOf":
+      return addPeriods(periodStart(today, date.unit), date.unit, 1);
+    case "endOf": {
+      const start = addPeriods(periodStart(today, date.unit), date.unit, shift);
+      return date.unit === "week" ? addDays(start, 4) : addDays(addPeriods(start, date.unit, 1), -1);
+    }
+    case "nthWeekday": {
+      const month = addMonths(day(today.year, today.month, 1), (date.nextMonth ? 1 : 0) + shift);
+      if (date.n < 0) {
+        const last = day(month.year, month.month, daysInMonth(month.year, month.month));
+        return addDays(last, -((weekday(last) - date.weekday + 7) % 7));
+      }
+      return addDays(month, ((date.weekday - weekday(month) + 7) % 7) + 7 * (date.n - 1));
+    }
+    case "monthDay": {
+      const month = addMonths(day(today.year, today.month, 1), (date.nextMonth ? 1 : 0) + shift);
+      return { ...month, day: Math.min(date.day, daysInMonth(month.year, month.month)) };
+    }
+    default:
+      return null;
+  }
+}
+
+const ROLLS = new Set(["time", "weekday", "endOf", "nthWeekday", "monthDay"]);
+
+/**
+ * Due time (epoch ms) of a parsed expression for a snooze made at `now`.
+ * `clock` supplies the zone math from snooze-rules.js: `today()` (wall-clock
+ * date at `now`), `at(d, hour, minute)` (to epoch ms) and `roundUp(now)`.
+ */
+function evaluateRuleExpression(expr, now, defaults, clock) {
+  if (expr.kind === "offset") return clock.roundUp(now) + expr.minutes * 60 * 1000;
+  const hour = expr.time ? expr.time.hour : defaults.anchorHour;
+  const minute = expr.time ? expr.time.minute : 0;
+  const today = clock.today();
+  let due = clock.at(landingDay(expr.date, today), hour, minute);
+  if (due <= now && ROLLS.has(expr.date.kind)) due = clock.at(landingDay(expr.date, today, 1), hour, minute);
+  return due;
+}
+
+module.exports = { parseRuleExpression, evaluateRuleExpression, addDays, weekday };
@@ -0,0 +1,220 @@
+"use strict";
+
+// Server copy of svelte-app/src/lib/snooze/rules.ts (normalizeRuleKey / resolveRule).
+// The Functions app has no dependencies, so zone math uses Intl instead of luxon.
+// Keep the two in step when rules change; snooze/rule-cases.json is checked
+// against both. Custom presets and expression-named labels go through
+// snooze-dsl.js, the copy of snooze/dsl.ts.
+
+const { parseRuleExpression, evaluateRuleExpression, addDays, weekday } = require("./snooze-dsl");
+
+const DEFAULTS = { anchorHour: 5, roundMinutes: 5 };
+const MINUTE = 60 * 1000;
+
+// Relative rules: round now up to `roundMinutes`, then add
+const DURATION_RULES = { "10m": 10, "30m": 30, "1h": 60, "2h": 120, "3h": 180 };
+// Fixed times of day: the next occurrence
+const TIME_RULES = { "6am": 6, "2pm": 14, "7pm": 19 };
+// Weekdays (ISO numbering) at the anchor hour
+const WEEKDAY_RULES = { Monday: 1, Friday: 5 };
+
+const WEEKDAYS = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+const formatters = new Map();
+
+function zoneParts(utcMs, zone) {
+  let fmt = formatters.get(zone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric"
+    });
+    formatters.set(zone, fmt);
+  }
+  const p = {};
+  for (const part of fmt.formatToParts(new Date(utcMs))) p[part.type] = part.value;
+  return {
+    year: Number(p.year),
+    month: Number(p.month),
+    day: Number(p.day),
+    hour: Number(p.hour),
+    minute: Number(p.minute),
+    second: Number(p.second),
+    weekday: WEEKDAYS[p.weekday]
+  };
+}
+
+function offsetAt(zone, utcMs) {
+  const p = zoneParts(utcMs, zone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(utcMs / 1000) * 1000;
+}
+
+// Wall-clock time in `zone` to epoch ms, as the app (luxon) settles DST switches:
+// a time that happens twice is its first occurrence, and a time skipped by the
+// spring-forward switch moves ahead by the gap (2:30 -> 3:30)
+function zonedToUtc(zone, year, month, day, hour, minute) {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const before = offsetAt(zone, wall - 12 * 60 * MINUTE);
+  const after = offsetAt(zone, wall + 12 * 60 * MINUTE);
+  const valid = [wall - before, wall - after].filter((t) => wall - offsetAt(zone, t) === t);
+  if (valid.length) return Math.min(...valid);
+  return wall - Math.min(before, after);
+}
+
+// `now`'s local date in `zone`, moved by `days`, at hour:00
+function atHour(zone, now, days, hour) {
+  const p = zoneParts(now, zone);
+  const d = new Date(Date.UTC(p.year, p.month - 1, p.day + days));
+  return zonedToUtc(zone, d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), hour, 0);
+}
+
+function roundUp(now, zone, minutes) {
+  const p = zoneParts(now, zone);
+  const mod = p.minute % minutes;
+  const add = mod === 0 && p.second === 0 ? 0 : minutes - mod;
+  const t = now + add * MINUTE;
+  return t - (t % MINUTE);
+}
+
+function isValidZone(zone) {
+  try {
+    zoneParts(Date.now(), String(zone));
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+// `presets` maps custom preset names to expressions (settings.snoozePresets)
+function findPreset(ruleKey, presets) {
+  const kFull = String(ruleKey).trim();
+  const leaf = (kFull.split("/").pop() || kFull).trim().toLowerCase();
+  return Object.keys(presets || {}).find((name) => name.trim().toLowerCase() === leaf) || null;
+}
+
+function normalizeRuleKey(ruleKey, presets) {
+  const preset = findPreset(ruleKey, presets);
+  if (preset) return preset;
+  // Work on the leaf segment only (support nested labels like "Snooze/01 day" or "?jlmSnooze/zz-2Hour")
+  const kFull = String(ruleKey).trim();
+  const leaf = (kFull.split("/").pop() || kFull).trim();
+  const lower = leaf.toLowerCase();
+  const weekdayMap = {
+    mon: "Monday", monday: "Monday",
+    tue: "Tuesday", tues: "Tuesday", tuesday: "Tuesday",
+    wed: "Wednesday", weds: "Wednesday", wednesday: "Wednesday",
+    thu: "Thursday", thur: "Thursday", thurs: "Thursday", thursday: "Thursday",
+    fri: "Friday", friday: "Friday",
+    sat: "Saturday", saturday: "Saturday",
+    sun: "Sunday", sunday: "Sunday"
+  };
+  if (weekdayMap[lower]) return weekdayMap[lower];
+
+  const ampm = lower.match(/^(\d{1,2})\s?(a|p)\s?m$/);
+  if (ampm) {
+    const hour = parseInt(ampm[1], 10);
+    if (ampm[2] === "a" && hour === 6) return "6am";
+    if (ampm[2] === "p" && hour === 2) return "2pm";
+    if (ampm[2] === "p" && hour === 7) return "7pm";
+  }
+  const time24 = lower.match(/^(\d{1,2})(?::([0-5]\d))?$/);
+  if (time24 && (!time24[2] || parseInt(time24[2], 10) === 0)) {
+    const hour = parseInt(time24[1], 10);
+    if (hour === 6) return "6am";
+    if (hour === 14) return "2pm";
+    if (hour === 19) return "7pm";
+  }
+  if (lower === "desktop") return "Desktop";
+  if (lower === "long-term" || lower === "long term" || lower === "longterm") return "long-term";
+  const hourMatch = lower.match(/^(?:zz-)?(?:(\d{1,2})\s?-?\s?hour(?:s)?|hour-?(\d{1,2}))$/);
+  if (hourMatch) {
+    const n = parseInt(hourMatch[1] || hourMatch[2] || "0", 10);
+    if (!Number.isNaN(n) && n > 0) return `${n}h`;
+  }
+  if (lower === "zz-1hour" || lower === "1hour" || lower === "1 hr" || lower === "1 h") return "1h";
+  if (lower === "zz-2hour" || lower === "2hour" || lower === "2 hr" || lower === "2 h") return "2h";
+  if (lower === "3hour" || lower === "3 hr" || lower === "3 h") return "3h";
+  if (/^day\d+$/i.test(leaf)) return `${leaf.slice(3)}d`;
+  if (/^zday\d+$/i.test(leaf)) return `${leaf.slice(4)}d`;
+  const daysMatch = lower.match(/^(\d{1,2})\s?day(?:s)?$/);
+  if (daysMatch) return `${parseInt(daysMatch[1], 10)}d`;
+  return leaf;
+}
+
+function minutesOf(hhmm, fallback) {
+  const m = String(hhmm || "").match(/^(\d{1,2}):([0-5]\d)$/);
+  return m && Number(m[1]) < 24 ? Number(m[1]) * 60 + Number(m[2]) : fallback;
+}
+
+// Copy of nextWorkingSlot in svelte-app/src/lib/snooze/business-hours.ts
+function nextWorkingSlot(due, zone, cal) {
+  const start = minutesOf(cal.start, 9 * 60);
+  const end = Math.max(start + 1, minutesOf(cal.end, 17 * 60));
+  const holidays = new Set(cal.holidays || []);
+  const p = zoneParts(due, zone);
+  let d = { year: p.year, month: p.month, day: p.day };
+  let minute = p.hour * 60 + p.minute;
+  for (let i = 0; i < 366; i++) {
+    const iso = `${d.year}-${String(d.month).padStart(2, "0")}-${String(d.day).padStart(2, "0")}`;
+    if ((cal.days || []).includes(weekday(d)) && !holidays.has(iso)) {
+      if (minute < start) return zonedToUtc(zone, d.year, d.month, d.day, Math.floor(start / 60), start % 60);
+      if (minute < end) return due;
+    }
+    d = addDays(d, 1);
+    minute = -1;
+  }
+  return due;
+}
+
+const BUILTIN = new Set([...Object.keys(DURATION_RULES), ...Object.keys(TIME_RULES), ...Object.keys(WEEKDAY_RULES), "Desktop", "long-term"]);
+
+/**
+ * Due time (epoch ms) for a snooze made at `now` in `zone`, or null for
+ * persistent and unknown rules. Matches resolveRule in the app, including
+ * the one-minute floor when the resolved time is not in the future.
+ * `defaults.presets` carries the account's custom presets ({ name: expr });
+ * `defaults.business` ({ days, start, end, holidays, rules }) moves the rules
+ * listed in `rules` to the next working slot, as in the app.
+ */
+function resolveRule(ruleKey, zone, defaults = DEFAULTS, now = Date.now()) {
+  const presets = defaults.presets || {};
+  const key = normalizeRuleKey(ruleKey, presets);
+  const anchorHour = Number.isFinite(defaults.anchorHour) ? defaults.anchorHour : DEFAULTS.anchorHour;
+  const roundMinutes = defaults.roundMinutes > 0 ? defaults.roundMinutes : DEFAULTS.roundMinutes;
+  let due = null;
+  if (/^\d+d$/.test(key)) {
+    due = atHour(zone, now, Number(key.slice(0, -1)), anchorHour);
+  } else if (DURATION_RULES[key]) {
+    due = roundUp(now, zone, roundMinutes) + DURATION_RULES[key] * MINUTE;
+  } else if (TIME_RULES[key] !== undefined) {
+    due = atHour(zone, now, 0, TIME_RULES[key]);
+    if (due <= now) due = atHour(zone, now, 1, TIME_RULES[key]);
+  } else if (WEEKDAY_RULES[key]) {
+    const offset = WEEKDAY_RULES[key] - zoneParts(now, zone).weekday;
+    due = atHour(zone, now, offset, anchorHour);
+    if (due <= now) due = atHour(zone, now, offset + 7, anchorHour);
+  } else if (!BUILTIN.has(key)) {
+    const expr = parseRuleExpression(Object.prototype.hasOwnProperty.call(presets, key) ? presets[key] : key);
+    if (expr) {
+      const p = zoneParts(now, zone);
+      due = evaluateRuleExpression(expr, now, { anchorHour }, {
+        today: () => ({ year: p.year, month: p.month, day: p.day }),
+        at: (d, hour, minute) => zonedToUtc(zone, d.year, d.month, d.day, hour, minute),
+        roundUp: (t) => roundUp(t, zone, roundMinutes)
+      });
+    }
+  }
+  if (due === null) return null;
+  if (due <= now) due = now + MINUTE;
+  const business = defaults.business;
+  if (business && (business.rules || []).some((k) => normalizeRuleKey(k, presets) === key)) due = nextWorkingSlot(due, zone, business);
+  return due;
+}
+
+module.exports = { DEFAULTS, normalizeRuleKey, resolveRule, isValidZone, zonedToUtc, parseRuleExpression };
@@ -0,0 +1,34 @@
+"use strict";
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { normalizeRuleKey, resolveRule, zonedToUtc, parseRuleExpression } = require("./snooze-rules");
+// The app's own cases (svelte-app/src/lib/snooze/rule-cases.test.ts runs them too), so these copies cannot drift
+const cases = require("../../svelte-app/src/lib/snooze/rule-cases.json");
+
+// `at` is wall-clock time in the group's zone; due times carry their offset
+function utc(zone, local) {
+  const [date, time] = local.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  return zonedToUtc(zone, year, month, day, hour, minute);
+}
+
+test("parses the same expressions as the app", () => {
+  for (const expr of cases.expressions.valid) assert.notEqual(parseRuleExpression(expr), null, expr);
+  for (const expr of cases.expressions.invalid) assert.equal(parseRuleExpression(expr), null, expr);
+});
+
+test("reads label names as the same rules as the app", () => {
+  for (const [label, key] of cases.labels) assert.equal(normalizeRuleKey(label, cases.presets), key, label);
+});
+
+for (const group of cases.groups) {
+  test(`resolves ${group.name} as the app does`, () => {
+    const defaults = { ...group.defaults, presets: cases.presets, business: group.business };
+    const at = utc(group.zone, group.at);
+    for (const [ruleKey, due] of group.cases) {
+      assert.equal(resolveRule(ruleKey, group.zone, defaults, at), due === null ? null : Date.parse(due), ruleKey);
+    }
+  });
+}
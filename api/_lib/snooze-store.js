@@ -0,0 +1,68 @@
+"use strict";
+
+const fs = require("fs").promises;
+const os = require("os");
+const path = require("path");
+const { encryptJson, decryptJson } = require("./crypto");
+
+// One JSON file per registered account. On a Function App, HOME is the
+// persistent file share; set SNOOZE_STORE_DIR to keep state elsewhere.
+function storeDir() {
+  return process.env.SNOOZE_STORE_DIR || path.join(process.env.HOME || os.tmpdir(), "data", "jmail-snooze");
+}
+
+function fileFor(sub) {
+  return path.join(storeDir(), String(sub).replace(/[^A-Za-z0-9_-]/g, "") + ".json");
+}
+
+// The refresh payload is stored encrypted with COOKIE_SECRET, like the g_auth cookie
+function decode(text) {
+  const record = JSON.parse(text);
+  return { ...record, refresh: record.refresh ? decryptJson(record.refresh) : null };
+}
+
+async function loadAccount(sub) {
+  try {
+    return decode(await fs.readFile(fileFor(sub), "utf8"));
+  } catch (e) {
+    if (e && e.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+async function listAccounts() {
+  let names;
+  try {
+    names = await fs.readdir(storeDir());
+  } catch (e) {
+    if (e && e.code === "ENOENT") return [];
+    throw e;
+  }
+  const out = [];
+  for (const name of names.filter((n) => n.endsWith(".json"))) {
+    try {
+      out.push(decode(await fs.readFile(path.join(storeDir(), name), "utf8")));
+    } catch (_) {
+      // Skip unreadable records; one bad file must not stop every account
+    }
+  }
+  return out;
+}
+
+async function saveAccount(record) {
+  await fs.mkdir(storeDir(), { recursive: true });
+  const file = fileFor(record.sub);
+  const tmp = file + "." + process.pid + ".tmp";
+  await fs.writeFile(tmp, JSON.stringify({ ...record, refresh: record.refresh ? encryptJson(record.refresh) : null }), "utf8");
+  await fs.rename(tmp, file);
+}
+
+async function deleteAccount(sub) {
+  try {
+    await fs.unlink(fileFor(sub));
+  } catch (e) {
+    if (!e || e.code !== "ENOENT") throw e;
+  }
+}
+
+module.exports = { loadAccount, listAccounts, saveAccount, deleteAccount };
@@ -1,5 +1,5 @@
 const fetch = global.fetch;
-const { getSession, getRefreshPayload, setSessionCookie, setRefreshCookie } = require("../_lib/session");
+const { getSession, getRefreshPayload, setSessionCookie, setRefreshCookie, getAccountAuth, setAccountAuthCookie } = require("../_lib/session");
 const { setCorsHeaders } = require("../_lib/cors");
 
 async function getGoogleAccessToken(payload) {
@@ -47,8 +47,19 @@ module.exports = async function (context, req) {
   });
   const resHeaders = [];
 
-  const session = getSession(req);
-  const payload = getRefreshPayload(req);
+  // X-Jmail-Account selects an additional signed-in account (see google-login add_account);
+  // without it the request goes to the primary account.
+  const accountSub = req.headers && req.headers["x-jmail-account"] ? String(req.headers["x-jmail-account"]) : "";
+  let session;
+  let payload;
+  if (accountSub) {
+    const auth = getAccountAuth(req, accountSub);
+    payload = auth.refresh;
+    session = auth.session || (payload ? { sub: payload.sub, email: payload.email, scope: payload.scope } : null);
+  } else {
+    session = getSession(req);
+    payload = getRefreshPayload(req);
+  }
   if (!session || !payload || !payload.refresh_token) {
     const headers = { "Content-Type": "application/json" };
     setCorsHeaders(headers, req);
@@ -63,9 +74,16 @@ module.exports = async function (context, req) {
     token = tok.access_token;
     // rotate session cookie TTL
     const now = Math.floor(Date.now() / 1000);
-    setSessionCookie(resHeaders, { sub: session.sub, email: session.email, scope: session.scope || tok.scope, iat: now, exp: now + 3600 });
-    if (tok.refresh_token && tok.refresh_token !== payload.refresh_token) {
-      setRefreshCookie(resHeaders, { refresh_token: tok.refresh_token, sub: session.sub, email: session.email, scope: tok.scope || session.scope });
+    if (accountSub) {
+      // Additional accounts keep refresh token and session together in their own cookie
+      if (tok.refresh_token && tok.refresh_token !== payload.refresh_token) {
+        setAccountAuthCookie(resHeaders, accountSub, { refresh_token: tok.refresh_token, sub: session.sub, email: session.email, scope: tok.scope || session.scope }, { sub: session.sub, email: session.email, scope: session.scope || tok.scope, iat: now, exp: now + 3600 });
+      }
+    } else {
+      setSessionCookie(resHeaders, { sub: session.sub, email: session.email, scope: session.scope || tok.scope, iat: now, exp: now + 3600 });
+      if (tok.refresh_token && tok.refresh_token !== payload.refresh_token) {
+        setRefreshCookie(resHeaders, { refresh_token: tok.refresh_token, sub: session.sub, email: session.email, scope: tok.scope || session.scope });
+      }
     }
   } catch (e) {
     const headers = { "Content-Type": "application/json" };
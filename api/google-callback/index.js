@@ -1,5 +1,5 @@
 const fetch = global.fetch;
-const { popOAuthCookie, setAuthCookie, parseCookies } = require("../_lib/session");
+const { popOAuthCookie, setAuthCookie, setAccountAuthCookie, getRefreshPayload, parseCookies } = require("../_lib/session");
 const { setCorsHeaders } = require("../_lib/cors");
 
 module.exports = async function (context, req) {
@@ -39,7 +39,7 @@ module.exports = async function (context, req) {
 
   const cookies = [];
   // Use combined OAuth cookie that has both PKCE verifier and state
-  const { verifier: pkceVerifier, state: expectedStateCookie } = popOAuthCookie(req, cookies);
+  const { verifier: pkceVerifier, state: expectedStateCookie, addAccount } = popOAuthCookie(req, cookies);
   
   // Some hosts/clients URL-encode cookie values (e.g. ':' -> '%3A').
   // Decode for reliable comparison with the `state` query param.
@@ -183,7 +183,15 @@ module.exports = async function (context, req) {
     const now = Math.floor(Date.now() / 1000);
     const refreshPayload = { refresh_token, sub, email, scope };
     const sessionPayload = { sub, email, scope, iat: now, exp: now + 3600 };
-    setAuthCookie(cookies, refreshPayload, sessionPayload);
+    // An added account gets its own cookie; the primary g_auth session stays as is.
+    // Without a primary session (or when re-adding the primary) it becomes the primary.
+    let primary = null;
+    try { primary = getRefreshPayload(req); } catch (_) {}
+    if (addAccount && primary && primary.refresh_token && primary.sub !== sub) {
+      setAccountAuthCookie(cookies, sub, refreshPayload, sessionPayload);
+    } else {
+      setAuthCookie(cookies, refreshPayload, sessionPayload);
+    }
     console.log('google-callback: auth cookie set successfully', {
       cookieCount: cookies.length
     });
@@ -36,11 +36,13 @@ module.exports = async function (context, req) {
   const codeChallenge = sha256Base64url(codeVerifier);
   const state = randomId(16);
   const returnTo = (req.query && req.query.return_to) ? String(req.query.return_to) : (process.env.APP_BASE_URL || "/");
+  // add_account=1 signs in another Google account next to the current one
+  const addAccount = !!(req.query && req.query.add_account === "1");
 
   // Use a single combined cookie to avoid issues with multiple Set-Cookie headers
   const cookies = [];
   const stateWithReturn = state + ":" + encodeURIComponent(returnTo);
-  setOAuthCookie(cookies, codeVerifier, stateWithReturn);
+  setOAuthCookie(cookies, codeVerifier, stateWithReturn, addAccount);
 
   const params = new URLSearchParams({
     client_id: clientId,
@@ -49,7 +51,7 @@ module.exports = async function (context, req) {
     scope,
     access_type: "offline",
     include_granted_scopes: "true",
-    prompt: "consent",
+    prompt: addAccount ? "consent select_account" : "consent",
     code_challenge: codeChallenge,
     code_challenge_method: "S256",
     state
@@ -1,4 +1,4 @@
-const { clearRefreshCookie, clearSessionCookie } = require("../_lib/session");
+const { clearRefreshCookie, clearSessionCookie, clearAccountAuthCookie } = require("../_lib/session");
 
 module.exports = async function (context, req) {
   if (req.method !== "POST") {
@@ -6,8 +6,14 @@ module.exports = async function (context, req) {
     return;
   }
   const cookies = [];
-  clearRefreshCookie(cookies);
-  clearSessionCookie(cookies);
+  // ?sub= signs out one additional account only
+  const sub = req.query && req.query.sub ? String(req.query.sub) : "";
+  if (sub) {
+    clearAccountAuthCookie(cookies, sub);
+  } else {
+    clearRefreshCookie(cookies);
+    clearSessionCookie(cookies);
+  }
   context.res = { status: 200, headers: { "Set-Cookie": cookies, "Content-Type": "application/json" }, body: JSON.stringify({ ok: true }) };
 };
 
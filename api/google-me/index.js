@@ -1,4 +1,4 @@
-const { getSession } = require("../_lib/session");
+const { getSession, listAccountAuth } = require("../_lib/session");
 const { setCorsHeaders } = require("../_lib/cors");
 
 module.exports = async function (context, req) {
@@ -41,6 +41,11 @@ module.exports = async function (context, req) {
     context.res = { status: 401, headers, body: JSON.stringify({ authenticated: false }) };
     return;
   }
-  context.res = { status: 200, headers, body: JSON.stringify({ authenticated: true, user: { sub: session.sub, email: session.email }, scope: session.scope }) };
+  // Primary account first, then accounts added with google-login?add_account=1
+  const accounts = [{ sub: session.sub, email: session.email, primary: true }];
+  for (const a of listAccountAuth(req)) {
+    if (a.sub !== session.sub) accounts.push({ sub: a.sub, email: a.email, primary: false });
+  }
+  context.res = { status: 200, headers, body: JSON.stringify({ authenticated: true, user: { sub: session.sub, email: session.email }, scope: session.scope, accounts }) };
 };
 
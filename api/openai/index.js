@@ -29,6 +29,25 @@ module.exports = async function (context, req) {
     return;
   }
 
+  // Embedding requests (semantic search index) carry `input` instead of `messages`
+  if (Array.isArray(body.input)) {
+    const er = await fetch('https://api.openai.com/v1/embeddings', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ model: body.model || 'text-embedding-3-small', input: body.input })
+    });
+    const headers = { 'Content-Type': 'application/json' };
+    for (const h of FORWARDED) {
+      const v = er.headers.get(h);
+      if (v) headers[h] = v;
+    }
+    context.res = { status: er.status, headers, body: await er.text() };
+    return;
+  }
+
   const model = body.model || 'gpt-4o-mini';
   const messages = body.messages || [{ role: 'user', content: 'Hello' }];
   const temperature = body.temperature ?? 0.2;
@@ -42,6 +61,8 @@ module.exports = async function (context, req) {
     body: JSON.stringify({ model, messages, temperature })
   });
 
+  // No streaming here: Functions v3 buffers the response body. The app streams
+  // straight from OpenAI when the user has a key of their own (streamOpenAI).
   const respText = await r.text();
   const headers = { 'Content-Type': 'application/json' };
   for (const h of FORWARDED) {
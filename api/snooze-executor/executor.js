@@ -0,0 +1,127 @@
+"use strict";
+
+const { resolveRule } = require("../_lib/snooze-rules");
+
+const GMAIL_BASE = "https://gmail.googleapis.com/gmail/v1/users/me";
+
+async function refreshAccessToken(refreshToken, fetchImpl = global.fetch) {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+  if (!clientId || !clientSecret) throw new Error("Missing GOOGLE_* envs");
+  const r = await fetchImpl("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ client_id: clientId, client_secret: clientSecret, grant_type: "refresh_token", refresh_token: refreshToken })
+  });
+  if (!r.ok) throw new Error("refresh_failed:" + (await r.text()).slice(0, 256));
+  return await r.json();
+}
+
+/** The two Gmail calls the executor needs; tests pass a fake with the same shape. */
+function createGmailClient(accessToken, fetchImpl = global.fetch) {
+  async function call(pathAndQuery, init = {}) {
+    const r = await fetchImpl(GMAIL_BASE + pathAndQuery, {
+      ...init,
+      headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" }
+    });
+    const text = await r.text();
+    if (!r.ok) throw new Error(`gmail ${r.status}: ${text.slice(0, 256)}`);
+    return text ? JSON.parse(text) : {};
+  }
+  return {
+    async listThreadIds(labelId) {
+      const ids = [];
+      let pageToken;
+      do {
+        const q = new URLSearchParams({ labelIds: labelId, maxResults: "500" });
+        if (pageToken) q.set("pageToken", pageToken);
+        const page = await call(`/threads?${q}`);
+        for (const t of page.threads || []) ids.push(t.id);
+        pageToken = page.nextPageToken;
+      } while (pageToken);
+      return ids;
+    },
+    async modifyThread(threadId, addLabelIds, removeLabelIds) {
+      await call(`/threads/${encodeURIComponent(threadId)}/modify`, { method: "POST", body: JSON.stringify({ addLabelIds, removeLabelIds }) });
+    }
+  };
+}
+
+// A reported snooze waits this long for its label to reach Gmail (the app may be offline)
+const REPORT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One pass over an account's mapped snooze labels. Gmail does not say when a
+ * label was applied, so the app reports each snooze as it makes it
+ * (`account.snoozedAt`, keyed `threadId:labelId`, through PATCH
+ * /api/snooze-register). A snooze without a report (made in Gmail, or while
+ * the report failed) counts from the first run that saw it (`account.seen`);
+ * with a 5-minute timer that is at most one tick late. Due threads go back to
+ * INBOX (and UNREAD when configured) and lose the snooze label. Returns the
+ * next `seen` map, where entries for threads that left the label are dropped,
+ * and the reports still waiting for their label to show up.
+ */
+async function runSnoozes(account, gmail, now = Date.now()) {
+  const seen = account.seen || {};
+  const reported = account.snoozedAt || {};
+  const nextSeen = {};
+  const consumed = new Set();
+  const moved = [];
+  const errors = [];
+  const defaults = { anchorHour: account.anchorHour, roundMinutes: account.roundMinutes, presets: account.presets, business: account.business };
+  const add = account.unreadOnUnsnooze ? ["INBOX", "UNREAD"] : ["INBOX"];
+  const done = new Set();
+  for (const [ruleKey, labelId] of Object.entries(account.labelMapping || {})) {
+    if (!labelId || done.has(labelId)) continue;
+    done.add(labelId);
+    let threadIds;
+    try {
+      threadIds = await gmail.listThreadIds(labelId);
+    } catch (e) {
+      errors.push({ labelId, error: e instanceof Error ? e.message : String(e) });
+      // Keep what was known so a failed listing does not restart every snooze on this label
+      for (const key of Object.keys(seen)) if (key.endsWith(":" + labelId)) nextSeen[key] = seen[key];
+      continue;
+    }
+    for (const threadId of threadIds) {
+      const key = `${threadId}:${labelId}`;
+      // A report is newer than any sighting: the thread was snoozed again
+      const since = reported[key] || seen[key] || now;
+      consumed.add(key);
+      const dueAt = resolveRule(ruleKey, account.zone, defaults, since);
+      if (dueAt === null || dueAt > now) {
+        nextSeen[key] = since;
+        continue;
+      }
+      try {
+        await gmail.modifyThread(threadId, add, [labelId]);
+        moved.push({ threadId, labelId, ruleKey, dueAt });
+      } catch (e) {
+        nextSeen[key] = since;
+        errors.push({ threadId, labelId, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+  }
+  const snoozedAt = {};
+  for (const [key, at] of Object.entries(reported)) if (!consumed.has(key) && now - at < REPORT_TTL_MS) snoozedAt[key] = at;
+  return { seen: nextSeen, snoozedAt, moved, errors };
+}
+
+// Folds one run's results onto the record as it is now, not as it was when the
+// run started: settings re-registered meanwhile are kept, and snoozes the app
+// reported while the run was going wait for the next one
+function applyRun(fresh, before, run) {
+  const next = { ...fresh, lastResult: run.lastResult, lastRunAt: run.lastRunAt };
+  if (run.seen) {
+    next.seen = run.seen;
+    next.snoozedAt = { ...run.snoozedAt };
+    const started = before.snoozedAt || {};
+    for (const [key, at] of Object.entries(fresh.snoozedAt || {})) if (started[key] !== at) next.snoozedAt[key] = at;
+  }
+  // A rotated token replaces the one this run used, not one a re-registration brought in
+  const used = before.refresh && before.refresh.refresh_token;
+  if (run.refreshToken && fresh.refresh && fresh.refresh.refresh_token === used) next.refresh = { ...fresh.refresh, refresh_token: run.refreshToken };
+  return next;
+}
+
+module.exports = { refreshAccessToken, createGmailClient, runSnoozes, applyRun };
@@ -0,0 +1,106 @@
+"use strict";
+
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { runSnoozes, applyRun } = require("./executor");
+
+function fakeGmail(labels) {
+  const calls = [];
+  return {
+    calls,
+    async listThreadIds(labelId) {
+      if (labels[labelId] instanceof Error) throw labels[labelId];
+      return [...(labels[labelId] || [])];
+    },
+    async modifyThread(threadId, add, remove) {
+      calls.push({ threadId, add, remove });
+      for (const id of remove) labels[id] = (labels[id] || []).filter((t) => t !== threadId);
+    }
+  };
+}
+
+const base = {
+  zone: "America/New_York",
+  anchorHour: 5,
+  roundMinutes: 5,
+  unreadOnUnsnooze: true,
+  labelMapping: { "10m": "L10", "1d": "L1D", Desktop: "LDESK" }
+};
+const t0 = Date.UTC(2025, 2, 8, 17, 0); // 12:00 in New York
+
+test("a snooze counts from first sighting and returns to the inbox when due", async () => {
+  const gmail = fakeGmail({ L10: ["a"], L1D: ["b"], LDESK: ["c"] });
+  const first = await runSnoozes({ ...base }, gmail, t0);
+  assert.deepEqual(first.moved, []);
+  assert.deepEqual(first.seen, { "a:L10": t0, "b:L1D": t0, "c:LDESK": t0 });
+
+  const later = t0 + 15 * 60000;
+  const second = await runSnoozes({ ...base, seen: first.seen }, gmail, later);
+  assert.deepEqual(second.moved.map((m) => m.threadId), ["a"]);
+  assert.deepEqual(gmail.calls, [{ threadId: "a", add: ["INBOX", "UNREAD"], remove: ["L10"] }]);
+  assert.equal(second.seen["a:L10"], undefined);
+  assert.equal(second.seen["b:L1D"], t0);
+  // Desktop snoozes never come back on their own
+  assert.equal(second.seen["c:LDESK"], t0);
+});
+
+test("custom presets resolve through their expression", async () => {
+  const gmail = fakeGmail({ LPREP: ["p"] });
+  const account = { ...base, labelMapping: { "Board prep": "LPREP" }, presets: { "Board prep": "tomorrow 9am" } };
+  const first = await runSnoozes(account, gmail, t0);
+  assert.deepEqual(first.moved, []);
+  // 9am New York on March 9, after the switch to EDT, is 13:00 UTC
+  const due = Date.UTC(2025, 2, 9, 13, 0);
+  const second = await runSnoozes({ ...account, seen: first.seen }, gmail, due);
+  assert.deepEqual(second.moved.map((m) => m.threadId), ["p"]);
+});
+
+test("unreadOnUnsnooze off only adds INBOX", async () => {
+  const gmail = fakeGmail({ L10: ["a"] });
+  const seen = { "a:L10": t0 };
+  await runSnoozes({ ...base, unreadOnUnsnooze: false, seen }, gmail, t0 + 60 * 60000);
+  assert.deepEqual(gmail.calls[0].add, ["INBOX"]);
+});
+
+test("a failed listing or modify keeps the snooze for the next run", async () => {
+  const gmail = fakeGmail({ L10: ["a"], L1D: new Error("gmail 500") });
+  gmail.modifyThread = async () => {
+    throw new Error("gmail 429");
+  };
+  const seen = { "a:L10": t0, "b:L1D": t0 };
+  const res = await runSnoozes({ ...base, seen }, gmail, t0 + 60 * 60000);
+  assert.deepEqual(res.moved, []);
+  assert.equal(res.errors.length, 2);
+  assert.deepEqual(res.seen, seen);
+});
+
+test("a reported snooze counts from when it was made, not when it was first seen", async () => {
+  const gmail = fakeGmail({ L10: ["a"], L1D: [] });
+  const snoozedAt = { "a:L10": t0 - 9 * 60000, "b:L1D": t0 - 60000, "old:L1D": t0 - 2 * 24 * 60 * 60000 };
+  const res = await runSnoozes({ ...base, snoozedAt }, gmail, t0 + 5 * 60000);
+  // Due 10 minutes after the report (rounded to 5), though this run is the first to see it
+  assert.deepEqual(res.moved.map((m) => m.threadId), ["a"]);
+  // "b" has not reached Gmail yet and waits; a day-old report is dropped
+  assert.deepEqual(res.snoozedAt, { "b:L1D": t0 - 60000 });
+
+  const next = await runSnoozes({ ...base, seen: res.seen, snoozedAt: res.snoozedAt }, fakeGmail({ L1D: ["b"] }), t0 + 10 * 60000);
+  assert.deepEqual(next.seen, { "b:L1D": t0 - 60000 });
+  assert.deepEqual(next.snoozedAt, {});
+});
+
+test("a run is saved onto the record as it is now", () => {
+  const before = { ...base, sub: "u1", refresh: { refresh_token: "r1" }, seen: {}, snoozedAt: { "a:L10": t0 } };
+  // Re-registered with a new zone during the run, and "b" reported meanwhile
+  const fresh = { ...before, zone: "Europe/Paris", snoozedAt: { "a:L10": t0, "b:L1D": t0 + 60000 } };
+  const run = { seen: { "c:L1D": t0 }, snoozedAt: {}, lastResult: { moved: 1, errors: [] }, lastRunAt: t0 + 120000, refreshToken: "r2" };
+  const saved = applyRun(fresh, before, run);
+  assert.equal(saved.zone, "Europe/Paris");
+  assert.deepEqual(saved.seen, { "c:L1D": t0 });
+  assert.deepEqual(saved.snoozedAt, { "b:L1D": t0 + 60000 });
+  assert.deepEqual(saved.refresh, { refresh_token: "r2" });
+  assert.equal(saved.lastRunAt, t0 + 120000);
+
+  // A failed run only records the failure
+  const failed = applyRun(fresh, before, { lastResult: { moved: 0, errors: [{ error: "x" }] }, lastRunAt: t0 });
+  assert.deepEqual(failed, { ...fresh, lastResult: { moved: 0, errors: [{ error: "x" }] }, lastRunAt: t0 });
+});
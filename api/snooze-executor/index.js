@@ -0,0 +1,35 @@
+const { listAccounts, loadAccount, saveAccount } = require("../_lib/snooze-store");
+const { refreshAccessToken, createGmailClient, runSnoozes, applyRun } = require("./executor");
+
+// Timer trigger (see function.json): returns due snoozes to the inbox for
+// every account registered through /api/snooze-register, with no tab open.
+module.exports = async function (context) {
+  const accounts = await listAccounts();
+  for (const account of accounts) {
+    if (!account.refresh || !account.refresh.refresh_token) {
+      context.log.warn(`[snooze-executor] ${account.sub}: no refresh token; re-register from the app`);
+      continue;
+    }
+    const run = { lastRunAt: Date.now() };
+    try {
+      const tok = await refreshAccessToken(account.refresh.refresh_token);
+      if (tok.refresh_token && tok.refresh_token !== account.refresh.refresh_token) run.refreshToken = tok.refresh_token;
+      const result = await runSnoozes(account, createGmailClient(tok.access_token), run.lastRunAt);
+      run.seen = result.seen;
+      run.snoozedAt = result.snoozedAt;
+      run.lastResult = { moved: result.moved.length, errors: result.errors.slice(0, 5) };
+      if (result.moved.length || result.errors.length) {
+        context.log(`[snooze-executor] ${account.sub}: moved ${result.moved.length}, errors ${result.errors.length}`);
+      }
+    } catch (e) {
+      run.lastResult = { moved: 0, errors: [{ error: e instanceof Error ? e.message : String(e) }] };
+      context.log.warn(`[snooze-executor] ${account.sub}: ${run.lastResult.errors[0].error}`);
+    }
+    const fresh = await loadAccount(account.sub);
+    if (!fresh) {
+      context.log(`[snooze-executor] ${account.sub}: unregistered during the run; not saved`);
+      continue;
+    }
+    await saveAccount(applyRun(fresh, account, run));
+  }
+};
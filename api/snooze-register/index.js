@@ -0,0 +1,137 @@
+const { getSession, getRefreshPayload, getAccountAuth } = require("../_lib/session");
+const { setCorsHeaders } = require("../_lib/cors");
+const { loadAccount, saveAccount, deleteAccount } = require("../_lib/snooze-store");
+const { isValidZone, parseRuleExpression } = require("../_lib/snooze-rules");
+
+function json(context, req, status, body) {
+  const headers = { "Content-Type": "application/json", "Cache-Control": "no-store" };
+  setCorsHeaders(headers, req);
+  context.res = { status, headers, body: JSON.stringify(body) };
+}
+
+function readConfig(body) {
+  const b = typeof body === "string" ? JSON.parse(body || "{}") : body || {};
+  if (!isValidZone(b.zone)) throw new Error("zone must be an IANA time zone");
+  const mapping = {};
+  for (const [k, v] of Object.entries(b.labelMapping || {})) if (typeof v === "string" && v) mapping[k] = v;
+  // Custom presets whose expressions the executor cannot parse are dropped
+  const presets = {};
+  for (const [k, v] of Object.entries(b.presets || {})) if (typeof v === "string" && parseRuleExpression(v)) presets[k] = v;
+  // Working week for rules that respect business hours (see snooze-rules.js)
+  const bh = b.businessHours || {};
+  const business = {
+    days: Array.isArray(bh.days) ? bh.days.map(Number).filter((n) => n >= 1 && n <= 7) : [1, 2, 3, 4, 5],
+    start: typeof bh.start === "string" ? bh.start : "09:00",
+    end: typeof bh.end === "string" ? bh.end : "17:00",
+    holidays: Array.isArray(b.holidays) ? b.holidays.filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d)) : [],
+    rules: Array.isArray(b.businessHoursRules) ? b.businessHoursRules.map(String) : []
+  };
+  return {
+    zone: String(b.zone),
+    anchorHour: Math.min(23, Math.max(0, Number(b.anchorHour) || 0)),
+    roundMinutes: Math.max(1, Number(b.roundMinutes) || 5),
+    unreadOnUnsnooze: b.unreadOnUnsnooze !== false,
+    labelMapping: mapping,
+    presets,
+    business
+  };
+}
+
+// Snoozes the app just made: [{ threadId, labelId, at }]. Times are capped at now
+// so a fast client clock cannot delay a snooze.
+function readSnoozes(body, now) {
+  const b = typeof body === "string" ? JSON.parse(body || "{}") : body || {};
+  if (!Array.isArray(b.snoozes)) throw new Error("snoozes must be an array");
+  const out = {};
+  for (const s of b.snoozes) {
+    const at = Number(s && s.at);
+    if (!s || typeof s.threadId !== "string" || typeof s.labelId !== "string" || !Number.isFinite(at)) continue;
+    out[`${s.threadId}:${s.labelId}`] = Math.min(at, now);
+  }
+  return out;
+}
+
+// GET: registration status. POST: register or update the snooze settings the
+// timer uses, keeping this account's refresh token server-side. PATCH: report
+// when threads were snoozed, so the executor counts from then. DELETE: stop.
+// X-Jmail-Account selects an additional signed-in account, as in gmail-proxy.
+module.exports = async function (context, req) {
+  if (req.method === "OPTIONS") {
+    const headers = {};
+    setCorsHeaders(headers, req);
+    context.res = { status: 200, headers, body: "" };
+    return;
+  }
+
+  const accountSub = req.headers && req.headers["x-jmail-account"] ? String(req.headers["x-jmail-account"]) : "";
+  let payload;
+  let sub;
+  if (accountSub) {
+    payload = getAccountAuth(req, accountSub).refresh;
+    sub = payload && payload.sub;
+  } else {
+    payload = getRefreshPayload(req);
+    const session = getSession(req);
+    sub = (payload && payload.sub) || (session && session.sub);
+  }
+  if (!payload || !payload.refresh_token || !sub) {
+    json(context, req, 401, { error: "unauthenticated" });
+    return;
+  }
+
+  const method = (req.method || "GET").toUpperCase();
+  const existing = await loadAccount(sub);
+  if (method === "GET") {
+    json(context, req, 200, {
+      registered: !!existing,
+      zone: existing ? existing.zone : undefined,
+      pending: existing ? Object.keys(existing.seen || {}).length : 0,
+      lastRunAt: existing ? existing.lastRunAt : undefined,
+      lastResult: existing ? existing.lastResult : undefined
+    });
+    return;
+  }
+  if (method === "DELETE") {
+    await deleteAccount(sub);
+    json(context, req, 200, { ok: true });
+    return;
+  }
+  if (method === "PATCH") {
+    if (!existing) {
+      json(context, req, 409, { error: "not_registered" });
+      return;
+    }
+    let snoozes;
+    try {
+      snoozes = readSnoozes(req.body, Date.now());
+    } catch (e) {
+      json(context, req, 400, { error: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+    await saveAccount({ ...existing, snoozedAt: { ...(existing.snoozedAt || {}), ...snoozes } });
+    json(context, req, 200, { ok: true });
+    return;
+  }
+  if (method !== "POST") {
+    json(context, req, 405, { error: "method_not_allowed" });
+    return;
+  }
+
+  let config;
+  try {
+    config = readConfig(req.body);
+  } catch (e) {
+    json(context, req, 400, { error: e instanceof Error ? e.message : String(e) });
+    return;
+  }
+  await saveAccount({
+    ...(existing || {}),
+    ...config,
+    sub,
+    email: payload.email,
+    refresh: { refresh_token: payload.refresh_token, sub, email: payload.email, scope: payload.scope },
+    seen: (existing && existing.seen) || {},
+    registeredAt: (existing && existing.registeredAt) || Date.now()
+  });
+  json(context, req, 200, { ok: true });
+};
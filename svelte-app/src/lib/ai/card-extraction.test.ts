@@ -0,0 +1,66 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDB } from '$lib/db/indexeddb';
+import type { GmailThread } from '$lib/types';
+import { extractThreadCards } from './card-extraction';
+import { CARDS_VERSION, CardParseError } from './cards';
+import { AIProviderError } from './errors';
+
+const replies = vi.hoisted(() => new Map<string, () => unknown>());
+vi.mock('./providers', () => ({
+  simpleHash: (s: string) => `h${s.length}`,
+  // Keyed by subject, which leads the extraction text
+  aiExtractCards: async (text: string) => {
+    const subject = /^Subject: (.*)$/m.exec(text)?.[1] || '';
+    return replies.get(subject)?.();
+  }
+}));
+
+const log = () => {};
+
+async function seedThread(id: string): Promise<GmailThread> {
+  const db = await getDB();
+  const thread: GmailThread = { threadId: id, messageIds: [`m-${id}`], lastMsgMeta: { subject: id }, labelIds: ['INBOX'] };
+  await db.put('messages', { id: `m-${id}`, threadId: id, labelIds: ['INBOX'], internalDate: 1, bodyText: `Body of ${id}`, headers: { Subject: id } });
+  await db.put('threads', thread);
+  return thread;
+}
+
+describe('extractThreadCards', () => {
+  beforeEach(async () => {
+    replies.clear();
+    const db = await getDB();
+    await db.clear('threads');
+    await db.clear('messages');
+  });
+
+  it('records a reply that is not cards against the body and moves on', async () => {
+    replies.set('a', () => {
+      throw new CardParseError('Card extraction returned no JSON');
+    });
+    replies.set('b', () => [{ kind: 'bill', payee: 'City Water', amount: 12 }]);
+    const threads = [await seedThread('a'), await seedThread('b')];
+
+    const updated = await extractThreadCards(threads, { limit: 5, log });
+    expect(updated.map((t) => [t.threadId, t.cardsStatus])).toEqual([['a', 'error'], ['b', 'ready']]);
+    const failed = await (await getDB()).get('threads', 'a');
+    expect(failed).toMatchObject({ cards: [], cardsHash: expect.any(String), cardsVersion: CARDS_VERSION });
+
+    // The same body is not sent again
+    const again = await extractThreadCards([failed as GmailThread], { limit: 5, log });
+    expect(again).toEqual([]);
+  });
+
+  it('stops at a provider error and leaves the thread to retry', async () => {
+    replies.set('a', () => {
+      throw new AIProviderError({ provider: 'gemini', message: 'rate limited', status: 429 });
+    });
+    replies.set('b', () => []);
+    const threads = [await seedThread('a'), await seedThread('b')];
+
+    const updated = await extractThreadCards(threads, { limit: 5, log });
+    expect(updated.map((t) => t.threadId)).toEqual(['a']);
+    expect(updated[0].cardsStatus).toBe('error');
+    expect(updated[0].cardsHash).toBeUndefined();
+  });
+});
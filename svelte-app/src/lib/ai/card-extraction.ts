@@ -0,0 +1,66 @@
+import { get } from 'svelte/store';
+import { getDB } from '$lib/db/indexeddb';
+import { threads as threadsStore } from '$lib/stores/threads';
+import type { GmailThread, ThreadCard } from '$lib/types';
+import { aiExtractCards, simpleHash } from './providers';
+import { CARDS_VERSION, CardParseError, cardExtractionText } from './cards';
+
+type ExtractionLog = (level: 'debug' | 'warn' | 'error', ...args: unknown[]) => void;
+
+/**
+ * Extracts cards for up to `limit` threads whose latest cached body changed
+ * since their last extraction (or that predate CARDS_VERSION). Threads whose
+ * body is not cached yet are skipped until the summary stage has fetched it.
+ * A reply that is not cards marks the thread as an error for this body and the
+ * run moves on; any other failure (rate limit, network) ends the run and that
+ * thread is tried again next tick. Returns the updated threads.
+ */
+export async function extractThreadCards(threads: GmailThread[], opts: { limit: number; log: ExtractionLog }): Promise<GmailThread[]> {
+  const db = await getDB();
+  const todo: Array<{ threadId: string; text: string; hash: string }> = [];
+  for (const thread of threads) {
+    if (todo.length >= opts.limit) break;
+    const messages = await db.getAllFromIndex('messages', 'by_threadId', thread.threadId);
+    const text = cardExtractionText(thread, messages);
+    if (!text) continue;
+    const hash = simpleHash(text);
+    if (thread.cardsHash === hash && thread.cardsVersion === CARDS_VERSION) continue;
+    todo.push({ threadId: thread.threadId, text, hash });
+  }
+  if (!todo.length) return [];
+
+  const updated: GmailThread[] = [];
+  for (const item of todo) {
+    let cards: ThreadCard[];
+    try {
+      cards = await aiExtractCards(item.text);
+    } catch (e) {
+      opts.log('warn', '[Precompute] Card extraction failed for', item.threadId, e instanceof Error ? e.message : String(e));
+      // A bad reply is recorded against this body so the thread is not asked about again until it changes;
+      // anything else is left without a hash so the next tick retries, and stops here rather than fail every thread
+      const final = e instanceof CardParseError;
+      const latest = await db.get('threads', item.threadId);
+      if (latest) {
+        const failed: GmailThread = final
+          ? { ...latest, cards: [], cardsStatus: 'error', cardsHash: item.hash, cardsVersion: CARDS_VERSION, cardsUpdatedAt: Date.now() }
+          : { ...latest, cardsStatus: 'error' };
+        await db.put('threads', failed);
+        updated.push(failed);
+      }
+      if (final) continue;
+      break;
+    }
+    // Re-read so labels or summaries written while the model ran are kept
+    const latest = await db.get('threads', item.threadId);
+    if (!latest) continue;
+    const next: GmailThread = { ...latest, cards, cardsStatus: 'ready', cardsHash: item.hash, cardsVersion: CARDS_VERSION, cardsUpdatedAt: Date.now() };
+    await db.put('threads', next);
+    updated.push(next);
+  }
+
+  const byId = new Map(updated.map((t) => [t.threadId, t]));
+  const current = get(threadsStore);
+  if (Array.isArray(current)) threadsStore.set(current.map((t) => byId.get(t.threadId) || t));
+  opts.log('debug', '[Precompute] Extracted cards for', updated.length, 'threads');
+  return updated;
+}
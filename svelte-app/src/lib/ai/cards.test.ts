@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { CardParseError, cardExtractionText, parseCards, validateCard } from './cards';
+import type { GmailMessage, GmailThread } from '$lib/types';
+
+describe('parseCards', () => {
+  it('reads fenced JSON and keeps only what the email stated', () => {
+    const reply = '```json\n{"cards":[{"kind":"event","title":"Mustang service","start":"2025-09-16T09:00","location":"Covert Ford, Austin","end":null},{"kind":"bill","payee":"City Water","amount":"$1,204.50","currency":"usd","dueDate":"Oct 3"}]}\n```';
+    expect(parseCards(reply)).toEqual([
+      { kind: 'event', title: 'Mustang service', start: '2025-09-16T09:00', location: 'Covert Ford, Austin' },
+      { kind: 'bill', payee: 'City Water', amount: 1204.5, currency: 'USD' }
+    ]);
+    expect(parseCards('{"cards":[]}')).toEqual([]);
+    expect(() => parseCards('No structured data found.')).toThrow(CardParseError);
+  });
+
+  it('drops cards missing required fields', () => {
+    expect(validateCard({ kind: 'event', title: 'Camp', start: 'next week' })).toBeNull();
+    expect(validateCard({ kind: 'bill', payee: 'Gym', amount: 'TBD' })).toBeNull();
+    expect(validateCard({ kind: 'order', merchant: 'Shop', items: [] })).toBeNull();
+    expect(validateCard({ kind: 'coupon', code: 'SAVE10' })).toBeNull();
+    expect(
+      validateCard({
+        kind: 'order',
+        merchant: 'Shop',
+        items: [{ name: 'Cable', quantity: 2, price: 9.99 }, { quantity: 1 }],
+        tracking: { carrier: 'UPS', number: '1Z999AA10123456784', url: 'javascript:alert(1)' }
+      })
+    ).toEqual({ kind: 'order', merchant: 'Shop', items: [{ name: 'Cable', quantity: 2, price: 9.99 }], tracking: { carrier: 'UPS', number: '1Z999AA10123456784' } });
+  });
+});
+
+describe('cardExtractionText', () => {
+  it('uses the newest message that has a body', () => {
+    const thread: GmailThread = { threadId: 't1', messageIds: ['m1', 'm2'], labelIds: ['INBOX'], lastMsgMeta: { subject: 'Your order' } };
+    const messages: GmailMessage[] = [
+      { id: 'm1', threadId: 't1', labelIds: [], internalDate: 1, bodyText: 'Order #42 placed.', headers: { From: 'Shop <orders@shop.example>' } },
+      { id: 'm2', threadId: 't1', labelIds: [], internalDate: 2, snippet: 'metadata only' }
+    ];
+    const text = cardExtractionText(thread, messages);
+    expect(text.startsWith('Subject: Your order\nFrom: Shop <orders@shop.example>\nDate: ')).toBe(true);
+    expect(text.endsWith('\n\nOrder #42 placed.')).toBe(true);
+    expect(cardExtractionText(thread, [messages[1]])).toBe('');
+  });
+});
@@ -0,0 +1,171 @@
+import type { GmailMessage, GmailThread, ThreadCard } from '$lib/types';
+import { messagePlainText } from '../compose/message';
+import { getCardExtractionPrompt } from './prompts';
+
+/** Bump when the prompt or schema changes so cached cards are extracted again. */
+export const CARDS_VERSION = 1;
+
+const MAX_CARD_INPUT_CHARS = 6000;
+const MAX_CARDS = 5;
+const MAX_ITEMS = 20;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/;
+
+/**
+ * What the model reads for a thread: subject, sender and date of the newest
+ * message with a body, then that body. Relative dates ("next Tuesday") are
+ * resolved against the date line. Returns '' when no body is cached yet.
+ */
+export function cardExtractionText(thread: GmailThread, messages: GmailMessage[]): string {
+  const latest = [...messages]
+    .filter((m) => m.bodyText || m.bodyHtml)
+    .sort((a, b) => (b.internalDate || 0) - (a.internalDate || 0))[0];
+  if (!latest) return '';
+  const body = messagePlainText(latest).replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n\n').trim();
+  if (!body) return '';
+  const date = latest.internalDate ? new Date(latest.internalDate).toString() : latest.headers?.Date || '';
+  const header = [
+    `Subject: ${latest.headers?.Subject || thread.lastMsgMeta?.subject || '(no subject)'}`,
+    `From: ${latest.headers?.From || thread.lastMsgMeta?.from || ''}`,
+    date ? `Date: ${date}` : ''
+  ];
+  return `${header.filter(Boolean).join('\n')}\n\n${body}`.slice(0, MAX_CARD_INPUT_CHARS);
+}
+
+export function buildCardExtractionPrompt(text: string): string {
+  return `${getCardExtractionPrompt()}\n\n${text}`;
+}
+
+function str(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() ? v.trim() : undefined;
+}
+
+// Models sometimes keep the symbol or thousands separator despite the prompt
+function num(v: unknown): number | undefined {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : undefined;
+  if (typeof v !== 'string' || !/\d/.test(v)) return undefined;
+  const n = Number(v.replace(/[^\d.-]/g, ''));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function date(v: unknown): string | undefined {
+  const s = str(v);
+  return s && DATE_RE.test(s) && !Number.isNaN(Date.parse(s)) ? s : undefined;
+}
+
+function currency(v: unknown): string | undefined {
+  const s = str(v)?.toUpperCase();
+  return s && /^[A-Z]{3}$/.test(s) ? s : undefined;
+}
+
+function url(v: unknown): string | undefined {
+  const s = str(v);
+  return s && /^https:\/\//i.test(s) ? s : undefined;
+}
+
+/** Drops undefined keys so stored cards only carry what the email stated. */
+function compact<T extends object>(obj: T): T {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+}
+
+/** One card checked against the schema, or null when a required field is missing or malformed. */
+export function validateCard(raw: unknown): ThreadCard | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const c = raw as Record<string, unknown>;
+  if (c.kind === 'event') {
+    const title = str(c.title);
+    const start = date(c.start);
+    if (!title || !start) return null;
+    const end = date(c.end);
+    return compact({ kind: 'event' as const, title, start, end: end && end >= start ? end : undefined, location: str(c.location) });
+  }
+  if (c.kind === 'order') {
+    const items = (Array.isArray(c.items) ? c.items : [])
+      .slice(0, MAX_ITEMS)
+      .flatMap((it) => {
+        const name = it && typeof it === 'object' ? str((it as Record<string, unknown>).name) : undefined;
+        if (!name) return [];
+        const o = it as Record<string, unknown>;
+        return [compact({ name, quantity: num(o.quantity), price: num(o.price) })];
+      });
+    const t = c.tracking && typeof c.tracking === 'object' ? (c.tracking as Record<string, unknown>) : undefined;
+    const trackingNumber = str(t?.number);
+    const card = compact({
+      kind: 'order' as const,
+      merchant: str(c.merchant),
+      orderNumber: str(c.orderNumber),
+      items,
+      total: num(c.total),
+      currency: currency(c.currency),
+      tracking: trackingNumber ? compact({ carrier: str(t?.carrier), number: trackingNumber, url: url(t?.url) }) : undefined
+    });
+    // An order card needs something to show beyond the merchant
+    return items.length || card.total !== undefined || card.tracking || card.orderNumber ? card : null;
+  }
+  if (c.kind === 'bill') {
+    const payee = str(c.payee);
+    const amount = num(c.amount);
+    if (!payee || amount === undefined) return null;
+    return compact({ kind: 'bill' as const, payee, amount, currency: currency(c.currency), dueDate: date(c.dueDate) });
+  }
+  return null;
+}
+
+/** The model answered, but not with cards; asking again about the same text would not help. */
+export class CardParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CardParseError';
+  }
+}
+
+/**
+ * Parses the model's reply into valid cards. Code fences and chatter around
+ * the JSON are tolerated; invalid cards are dropped. Throws CardParseError when
+ * the reply holds no JSON at all, so the thread is marked as an error.
+ */
+export function parseCards(reply: string): ThreadCard[] {
+  const text = reply.replace(/```(?:json)?/gi, '').trim();
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start < 0 || end < start) throw new CardParseError('Card extraction returned no JSON');
+  let data: unknown;
+  try {
+    data = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    throw new CardParseError('Card extraction returned invalid JSON');
+  }
+  const list = Array.isArray(data) ? data : (data as { cards?: unknown })?.cards;
+  if (!Array.isArray(list)) throw new CardParseError('Card extraction returned no "cards" array');
+  return list.map(validateCard).filter((c): c is ThreadCard => !!c).slice(0, MAX_CARDS);
+}
+
+export function formatAmount(amount: number, code?: string): string {
+  try {
+    if (code) return new Intl.NumberFormat(undefined, { style: 'currency', currency: code }).format(amount);
+  } catch {
+    /* unknown currency code */
+  }
+  return amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** Formats a card date; date-only values are read as local dates, not UTC midnight. */
+export function formatCardDate(value: string): string {
+  const hasTime = value.includes('T');
+  const d = new Date(hasTime ? value : `${value}T00:00`);
+  const opts: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' };
+  if (d.getFullYear() !== new Date().getFullYear()) opts.year = 'numeric';
+  if (hasTime) Object.assign(opts, { hour: 'numeric', minute: '2-digit' });
+  return d.toLocaleString(undefined, opts);
+}
+
+/** Short label for the thread list, e.g. "Bill · $120.00 due Fri, Oct 3". */
+export function cardBadge(card: ThreadCard): string {
+  if (card.kind === 'event') return `Event · ${formatCardDate(card.start)}`;
+  if (card.kind === 'bill') {
+    const due = card.dueDate ? ` due ${formatCardDate(card.dueDate)}` : '';
+    return `Bill · ${formatAmount(card.amount, card.currency)}${due}`;
+  }
+  if (card.tracking) return `Shipment · ${card.tracking.carrier || card.tracking.number}`;
+  return card.total !== undefined ? `Order · ${formatAmount(card.total, card.currency)}` : `Order · ${card.merchant || card.orderNumber || 'details'}`;
+}
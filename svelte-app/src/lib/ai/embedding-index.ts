@@ -0,0 +1,98 @@
+import { get } from 'svelte/store';
+import { getDB } from '$lib/db/indexeddb';
+import { settings } from '$lib/stores/settings';
+import type { GmailThread, ThreadEmbedding } from '$lib/types';
+import { simpleHash } from './providers';
+import { embedTexts, embeddingTarget, rankBySimilarity, threadEmbeddingText, type EmbeddingTarget, type RankedThread } from './embeddings';
+import { recordAIUsage } from './usage-ledger';
+
+type IndexLog = (level: 'debug' | 'warn' | 'error', ...args: unknown[]) => void;
+
+const modelKey = (target: EmbeddingTarget) => `${target.provider}/${target.model}`;
+
+function resolveTarget(): EmbeddingTarget {
+  const target = embeddingTarget(get(settings));
+  if ('error' in target) throw new Error(target.error);
+  return target;
+}
+
+function isUnfilteredInbox(t: GmailThread): boolean {
+  const labels = t.labelIds || [];
+  return labels.includes('INBOX') && !labels.includes('TRASH') && !labels.includes('SPAM');
+}
+
+/**
+ * Embeds up to `limit` threads whose text changed since they were last
+ * indexed (or that were indexed with another model). Runs from precompute, so
+ * the index catches up a chunk at a time; returns how many were embedded.
+ */
+export async function indexThreadEmbeddings(threads: GmailThread[], opts: { limit: number; log: IndexLog }): Promise<number> {
+  const target = resolveTarget();
+  const model = modelKey(target);
+  const db = await getDB();
+  const todo: Array<{ thread: GmailThread; text: string; contentHash: string }> = [];
+  for (const thread of threads) {
+    if (todo.length >= opts.limit) break;
+    if (!isUnfilteredInbox(thread)) continue;
+    const messages = await db.getAllFromIndex('messages', 'by_threadId', thread.threadId);
+    const text = threadEmbeddingText(thread, messages);
+    if (!text) continue;
+    const contentHash = simpleHash(text);
+    const existing = await db.get('embeddings', thread.threadId);
+    if (existing && existing.model === model && existing.contentHash === contentHash) continue;
+    todo.push({ thread, text, contentHash });
+  }
+  if (!todo.length) return 0;
+  const batch = await embedTexts(target, todo.map((t) => t.text), 'document');
+  void recordAIUsage({ feature: 'search', provider: target.provider, model: target.model, usage: batch.usage, estimated: batch.estimated });
+  const now = Date.now();
+  const tx = db.transaction('embeddings', 'readwrite');
+  for (let i = 0; i < todo.length; i++) {
+    await tx.store.put({ threadId: todo[i].thread.threadId, model, contentHash: todo[i].contentHash, vector: batch.vectors[i], updatedAt: now });
+  }
+  await tx.done;
+  opts.log('debug', '[Precompute] Embedded', todo.length, 'threads for semantic search with', model);
+  return todo.length;
+}
+
+// The inbox re-runs a search whenever the thread list changes; the query vector is reused
+const queryVectors = new Map<string, Float32Array>();
+
+/** `threads` ranked by meaning against `query`, best first; unindexed threads are left out. */
+export async function semanticSearch(query: string, threads: GmailThread[], opts: { limit?: number } = {}): Promise<RankedThread[]> {
+  const q = query.trim();
+  if (!q) return [];
+  const target = resolveTarget();
+  const model = modelKey(target);
+  const cacheKey = `${model}|${q}`;
+  let vector = queryVectors.get(cacheKey);
+  if (!vector) {
+    const batch = await embedTexts(target, [q], 'query');
+    void recordAIUsage({ feature: 'search', provider: target.provider, model: target.model, usage: batch.usage, estimated: batch.estimated });
+    vector = batch.vectors[0];
+    if (queryVectors.size > 50) queryVectors.clear();
+    queryVectors.set(cacheKey, vector);
+  }
+  const wanted = new Set(threads.map((t) => t.threadId));
+  const db = await getDB();
+  const entries = (await db.getAll('embeddings')).filter((e) => e.model === model && wanted.has(e.threadId));
+  return rankBySimilarity(vector, entries, { limit: opts.limit });
+}
+
+export type EmbeddingIndexStats = { indexed: number; model: string | null; otherModels: number };
+
+/** How much of the index matches the current embedding model. */
+export async function getEmbeddingIndexStats(): Promise<EmbeddingIndexStats> {
+  const target = embeddingTarget(get(settings));
+  const model = 'error' in target ? null : modelKey(target);
+  const db = await getDB();
+  const all: ThreadEmbedding[] = await db.getAll('embeddings');
+  const indexed = all.filter((e) => e.model === model).length;
+  return { indexed, model, otherModels: all.length - indexed };
+}
+
+export async function clearEmbeddingIndex(): Promise<void> {
+  const db = await getDB();
+  await db.clear('embeddings');
+  queryVectors.clear();
+}
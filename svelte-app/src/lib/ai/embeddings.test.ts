@@ -0,0 +1,97 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { embedTexts, embeddingTarget, normalizeVector, rankBySimilarity, threadEmbeddingText } from './embeddings';
+import type { GmailMessage, GmailThread } from '$lib/types';
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('threadEmbeddingText', () => {
+  it('puts subject, sender and summary before the newest bodies', () => {
+    const thread: GmailThread = {
+      threadId: 't1',
+      messageIds: ['m1', 'm2'],
+      labelIds: ['INBOX'],
+      lastMsgMeta: { subject: 'Invoice 42', from: 'Billing <billing@example.com>' },
+      summary: 'Payment due Friday.'
+    };
+    const messages: GmailMessage[] = [
+      { id: 'm1', threadId: 't1', labelIds: [], internalDate: 1, bodyText: 'Older   message' },
+      { id: 'm2', threadId: 't1', labelIds: [], internalDate: 2, bodyHtml: '<p>Newer <b>reply</b></p>' }
+    ];
+    expect(threadEmbeddingText(thread, messages)).toBe('Invoice 42\nFrom: Billing <billing@example.com>\nPayment due Friday.\nNewer reply\nOlder message');
+  });
+});
+
+describe('ranking', () => {
+  it('orders by cosine similarity and drops weak or distant matches', () => {
+    const q = normalizeVector([1, 0, 0]);
+    const ranked = rankBySimilarity(q, [
+      { threadId: 'close', vector: normalizeVector([0.9, 0.1, 0]) },
+      { threadId: 'exact', vector: normalizeVector([2, 0, 0]) },
+      { threadId: 'far', vector: normalizeVector([0.3, 1, 0]) },
+      { threadId: 'unrelated', vector: normalizeVector([0, 0, 1]) }
+    ]);
+    expect(ranked.map((r) => r.threadId)).toEqual(['exact', 'close']);
+    expect(ranked[0].score).toBeCloseTo(1);
+  });
+});
+
+describe('embeddingTarget', () => {
+  it('picks defaults per provider and explains missing setup', () => {
+    expect(embeddingTarget({ aiProvider: 'openai' })).toMatchObject({ provider: 'openai', model: 'text-embedding-3-small' });
+    expect(embeddingTarget({ aiProvider: 'gemini', aiApiKey: 'k' })).toMatchObject({ provider: 'gemini', model: 'text-embedding-004' });
+    expect(embeddingTarget({ aiProvider: 'anthropic', aiApiKey: 'k' })).toHaveProperty('error');
+    expect(embeddingTarget({ aiProvider: 'anthropic', aiEmbeddingSource: 'local' })).toHaveProperty('error');
+    expect(embeddingTarget({ aiProvider: 'anthropic', aiEmbeddingSource: 'local', aiEmbeddingBaseUrl: 'http://localhost:11434' })).toMatchObject({
+      provider: 'local',
+      model: 'nomic-embed-text',
+      baseUrl: 'http://localhost:11434'
+    });
+  });
+});
+
+describe('embedTexts', () => {
+  it('calls Gemini batchEmbedContents with the task type and estimates usage', async () => {
+    let sent: { url: string; body: { requests: Array<{ taskType: string }> } } | undefined;
+    const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      sent = { url: String(input), body: JSON.parse(String(init?.body)) };
+      return json(200, { embeddings: [{ values: [3, 4] }] });
+    }) as typeof fetch;
+    const out = await embedTexts({ provider: 'gemini', model: 'text-embedding-004', apiKey: 'k', fetchImpl }, ['where is my parcel'], 'query');
+    expect(sent?.url).toContain('/models/text-embedding-004:batchEmbedContents?key=k');
+    expect(sent?.body.requests[0].taskType).toBe('RETRIEVAL_QUERY');
+    expect(Array.from(out.vectors[0])).toEqual([expect.closeTo(0.6), expect.closeTo(0.8)]);
+    expect(out).toMatchObject({ estimated: true, usage: { inputTokens: 5, outputTokens: 0 } });
+  });
+
+  it('reads OpenAI-style responses from a local server in index order', async () => {
+    const fetchImpl = (async () =>
+      json(200, {
+        data: [
+          { index: 1, embedding: [0, 2] },
+          { index: 0, embedding: [2, 0] }
+        ],
+        usage: { prompt_tokens: 7 }
+      })) as unknown as typeof fetch;
+    const out = await embedTexts({ provider: 'local', model: 'nomic-embed-text', baseUrl: 'http://127.0.0.1:11434', fetchImpl }, ['a', 'b']);
+    expect(out.vectors.map((v) => Array.from(v))).toEqual([[1, 0], [0, 1]]);
+    expect(out).toMatchObject({ estimated: false, usage: { inputTokens: 7, outputTokens: 0 } });
+  });
+
+  it('redacts text sent to a cloud provider but not to a local server', async () => {
+    const inputs: string[][] = [];
+    const fetchImpl = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+      inputs.push(JSON.parse(String(init?.body)).input);
+      return json(200, { data: [{ index: 0, embedding: [1] }] });
+    }) as typeof fetch;
+    const text = 'Call ana@example.com on 555 123 4567';
+    await embedTexts({ provider: 'openai', model: 'text-embedding-3-small', fetchImpl }, [text]);
+    await embedTexts({ provider: 'local', model: 'nomic-embed-text', baseUrl: 'http://127.0.0.1:11434', fetchImpl }, [text]);
+    expect(inputs).toEqual([['Call [EMAIL] on [PHONE]'], [text]]);
+  });
+
+  it('rejects a response with missing vectors', async () => {
+    const fetchImpl = (async () => json(200, { data: [{ index: 0, embedding: [1] }] })) as unknown as typeof fetch;
+    await expect(embedTexts({ provider: 'openai', model: 'text-embedding-3-small', fetchImpl }, ['a', 'b'])).rejects.toThrow('1 of 2 vectors');
+  });
+});
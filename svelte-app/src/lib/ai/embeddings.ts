@@ -0,0 +1,178 @@
+import type { GmailMessage, GmailThread } from '$lib/types';
+import { AIProviderError, type AIProviderName } from './errors';
+import { createEmbeddings, embeddingsFromResponse } from './openai-compatible';
+import { htmlToText, redactPII } from './redact';
+import { estimateTokens, usageFromResponse, type TokenUsage } from './usage';
+
+/**
+ * Embedding requests for the semantic search index. OpenAI goes through the
+ * `/api/openai` proxy like chat does, Gemini is called directly with the key,
+ * and 'local' is any OpenAI-compatible server (Ollama with nomic-embed-text,
+ * llama.cpp, …). Anthropic has no embeddings API, so it needs a local model.
+ */
+export type EmbeddingTarget = {
+  provider: AIProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+};
+
+/** Documents are indexed, queries are searched; Gemini tunes vectors for each side. */
+export type EmbeddingTask = 'document' | 'query';
+
+export type EmbeddingBatch = { vectors: Float32Array[]; usage: TokenUsage; estimated: boolean };
+
+const DEFAULT_MODELS: Partial<Record<AIProviderName, string>> = {
+  openai: 'text-embedding-3-small',
+  gemini: 'text-embedding-004',
+  local: 'nomic-embed-text'
+};
+
+// Keeps requests well inside every model's input limit (8k tokens for the smallest)
+const MAX_TEXT_CHARS = 6000;
+
+type EmbeddingSettings = {
+  aiProvider?: AIProviderName;
+  aiApiKey?: string;
+  aiBaseUrl?: string;
+  aiEmbeddingSource?: 'provider' | 'local';
+  aiEmbeddingModel?: string;
+  aiEmbeddingBaseUrl?: string;
+};
+
+/** Where embeddings come from under these settings, or the reason there is nowhere. */
+export function embeddingTarget(s: EmbeddingSettings): EmbeddingTarget | { error: string } {
+  const provider = s.aiEmbeddingSource === 'local' ? 'local' : s.aiProvider || 'gemini';
+  const model = (s.aiEmbeddingModel || '').trim() || DEFAULT_MODELS[provider] || '';
+  if (provider === 'anthropic') return { error: 'Anthropic has no embeddings API; choose a local embedding model' };
+  if (provider === 'local') {
+    const baseUrl = (s.aiEmbeddingBaseUrl || '').trim() || (s.aiProvider === 'local' ? s.aiBaseUrl || '' : '');
+    if (!baseUrl) return { error: 'Set the embedding server URL' };
+    return { provider, model, baseUrl, apiKey: s.aiProvider === 'local' ? s.aiApiKey : undefined };
+  }
+  if (provider === 'gemini' && !(s.aiApiKey || '').trim()) return { error: 'Gemini embeddings need an API key' };
+  return { provider, model, apiKey: s.aiApiKey };
+}
+
+/** Text embedded for a thread: subject, sender, AI summary and the cached message bodies, newest first. */
+export function threadEmbeddingText(thread: GmailThread, messages: GmailMessage[]): string {
+  const bodies = [...messages]
+    .sort((a, b) => (b.internalDate || 0) - (a.internalDate || 0))
+    .map((m) => (m.bodyText || htmlToText(m.bodyHtml) || m.snippet || '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  const parts = [
+    thread.aiSubject || thread.lastMsgMeta?.subject || '',
+    thread.lastMsgMeta?.from ? `From: ${thread.lastMsgMeta.from}` : '',
+    thread.summary || '',
+    ...bodies
+  ].filter(Boolean);
+  return parts.join('\n').slice(0, MAX_TEXT_CHARS);
+}
+
+/** Scales a vector to unit length so cosine similarity becomes a dot product. */
+export function normalizeVector(values: ArrayLike<number>): Float32Array {
+  const out = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < out.length; i++) norm += out[i] * out[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < out.length; i++) out[i] /= norm;
+  return out;
+}
+
+/** Dot product of two unit vectors; 0 when the dimensions differ. */
+export function similarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+export type RankedThread = { threadId: string; score: number };
+
+/**
+ * Candidates ordered by similarity to the query, best first. Matches below
+ * `minScore` are dropped, and so are those far behind the best match, which
+ * keeps a vague query from returning the whole inbox.
+ */
+export function rankBySimilarity(
+  query: ArrayLike<number>,
+  candidates: Array<{ threadId: string; vector: ArrayLike<number> }>,
+  opts: { minScore?: number; maxGap?: number; limit?: number } = {}
+): RankedThread[] {
+  const minScore = opts.minScore ?? 0.2;
+  const maxGap = opts.maxGap ?? 0.25;
+  const ranked = candidates
+    .map((c) => ({ threadId: c.threadId, score: similarity(query, c.vector) }))
+    .filter((r) => r.score >= minScore)
+    .sort((a, b) => b.score - a.score);
+  const best = ranked[0]?.score ?? 0;
+  return ranked.filter((r) => best - r.score <= maxGap).slice(0, opts.limit ?? 50);
+}
+
+async function postJson(target: EmbeddingTarget, url: string, body: unknown): Promise<unknown> {
+  const doFetch = target.fetchImpl || fetch;
+  const res = await doFetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+  const text = await res.text().catch(() => '');
+  let data: unknown = text;
+  try { data = text ? JSON.parse(text) : {}; } catch { /* plain text error */ }
+  if (!res.ok) {
+    const detail = (data as { error?: { message?: string } | string } | undefined)?.error;
+    const message = typeof detail === 'string' ? detail : detail?.message;
+    throw new AIProviderError({
+      provider: target.provider,
+      message: message ? `Embeddings error ${res.status}: ${message}` : `Embeddings error ${res.status}`,
+      status: res.status,
+      headers: { 'retry-after': res.headers.get('retry-after') },
+      body: data
+    });
+  }
+  return data;
+}
+
+/**
+ * Embeds `texts` in one request; vectors are normalized and in input order.
+ * Text leaving the device is redacted like every other cloud AI call; a local
+ * server gets it as is.
+ */
+export async function embedTexts(target: EmbeddingTarget, input: string[], task: EmbeddingTask = 'document'): Promise<EmbeddingBatch> {
+  if (!input.length) return { vectors: [], usage: { inputTokens: 0, outputTokens: 0 }, estimated: false };
+  const texts = target.provider === 'local' ? input : input.map((t) => redactPII(t));
+  let raw: number[][];
+  let usage: TokenUsage | null = null;
+  if (target.provider === 'gemini') {
+    const model = target.model.startsWith('models/') ? target.model : `models/${target.model}`;
+    const data = (await postJson(
+      target,
+      `https://generativelanguage.googleapis.com/v1beta/${model}:batchEmbedContents?key=${encodeURIComponent(target.apiKey || '')}`,
+      {
+        requests: texts.map((text) => ({
+          model,
+          content: { parts: [{ text }] },
+          taskType: task === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT'
+        }))
+      }
+    )) as { embeddings?: Array<{ values?: number[] }> };
+    raw = (data.embeddings || []).map((e) => e.values || []);
+    if (raw.length !== texts.length || raw.some((v) => !v.length)) {
+      throw new AIProviderError({ provider: 'gemini', message: `Embeddings response had ${raw.length} of ${texts.length} vectors`, status: 0, body: data });
+    }
+  } else if (target.provider === 'local') {
+    const out = await createEmbeddings({ baseUrl: target.baseUrl || '', apiKey: target.apiKey, fetchImpl: target.fetchImpl }, { model: target.model, input: texts });
+    raw = out.vectors;
+    usage = out.usage || null;
+  } else if (target.provider === 'openai') {
+    const data = (await postJson(target, '/api/openai', { model: target.model, input: texts, apiKey: target.apiKey || undefined })) as Parameters<typeof embeddingsFromResponse>[0];
+    raw = embeddingsFromResponse(data, texts.length, 'openai');
+    usage = usageFromResponse(data);
+  } else {
+    throw new AIProviderError({ provider: target.provider, message: 'Anthropic has no embeddings API', status: 0 });
+  }
+  // Embedding responses rarely report tokens (Gemini never does)
+  const estimated = !usage;
+  return {
+    vectors: raw.map(normalizeVector),
+    usage: usage || { inputTokens: texts.reduce((acc, t) => acc + estimateTokens(t), 0), outputTokens: 0 },
+    estimated
+  };
+}
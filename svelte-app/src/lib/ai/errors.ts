@@ -0,0 +1,31 @@
+export type AIProviderName = 'openai' | 'anthropic' | 'gemini' | 'local';
+
+export class AIProviderError extends Error {
+  provider: AIProviderName | 'unknown';
+  status: number;
+  headers?: Record<string, string | null>;
+  body?: unknown;
+  requestId?: string | null;
+  retryAfterSeconds?: number | null;
+  durationMs?: number;
+  constructor(opts: {
+    provider: AIProviderName | 'unknown';
+    message: string;
+    status: number;
+    headers?: Record<string, string | null>;
+    body?: unknown;
+    durationMs?: number;
+  }) {
+    super(opts.message);
+    this.name = 'AIProviderError';
+    this.provider = opts.provider;
+    this.status = opts.status;
+    this.headers = opts.headers;
+    this.body = opts.body;
+    this.requestId = (opts.headers && (opts.headers['x-request-id'] || null)) || null;
+    const ra = opts.headers && opts.headers['retry-after'];
+    const n = typeof ra === 'string' ? Number(ra) : null;
+    this.retryAfterSeconds = Number.isFinite(n as number) ? (n as number) : null;
+    this.durationMs = opts.durationMs;
+  }
+}
@@ -0,0 +1,52 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDB } from '$lib/db/indexeddb';
+import { AIProviderError } from './errors';
+import { getContextCache } from './gemini-batch-jobs';
+
+const cache = vi.hoisted(() => ({ replies: [] as Array<() => unknown>, calls: 0 }));
+vi.mock('./gemini-batch', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./gemini-batch')>()),
+  createCachedContent: async () => {
+    cache.calls += 1;
+    return cache.replies.shift()?.();
+  }
+}));
+
+const log = () => {};
+
+describe('getContextCache', () => {
+  beforeEach(async () => {
+    cache.replies.length = 0;
+    cache.calls = 0;
+    await (await getDB()).delete('settings', 'geminiContextCache');
+  });
+
+  it('remembers a too-small prompt without asking again', async () => {
+    cache.replies.push(() => {
+      throw new AIProviderError({ provider: 'gemini', message: 'Gemini error 400: Cached content is too small. min_total_token_count=1024', status: 400 });
+    });
+    expect(await getContextCache('k', 'gemini-2.5-flash', 'S', log)).toBeUndefined();
+    expect(await getContextCache('k', 'gemini-2.5-flash', 'S', log)).toBeUndefined();
+    expect(cache.calls).toBe(1);
+  });
+
+  it('retries other refusals after an hour', async () => {
+    cache.replies.push(() => {
+      throw new AIProviderError({ provider: 'gemini', message: 'Gemini error 503', status: 503 });
+    });
+    cache.replies.push(() => ({ name: 'cachedContents/abc', expiresAt: Date.now() + 6 * 60 * 60 * 1000 }));
+    expect(await getContextCache('k', 'gemini-2.5-flash', 'S', log)).toBeUndefined();
+
+    const stored = (await (await getDB()).get('settings', 'geminiContextCache')) as Record<string, { expiresAt: number }>;
+    expect(Object.values(stored)[0].expiresAt - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000);
+
+    vi.useFakeTimers({ now: Date.now() + 61 * 60 * 1000, toFake: ['Date'] });
+    try {
+      expect(await getContextCache('k', 'gemini-2.5-flash', 'S', log)).toBe('cachedContents/abc');
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(cache.calls).toBe(2);
+  });
+});
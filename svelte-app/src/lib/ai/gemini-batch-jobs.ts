@@ -0,0 +1,189 @@
+import { get } from 'svelte/store';
+import { getDB } from '$lib/db/indexeddb';
+import { threads } from '$lib/stores/threads';
+import type { GeminiBatchJobRecord, GmailThread } from '$lib/types';
+import { simpleHash } from './providers';
+import { createCachedContent, getBatchJob, isCacheTooSmallError, submitBatchJob, type GeminiBatchItem, type GeminiBatchStatus } from './gemini-batch';
+import { recordAIUsage } from './usage-ledger';
+
+/** Precompute's log sink; passed in so batch activity shows up in the precompute log. */
+export type BatchLog = (level: 'debug' | 'warn' | 'error', ...args: unknown[]) => void;
+
+type ContextCacheEntry = { name?: string; expiresAt: number; unavailable?: string };
+
+const CONTEXT_CACHE_KEY = 'geminiContextCache';
+const CONTEXT_CACHE_TTL_SECONDS = 6 * 60 * 60;
+// A prompt below the model's minimum cache size stays too small until it changes (the key hashes it)
+const CONTEXT_CACHE_TOO_SMALL_MS = 30 * 24 * 60 * 60 * 1000;
+// Any other refusal (quota, outage) is retried an hour later
+const CONTEXT_CACHE_RETRY_MS = 60 * 60 * 1000;
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+// The Batch API expires jobs after 48h; anything older is given up locally as well
+const JOB_MAX_AGE_MS = 48 * 60 * 60 * 1000;
+
+async function loadContextCaches(): Promise<Record<string, ContextCacheEntry>> {
+  const db = await getDB();
+  return ((await db.get('settings', CONTEXT_CACHE_KEY)) as Record<string, ContextCacheEntry> | undefined) || {};
+}
+
+/**
+ * Cached-content handle for a stable system prompt, created on first use and
+ * reused until shortly before it expires. Returns undefined (and logs why)
+ * when the API refuses to cache; callers then send the prompt inline.
+ */
+export async function getContextCache(apiKey: string, model: string, systemInstruction: string, log: BatchLog): Promise<string | undefined> {
+  const key = `${model}|${simpleHash(systemInstruction)}`;
+  const now = Date.now();
+  const caches = await loadContextCaches();
+  const entry = caches[key];
+  if (entry?.name && entry.expiresAt > now + 5 * 60 * 1000) {
+    log('debug', '[Precompute] Reusing context cache', entry.name);
+    return entry.name;
+  }
+  if (entry?.unavailable && entry.expiresAt > now) {
+    log('debug', `[Precompute] Context cache unavailable for ${model} (${entry.unavailable}); sending the prompt inline`);
+    return undefined;
+  }
+  let next: ContextCacheEntry;
+  try {
+    const handle = await createCachedContent({ apiKey }, { model, systemInstruction, ttlSeconds: CONTEXT_CACHE_TTL_SECONDS, displayName: 'jmail-precompute' });
+    next = { name: handle.name, expiresAt: handle.expiresAt };
+    log('debug', '[Precompute] Created context cache', handle.name);
+  } catch (e) {
+    if (isCacheTooSmallError(e)) {
+      next = { unavailable: 'prompt below the minimum cache size', expiresAt: now + CONTEXT_CACHE_TOO_SMALL_MS };
+      log('debug', `[Precompute] System prompt too small to cache for ${model}; sending it inline`);
+    } else {
+      const reason = e instanceof Error ? e.message : String(e);
+      next = { unavailable: reason, expiresAt: now + CONTEXT_CACHE_RETRY_MS };
+      log('warn', `[Precompute] Context cache unavailable for ${model} (${reason}); sending the prompt inline`);
+    }
+  }
+  try {
+    const db = await getDB();
+    await db.put('settings', { ...caches, [key]: next }, CONTEXT_CACHE_KEY);
+  } catch {
+    /* best-effort */
+  }
+  return next.name;
+}
+
+/** Submits one Batch API job and persists it; null (logged) when the API refuses the job. */
+export async function submitGeminiBatch(opts: {
+  apiKey: string;
+  model: string;
+  mode: GeminiBatchJobRecord['mode'];
+  items: GeminiBatchItem[];
+  systemInstruction: string;
+  useContextCache: boolean;
+  log: BatchLog;
+}): Promise<GeminiBatchJobRecord | null> {
+  if (!opts.items.length) return null;
+  const cachedContent = opts.useContextCache ? await getContextCache(opts.apiKey, opts.model, opts.systemInstruction, opts.log) : undefined;
+  try {
+    const name = await submitBatchJob({ apiKey: opts.apiKey }, {
+      model: opts.model,
+      items: opts.items,
+      systemInstruction: opts.systemInstruction,
+      cachedContent,
+      displayName: `jmail-${opts.mode}-${Date.now()}`
+    });
+    const job: GeminiBatchJobRecord = {
+      name,
+      mode: opts.mode,
+      model: opts.model,
+      threadIds: opts.items.map((i) => i.id),
+      submittedAt: Date.now(),
+      state: 'pending',
+      cachedContent
+    };
+    const db = await getDB();
+    await db.put('geminiBatchJobs', job);
+    return job;
+  } catch (e) {
+    opts.log('warn', `[Precompute] Batch job for ${opts.items.length} ${opts.mode} items was refused:`, e instanceof Error ? e.message : String(e));
+    return null;
+  }
+}
+
+/** Threads waiting on a submitted job; precompute leaves them alone until it finishes. */
+export async function inFlightBatchThreadIds(): Promise<Set<string>> {
+  try {
+    const db = await getDB();
+    const jobs = await db.getAll('geminiBatchJobs');
+    return new Set(jobs.flatMap((j) => j.threadIds));
+  } catch {
+    return new Set();
+  }
+}
+
+function isUnfilteredInbox(t: GmailThread): boolean {
+  const labels = t.labelIds || [];
+  return labels.includes('INBOX') && !labels.includes('TRASH') && !labels.includes('SPAM');
+}
+
+// Writes job results to the threads; items without text go to 'error' so the direct path retries them
+async function applyBatchResults(job: GeminiBatchJobRecord, results: NonNullable<GeminiBatchStatus['results']>): Promise<number> {
+  const db = await getDB();
+  const now = Date.now();
+  const updated: GmailThread[] = [];
+  for (const threadId of job.threadIds) {
+    const t = await db.get('threads', threadId);
+    if (!t || !isUnfilteredInbox(t)) continue;
+    const text = (results[threadId]?.text || '').trim();
+    let next: GmailThread;
+    if (job.mode === 'summary') {
+      if (t.summaryStatus === 'ready' && t.summary) continue;
+      next = text ? { ...t, summary: text, summaryStatus: 'ready', summaryUpdatedAt: now } : { ...t, summaryStatus: 'error' };
+    } else {
+      if (t.aiSubjectStatus === 'ready' && t.aiSubject) continue;
+      const subject = text.split('\n')[0].trim();
+      next = subject ? { ...t, aiSubject: subject, aiSubjectStatus: 'ready', aiSubjectUpdatedAt: now } : { ...t, aiSubjectStatus: 'error' };
+    }
+    await db.put('threads', next);
+    updated.push(next);
+  }
+  if (updated.length) {
+    const byId = new Map(updated.map((t) => [t.threadId, t]));
+    threads.set(get(threads).map((t) => (byId.has(t.threadId) ? { ...t, ...byId.get(t.threadId) } : t)));
+  }
+  return updated.filter((t) => (job.mode === 'summary' ? t.summaryStatus : t.aiSubjectStatus) === 'ready').length;
+}
+
+/**
+ * Checks submitted jobs (at most every few minutes each) and applies the ones
+ * that finished. Jobs survive restarts in IndexedDB, so results submitted by
+ * a nightly backfill land whenever the app next runs precompute.
+ */
+export async function pollGeminiBatches(apiKey: string, log: BatchLog): Promise<number> {
+  const db = await getDB();
+  const jobs = await db.getAll('geminiBatchJobs');
+  let applied = 0;
+  for (const job of jobs) {
+    const now = Date.now();
+    if (job.lastPolledAt && now - job.lastPolledAt < POLL_INTERVAL_MS) continue;
+    let status: GeminiBatchStatus;
+    try {
+      status = await getBatchJob({ apiKey }, job.name, job.threadIds);
+    } catch (e) {
+      log('warn', '[Precompute] Failed to poll batch job', job.name, e instanceof Error ? e.message : String(e));
+      await db.put('geminiBatchJobs', { ...job, lastPolledAt: now });
+      continue;
+    }
+    const stale = now - job.submittedAt > JOB_MAX_AGE_MS;
+    if (status.state === 'succeeded' && status.results) {
+      const count = await applyBatchResults(job, status.results);
+      applied += count;
+      if (status.usage) void recordAIUsage({ feature: job.mode, provider: 'gemini', model: job.model, usage: status.usage, batch: true });
+      log('debug', '[Precompute] Applied batch job', job.name, `${count}/${job.threadIds.length}`, job.mode, 'results');
+      await db.delete('geminiBatchJobs', job.name);
+    } else if (status.state === 'failed' || status.state === 'cancelled' || status.state === 'expired' || stale) {
+      log('warn', `[Precompute] Batch job ${job.name} ended as ${stale ? 'stale' : status.state}${status.error ? `: ${status.error}` : ''}; its threads go back to direct precompute`);
+      await applyBatchResults(job, {});
+      await db.delete('geminiBatchJobs', job.name);
+    } else {
+      await db.put('geminiBatchJobs', { ...job, state: status.state, lastPolledAt: now });
+    }
+  }
+  return applied;
+}
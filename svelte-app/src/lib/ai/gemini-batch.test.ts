@@ -0,0 +1,87 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { buildBatchRequest, createCachedContent, isCacheTooSmallError, parseBatchJob, submitBatchJob } from './gemini-batch';
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+describe('buildBatchRequest', () => {
+  it('keys each request by item id and references the cache instead of the prompt', () => {
+    const items = [{ id: 't1', text: 'First' }, { id: 't2', text: 'Second' }];
+    const inline = buildBatchRequest(items, { systemInstruction: 'Summarize', displayName: 'job' });
+    const requests = inline.batch.input_config.requests.requests;
+    expect(inline.batch.display_name).toBe('job');
+    expect(requests.map((r) => r.metadata.key)).toEqual(['t1', 't2']);
+    expect(requests[0].request).toMatchObject({ systemInstruction: { parts: [{ text: 'Summarize' }] }, contents: [{ role: 'user', parts: [{ text: 'First' }] }] });
+
+    const cached = buildBatchRequest(items, { systemInstruction: 'Summarize', cachedContent: 'cachedContents/abc' });
+    const first = cached.batch.input_config.requests.requests[0].request as Record<string, unknown>;
+    expect(first.cachedContent).toBe('cachedContents/abc');
+    expect(first.systemInstruction).toBeUndefined();
+  });
+});
+
+describe('parseBatchJob', () => {
+  it('maps states and leaves results out until the job succeeded', () => {
+    expect(parseBatchJob({ metadata: { state: 'BATCH_STATE_RUNNING' } }, []).state).toBe('running');
+    expect(parseBatchJob({ metadata: { state: 'JOB_STATE_PENDING' } }, []).state).toBe('pending');
+    expect(parseBatchJob({ done: true, metadata: { state: 'BATCH_STATE_EXPIRED' } }, [])).toEqual({ state: 'expired', error: undefined });
+    expect(parseBatchJob({ done: true, error: { message: 'quota' } }, [])).toEqual({ state: 'failed', error: 'quota' });
+  });
+
+  it('reads inlined responses by key, falling back to request order, and sums usage', () => {
+    const reply = (text: string, prompt: number) => ({
+      candidates: [{ content: { parts: [{ text }] } }],
+      usageMetadata: { promptTokenCount: prompt, candidatesTokenCount: 5 }
+    });
+    const status = parseBatchJob(
+      {
+        done: true,
+        metadata: { state: 'BATCH_STATE_SUCCEEDED' },
+        response: {
+          inlinedResponses: {
+            inlinedResponses: [
+              { response: reply('Second summary', 20), metadata: { key: 't2' } },
+              { response: reply(' First summary ', 10), metadata: { key: 't1' } },
+              { error: { message: 'blocked' }, metadata: { key: 't3' } }
+            ]
+          }
+        }
+      },
+      ['t1', 't2', 't3']
+    );
+    expect(status.state).toBe('succeeded');
+    expect(status.results).toEqual({ t1: { text: 'First summary' }, t2: { text: 'Second summary' }, t3: { error: 'blocked' } });
+    expect(status.usage).toEqual({ inputTokens: 30, outputTokens: 10 });
+
+    const unkeyed = parseBatchJob({ done: true, response: { inlinedResponses: [{ response: reply('A', 1) }, { response: reply('B', 1) }] } }, ['t1', 't2']);
+    expect(unkeyed.results).toEqual({ t1: { text: 'A' }, t2: { text: 'B' } });
+  });
+});
+
+describe('API calls', () => {
+  it('creates a cache, submits a job and reports a too-small cache', async () => {
+    const seen: string[] = [];
+    const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = String(input);
+      seen.push(`${init?.method} ${url.replace(/\?key=.*$/, '')}`);
+      if (url.includes('/cachedContents')) {
+        const body = JSON.parse(String(init?.body));
+        if (body.model === 'models/tiny') return json(400, { error: { message: 'Cached content is too small. total_token_count=120, min_total_token_count=1024' } });
+        return json(200, { name: 'cachedContents/abc', expireTime: '2025-03-15T16:00:00Z' });
+      }
+      return json(200, { name: 'batches/123' });
+    }) as typeof fetch;
+
+    const handle = await createCachedContent({ apiKey: 'k', fetchImpl }, { model: 'gemini-2.5-flash', systemInstruction: 'S', ttlSeconds: 60 });
+    expect(handle).toEqual({ name: 'cachedContents/abc', expiresAt: Date.parse('2025-03-15T16:00:00Z') });
+    const name = await submitBatchJob({ apiKey: 'k', fetchImpl }, { model: 'models/gemini-2.5-flash', items: [{ id: 't1', text: 'x' }], systemInstruction: 'S' });
+    expect(name).toBe('batches/123');
+    expect(seen).toEqual([
+      'POST https://generativelanguage.googleapis.com/v1beta/cachedContents',
+      'POST https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:batchGenerateContent'
+    ]);
+
+    const refused = await createCachedContent({ apiKey: 'k', fetchImpl }, { model: 'tiny', systemInstruction: 'S', ttlSeconds: 60 }).catch((e) => e);
+    expect(isCacheTooSmallError(refused)).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+import { AIProviderError } from './errors';
+import { usageFromResponse, type TokenUsage } from './usage';
+
+/**
+ * Client for the Gemini Batch API (`models/*:batchGenerateContent`) and
+ * Context Caching (`cachedContents`). Batch jobs run asynchronously at half
+ * the price and usually finish within hours; callers persist the job name and
+ * poll it later.
+ */
+export type GeminiBatchConfig = {
+  apiKey: string;
+  fetchImpl?: typeof fetch;
+};
+
+export type GeminiBatchItem = { id: string; text: string };
+
+export type GeminiBatchState = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'expired';
+
+export type GeminiBatchStatus = {
+  state: GeminiBatchState;
+  /** Reply text (or error) per item id; only set once the job succeeded */
+  results?: Record<string, { text?: string; error?: string }>;
+  usage?: TokenUsage;
+  error?: string;
+};
+
+export type CachedContentHandle = { name: string; expiresAt: number };
+
+const BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+async function send(config: GeminiBatchConfig, path: string, init: RequestInit): Promise<unknown> {
+  const doFetch = config.fetchImpl || fetch;
+  const sep = path.includes('?') ? '&' : '?';
+  const res = await doFetch(`${BASE}/${path}${sep}key=${encodeURIComponent(config.apiKey)}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' }
+  });
+  const text = await res.text().catch(() => '');
+  let body: unknown = text;
+  try { body = text ? JSON.parse(text) : {}; } catch { /* plain text error */ }
+  if (!res.ok) {
+    const detail = (body as { error?: { message?: string } } | undefined)?.error?.message;
+    throw new AIProviderError({
+      provider: 'gemini',
+      message: detail ? `Gemini error ${res.status}: ${detail}` : `Gemini error ${res.status}`,
+      status: res.status,
+      headers: { 'retry-after': res.headers.get('retry-after') },
+      body
+    });
+  }
+  return body;
+}
+
+function modelPath(model: string): string {
+  return model.startsWith('models/') ? model : `models/${model}`;
+}
+
+/** True when the API refused a cache because the content is below the model's minimum size. */
+export function isCacheTooSmallError(e: unknown): boolean {
+  return e instanceof AIProviderError && e.status === 400 && /too small|min(imum)?[_ ]?(total )?token/i.test(e.message);
+}
+
+/** Caches `systemInstruction` for `ttlSeconds`; requests then reference the handle instead of resending it. */
+export async function createCachedContent(
+  config: GeminiBatchConfig,
+  opts: { model: string; systemInstruction: string; ttlSeconds: number; displayName?: string; now?: number }
+): Promise<CachedContentHandle> {
+  const body = (await send(config, 'cachedContents', {
+    method: 'POST',
+    body: JSON.stringify({
+      model: modelPath(opts.model),
+      displayName: opts.displayName,
+      systemInstruction: { parts: [{ text: opts.systemInstruction }] },
+      ttl: `${opts.ttlSeconds}s`
+    })
+  })) as { name?: string; expireTime?: string };
+  if (!body.name) throw new AIProviderError({ provider: 'gemini', message: 'Gemini returned no cached content name', status: 0, body });
+  const expires = body.expireTime ? Date.parse(body.expireTime) : NaN;
+  return { name: body.name, expiresAt: Number.isFinite(expires) ? expires : (opts.now ?? Date.now()) + opts.ttlSeconds * 1000 };
+}
+
+/**
+ * Request body for one batch job: one inline request per item, keyed by item
+ * id. With a cached-content handle the instruction is not repeated per request.
+ */
+export function buildBatchRequest(items: GeminiBatchItem[], opts: { systemInstruction: string; cachedContent?: string; displayName?: string }) {
+  return {
+    batch: {
+      display_name: opts.displayName || `jmail-${Date.now()}`,
+      input_config: {
+        requests: {
+          requests: items.map((item) => ({
+            request: {
+              contents: [{ role: 'user', parts: [{ text: item.text }] }],
+              ...(opts.cachedContent
+                ? { cachedContent: opts.cachedContent }
+                : { systemInstruction: { parts: [{ text: opts.systemInstruction }] } }),
+              generationConfig: { temperature: 0.2 }
+            },
+            metadata: { key: item.id }
+          }))
+        }
+      }
+    }
+  };
+}
+
+/** Submits a batch job and returns its name (`batches/…`). */
+export async function submitBatchJob(
+  config: GeminiBatchConfig,
+  opts: { model: string; items: GeminiBatchItem[]; systemInstruction: string; cachedContent?: string; displayName?: string }
+): Promise<string> {
+  const body = (await send(config, `${modelPath(opts.model)}:batchGenerateContent`, {
+    method: 'POST',
+    body: JSON.stringify(buildBatchRequest(opts.items, opts))
+  })) as { name?: string };
+  if (!body.name) throw new AIProviderError({ provider: 'gemini', message: 'Gemini returned no batch job name', status: 0, body });
+  return body.name;
+}
+
+function normalizeState(raw: unknown, done: boolean): GeminiBatchState {
+  // REST reports BATCH_STATE_*, the SDKs JOB_STATE_*
+  const state = typeof raw === 'string' ? raw.replace(/^.*_STATE_/, '') : '';
+  if (state === 'SUCCEEDED') return 'succeeded';
+  if (state === 'FAILED') return 'failed';
+  if (state === 'CANCELLED') return 'cancelled';
+  if (state === 'EXPIRED') return 'expired';
+  if (state === 'RUNNING') return 'running';
+  if (state === 'PENDING') return 'pending';
+  return done ? 'succeeded' : 'pending';
+}
+
+type InlinedResponse = { response?: unknown; error?: { message?: string }; metadata?: { key?: unknown } };
+
+function responseText(response: unknown): string {
+  const parts = (response as { candidates?: Array<{ content?: { parts?: Array<{ text?: unknown }> } }> })?.candidates?.[0]?.content?.parts || [];
+  return parts.map((p) => (typeof p.text === 'string' ? p.text : '')).join('').trim();
+}
+
+/**
+ * Reads a job from `GET batches/…`. Inline responses come back in request
+ * order; `itemIds` maps them back when the metadata key is missing.
+ */
+export function parseBatchJob(job: unknown, itemIds: string[]): GeminiBatchStatus {
+  const op = (job || {}) as { done?: boolean; metadata?: { state?: unknown; output?: unknown }; error?: { message?: string }; response?: unknown };
+  const state = op.error ? 'failed' : normalizeState(op.metadata?.state, !!op.done);
+  if (state !== 'succeeded') return { state, error: op.error?.message };
+  const output = (op.response || op.metadata?.output || {}) as { inlinedResponses?: InlinedResponse[] | { inlinedResponses?: InlinedResponse[] } };
+  const inlined = Array.isArray(output.inlinedResponses) ? output.inlinedResponses : output.inlinedResponses?.inlinedResponses || [];
+  const results: Record<string, { text?: string; error?: string }> = {};
+  let usage: TokenUsage | undefined;
+  inlined.forEach((entry, i) => {
+    const key = typeof entry.metadata?.key === 'string' ? entry.metadata.key : itemIds[i];
+    if (!key) return;
+    if (entry.error) {
+      results[key] = { error: entry.error.message || 'Request failed' };
+      return;
+    }
+    results[key] = { text: responseText(entry.response) };
+    const u = usageFromResponse(entry.response);
+    if (u) usage = { inputTokens: (usage?.inputTokens || 0) + u.inputTokens, outputTokens: (usage?.outputTokens || 0) + u.outputTokens };
+  });
+  return { state, results, usage };
+}
+
+export async function getBatchJob(config: GeminiBatchConfig, name: string, itemIds: string[]): Promise<GeminiBatchStatus> {
+  return parseBatchJob(await send(config, name, { method: 'GET' }), itemIds);
+}
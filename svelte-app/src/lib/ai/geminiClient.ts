@@ -2,6 +2,7 @@ import { get } from 'svelte/store';
 import { settings } from '$lib/stores/settings';
 import { show } from '$lib/containers/snackbar';
 import { getDB } from '$lib/db/indexeddb';
+import { usageFromResponse, type TokenUsage } from './usage';
 
 type GeminiRequest = {
   id: string;
@@ -12,6 +13,9 @@ type GeminiRequest = {
   priority?: 'interactive' | 'background';
 };
 
+/** `cached` replies come from the response cache and made no API call */
+export type GeminiResponse = { text: string; usage?: TokenUsage; cached?: boolean };
+
 type QueueItem = {
   req: GeminiRequest;
   resolve: (v: any) => void;
@@ -250,7 +254,7 @@ async function sendWithRetries(item: QueueItem) {
       const res = await sendDirect(item);
       const textOut = (res?.candidates?.[0]?.content?.parts?.[0]?.text || (res?.raw && String(res.raw)) || '');
       try { responseCache.set(item.req.prompt || item.req.id, { text: String(textOut), ts: now() }); scheduleCacheFlush(); } catch {}
-      return { text: textOut };
+      return { text: textOut, usage: usageFromResponse(res) || undefined };
     } catch (e: any) {
       const status = e?.status || (e?.message && e.message.indexOf('429') >= 0 ? 429 : undefined);
       const ra = e?.headers && e.headers['retry-after'] ? Number(e.headers['retry-after']) : undefined;
@@ -279,13 +283,13 @@ async function sendWithRetries(item: QueueItem) {
   }
 }
 
-export function enqueueGemini(req: GeminiRequest): Promise<{ text: string }> {
+export function enqueueGemini(req: GeminiRequest): Promise<GeminiResponse> {
   return new Promise((resolve, reject) => {
     // Check cache first
     const cacheKey = req.prompt || (req.parts && req.parts.map((p:any)=>p.text||'').join('\n')) || req.id;
     try {
       const hit = responseCache.get(cacheKey);
-      if (hit && (now() - hit.ts) < CACHE_TTL_MS) { logInfo('Cache hit for', cacheKey); resolve({ text: hit.text }); return; }
+      if (hit && (now() - hit.ts) < CACHE_TTL_MS) { logInfo('Cache hit for', cacheKey); resolve({ text: hit.text, cached: true }); return; }
     } catch {}
 
     const item: QueueItem = { req: { ...req }, resolve, reject, retries: 0, enqueuedAt: now() };
@@ -0,0 +1,56 @@
+import { get } from 'svelte/store';
+import { getDB } from '$lib/db/indexeddb';
+import { settings } from '$lib/stores/settings';
+import type { GmailThread } from '$lib/types';
+import { messagePlainText } from '$lib/compose/message';
+import { semanticSearch } from './embedding-index';
+import { mergeRankings, rankByKeywords, toChatSource, type ChatSource, type KeywordDoc } from './inbox-chat';
+
+const MAX_SOURCES = 6;
+// Body text kept per thread for keyword matching; enough for dates and names near the top
+const MAX_KEYWORD_CHARS = 4000;
+
+function searchable(t: GmailThread): boolean {
+  const labels = t.labelIds || [];
+  return !labels.includes('TRASH') && !labels.includes('SPAM');
+}
+
+/**
+ * Cached threads most relevant to `question`: keyword matches over subjects,
+ * summaries and bodies, fused with embedding matches when semantic search is
+ * on. Nothing leaves the device here; only the returned sources are sent.
+ */
+export async function findChatSources(question: string): Promise<ChatSource[]> {
+  const db = await getDB();
+  const threads = (await db.getAll('threads')).filter(searchable);
+  const byId = new Map(threads.map((t) => [t.threadId, t]));
+
+  // Walk messages with a cursor so full bodies are never all in memory at once
+  const bodies = new Map<string, string>();
+  let cursor = await db.transaction('messages').store.openCursor();
+  while (cursor) {
+    const m = cursor.value;
+    if (byId.has(m.threadId)) {
+      const sofar = bodies.get(m.threadId) || '';
+      if (sofar.length < MAX_KEYWORD_CHARS) bodies.set(m.threadId, `${sofar}\n${messagePlainText(m)}`.slice(0, MAX_KEYWORD_CHARS));
+    }
+    cursor = await cursor.continue();
+  }
+  const docs: KeywordDoc[] = threads.map((t) => ({
+    threadId: t.threadId,
+    subject: `${t.lastMsgMeta?.subject || ''} ${t.aiSubject || ''} ${t.lastMsgMeta?.from || ''}`,
+    body: `${t.summary || ''}\n${bodies.get(t.threadId) || ''}`
+  }));
+  const rankings = [rankByKeywords(question, docs, MAX_SOURCES * 2)];
+
+  if (get(settings).semanticSearch) {
+    try {
+      rankings.push(await semanticSearch(question, threads, { limit: MAX_SOURCES * 2 }));
+    } catch (e) {
+      console.warn('[InboxChat] Semantic retrieval failed; using keywords only', e);
+    }
+  }
+
+  const picked = mergeRankings(rankings, MAX_SOURCES).flatMap((id) => byId.get(id) || []);
+  return await Promise.all(picked.map(async (t) => toChatSource(t, await db.getAllFromIndex('messages', 'by_threadId', t.threadId))));
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildInboxChatPrompt, mergeRankings, parseCitations, queryTerms, rankByKeywords, toChatSource, type ChatSource } from './inbox-chat';
+import type { GmailThread } from '$lib/types';
+
+const docs = [
+  { threadId: 'service', subject: 'Mustang service appointment confirmed', body: 'Your appointment is Tuesday at 9:00.' },
+  { threadId: 'camp', subject: 'Summer camp', body: 'Coach says camp dates are July 8-12.' },
+  { threadId: 'newsletter', subject: 'Weekly deals', body: 'Service plans on sale, book an appointment today.' }
+];
+
+describe('keyword retrieval', () => {
+  it('drops stopwords and plural endings', () => {
+    expect(queryTerms('When is the Mustang service appointment?')).toEqual(['mustang', 'service', 'appointment']);
+    expect(queryTerms('What did the coach say about the camp dates?')).toEqual(['coach', 'camp', 'date']);
+  });
+
+  it('prefers rare terms and subject hits', () => {
+    expect(rankByKeywords('When is the Mustang service appointment?', docs).map((r) => r.threadId)).toEqual(['service', 'newsletter']);
+    expect(rankByKeywords('what did the coach say about camp dates', docs)[0].threadId).toBe('camp');
+    expect(rankByKeywords('the and of', docs)).toEqual([]);
+  });
+
+  it('fuses keyword and embedding rankings', () => {
+    const merged = mergeRankings([[{ threadId: 'a' }, { threadId: 'b' }], [{ threadId: 'b' }, { threadId: 'c' }]], 2);
+    expect(merged).toEqual(['b', 'a']);
+  });
+});
+
+describe('prompt and citations', () => {
+  const thread: GmailThread = {
+    threadId: 't1',
+    messageIds: ['m1'],
+    labelIds: ['INBOX'],
+    lastMsgMeta: { subject: 'Camp', from: 'Coach <coach@example.com>', date: Date.UTC(2025, 5, 1) },
+    summary: '- Camp July 8-12'
+  };
+  const source = toChatSource(thread, [
+    { id: 'm1', threadId: 't1', labelIds: [], bodyText: 'See you at camp.\n\nOn Mon, Jun 1, Me wrote:\n> earlier question' }
+  ]);
+
+  it('numbers the sources and strips quoted history', () => {
+    expect(source.text).toBe('Summary: - Camp July 8-12\nSee you at camp.');
+    const prompt = buildInboxChatPrompt({
+      question: 'And the times?',
+      sources: [source],
+      history: [{ role: 'user', text: 'When is camp?' }, { role: 'assistant', text: 'July 8-12 [1].' }],
+      today: new Date(Date.UTC(2025, 5, 10))
+    });
+    expect(prompt).toContain('Today is 2025-06-10.');
+    expect(prompt).toContain('[1] Camp (from Coach <coach@example.com>, 2025-06-01)\nSummary: - Camp July 8-12');
+    expect(prompt).toContain('Assistant: July 8-12.');
+    expect(prompt.endsWith('Question: And the times?')).toBe(true);
+  });
+
+  it('turns known citations into thread links', () => {
+    const sources: ChatSource[] = [source, { ...source, threadId: 't2' }];
+    expect(parseCitations('Camp runs July 8-12 [1][2], not [3].', sources)).toEqual([
+      { text: 'Camp runs July 8-12 ' },
+      { text: '[1]', threadId: 't1' },
+      { text: '[2]', threadId: 't2' },
+      { text: ', not [3].' }
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { GmailMessage, GmailThread } from '$lib/types';
+import { messagePlainText } from '../compose/message';
+import { getInboxChatPrompt } from './prompts';
+import { stripQuotedReply } from './reply-prompt';
+
+/** A cached thread handed to the model as numbered context; answers cite it as `[n]`. */
+export type ChatSource = {
+  threadId: string;
+  subject: string;
+  from: string;
+  date?: number;
+  text: string;
+};
+
+export type ChatTurn = { role: 'user' | 'assistant'; text: string };
+
+const MAX_SOURCE_CHARS = 2500;
+const MAX_MESSAGES_PER_SOURCE = 4;
+const MAX_HISTORY_TURNS = 6;
+
+const STOPWORDS = new Set(
+  'a an and are about as at be by can did do does for from had has have how i in is it me my of on or said say the their them there this to was we were what when where which who why will with you your'.split(' ')
+);
+
+/** Lowercase terms of a question without a plural 's'; stopwords and one-letter tokens are dropped. */
+export function queryTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  // Terms are matched as substrings, so 'date' still finds 'dates' and 'dated'
+  const terms = words.filter((w) => w.length > 1 && !STOPWORDS.has(w)).map((w) => (w.length > 3 ? w.replace(/([^s])s$/, '$1') : w));
+  return [...new Set(terms)];
+}
+
+export type KeywordDoc = { threadId: string; subject: string; body: string };
+
+/**
+ * Keyword relevance, best first. Rare terms count more than common ones (a
+ * simple IDF), and a hit in the subject counts three times a hit in the body.
+ */
+export function rankByKeywords(question: string, docs: KeywordDoc[], limit = 8): Array<{ threadId: string; score: number }> {
+  const terms = queryTerms(question);
+  if (!terms.length || !docs.length) return [];
+  const lowered = docs.map((d) => ({ threadId: d.threadId, subject: d.subject.toLowerCase(), body: d.body.toLowerCase() }));
+  const idf = new Map(terms.map((t) => {
+    const df = lowered.filter((d) => d.subject.includes(t) || d.body.includes(t)).length;
+    return [t, Math.log(1 + docs.length / (1 + df))];
+  }));
+  return lowered
+    .map((d) => {
+      let score = 0;
+      for (const t of terms) {
+        if (d.subject.includes(t)) score += 3 * (idf.get(t) || 0);
+        else if (d.body.includes(t)) score += idf.get(t) || 0;
+      }
+      return { threadId: d.threadId, score };
+    })
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/** Reciprocal rank fusion of keyword and embedding results, so either can surface a thread. */
+export function mergeRankings(lists: Array<Array<{ threadId: string }>>, limit: number): string[] {
+  const scores = new Map<string, number>();
+  for (const list of lists) {
+    list.forEach((r, i) => scores.set(r.threadId, (scores.get(r.threadId) || 0) + 1 / (60 + i)));
+  }
+  return [...scores.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit).map(([id]) => id);
+}
+
+/** A thread as context: AI summary first, then its newest messages without quoted history. */
+export function toChatSource(thread: GmailThread, messages: GmailMessage[]): ChatSource {
+  const bodies = [...messages]
+    .sort((a, b) => (b.internalDate || 0) - (a.internalDate || 0))
+    .slice(0, MAX_MESSAGES_PER_SOURCE)
+    .map((m) => stripQuotedReply(messagePlainText(m)).replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  const text = [thread.summary ? `Summary: ${thread.summary}` : '', ...bodies].filter(Boolean).join('\n').slice(0, MAX_SOURCE_CHARS);
+  return {
+    threadId: thread.threadId,
+    subject: thread.lastMsgMeta?.subject || '(no subject)',
+    from: thread.lastMsgMeta?.from || '',
+    date: thread.lastMsgMeta?.date,
+    text
+  };
+}
+
+/** Instructions, numbered sources, the recent conversation and the new question. */
+export function buildInboxChatPrompt(input: { question: string; sources: ChatSource[]; history: ChatTurn[]; today?: Date }): string {
+  const today = (input.today || new Date()).toISOString().slice(0, 10);
+  const sources = input.sources
+    .map((s, i) => {
+      const when = s.date ? `, ${new Date(s.date).toISOString().slice(0, 10)}` : '';
+      return `[${i + 1}] ${s.subject} (from ${s.from || 'unknown'}${when})\n${s.text}`;
+    })
+    .join('\n\n');
+  const history = input.history
+    .slice(-MAX_HISTORY_TURNS)
+    // Earlier citations point at earlier sources, so they are dropped
+    .map((t) => `${t.role === 'user' ? 'User' : 'Assistant'}: ${t.text.replace(/\s*\[\d+\]/g, '')}`)
+    .join('\n');
+  const parts = [getInboxChatPrompt(), `Today is ${today}.`, `Emails:\n${sources || '(no matching emails found)'}`];
+  if (history) parts.push(`Conversation so far:\n${history}`);
+  parts.push(`Question: ${input.question}`);
+  return parts.join('\n\n');
+}
+
+export type AnswerSegment = { text: string; threadId?: string };
+
+/** Splits an answer into text and `[n]` citations resolved to thread ids; unknown numbers stay text. */
+export function parseCitations(answer: string, sources: ChatSource[]): AnswerSegment[] {
+  const out: AnswerSegment[] = [];
+  let last = 0;
+  for (const m of answer.matchAll(/\[(\d+)\]/g)) {
+    const source = sources[Number(m[1]) - 1];
+    const at = m.index ?? 0;
+    if (!source) continue;
+    if (at > last) out.push({ text: answer.slice(last, at) });
+    out.push({ text: m[0], threadId: source.threadId });
+    last = at + m[0].length;
+  }
+  if (last < answer.length) out.push({ text: answer.slice(last) });
+  return out;
+}
@@ -0,0 +1,73 @@
+import { getDB } from '$lib/db/indexeddb';
+import { aiRunModeration } from '$lib/ai/providers';
+import type { GmailThread } from '$lib/types';
+import type { BacktestRow, ModerationEvalCase } from '$lib/ai/moderation-eval';
+
+const EVAL_KEY_PREFIX = 'moderationEval:';
+
+/** Newest cached threads, skipping trash and spam. */
+export async function getBacktestThreads(limit: number): Promise<GmailThread[]> {
+  const db = await getDB();
+  const all = await db.getAllFromIndex('threads', 'by_lastMsgDate');
+  return all
+    .filter((t) => !(t.labelIds || []).some((l) => l === 'TRASH' || l === 'SPAM'))
+    .reverse()
+    .slice(0, limit);
+}
+
+/** Cached threads of an evaluation set that are still on this device. */
+export async function getEvaluationThreads(cases: ModerationEvalCase[]): Promise<GmailThread[]> {
+  const db = await getDB();
+  const out: GmailThread[] = [];
+  for (const c of cases) {
+    const t = await db.get('threads', c.threadId);
+    if (t) out.push(t);
+  }
+  return out;
+}
+
+/**
+ * Runs a moderation prompt over cached threads and returns its verdicts. This is
+ * a dry run: nothing is labeled, queued or written to `autoModeration`. Content
+ * comes from IndexedDB only (summary, else the last cached message).
+ */
+export async function backtestModerationPrompt(
+  prompt: string,
+  threads: GmailThread[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<BacktestRow[]> {
+  const db = await getDB();
+  const rows: BacktestRow[] = [];
+  for (const t of threads) {
+    if (signal?.aborted) break;
+    const subject = t.lastMsgMeta?.subject || '';
+    const from = t.lastMsgMeta?.from;
+    try {
+      const messages = await db.getAllFromIndex('messages', 'by_threadId', t.threadId);
+      const last = messages.find((m) => m.id === t.messageIds[t.messageIds.length - 1]) || messages[messages.length - 1];
+      const content = t.summary || last?.bodyText || last?.snippet;
+      const result = await aiRunModeration(prompt, subject, content, content ? undefined : last?.bodyHtml, from);
+      rows.push({ threadId: t.threadId, subject, from, verdict: result.verdict, raw: result.raw });
+    } catch (e) {
+      rows.push({ threadId: t.threadId, subject, from, verdict: 'unknown', error: e instanceof Error ? e.message : String(e) });
+    }
+    onProgress?.(rows.length, threads.length);
+  }
+  return rows;
+}
+
+export async function getEvaluationSet(ruleId: string): Promise<ModerationEvalCase[]> {
+  const db = await getDB();
+  return ((await db.get('settings', EVAL_KEY_PREFIX + ruleId)) as ModerationEvalCase[] | undefined) || [];
+}
+
+export async function saveEvaluationSet(ruleId: string, cases: ModerationEvalCase[]): Promise<void> {
+  const db = await getDB();
+  await db.put('settings', cases, EVAL_KEY_PREFIX + ruleId);
+}
+
+export async function deleteEvaluationSet(ruleId: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('settings', EVAL_KEY_PREFIX + ruleId);
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { mergeEvaluationSet, oppositeOf, scoreBacktest, type BacktestRow } from './moderation-eval';
+
+const row = (threadId: string, verdict: BacktestRow['verdict'], expected?: BacktestRow['expected']): BacktestRow => ({ threadId, subject: threadId, verdict, expected });
+
+describe('scoreBacktest', () => {
+  it('treats unreviewed decisive verdicts as correct', () => {
+    const score = scoreBacktest([row('a', 'match'), row('b', 'not_match'), row('c', 'unknown')]);
+    expect(score).toMatchObject({ truePositives: 1, trueNegatives: 1, unscored: 1, precision: 1, recall: 1 });
+  });
+
+  it('scores corrections as false positives and false negatives', () => {
+    const score = scoreBacktest([
+      row('a', 'match'),
+      row('b', 'match', oppositeOf('match')),
+      row('c', 'not_match', oppositeOf('not_match')),
+      row('d', 'unknown', 'match')
+    ]);
+    expect(score).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 2, trueNegatives: 0, unscored: 0 });
+    expect(score.precision).toBe(0.5);
+    expect(score.recall).toBeCloseTo(1 / 3);
+  });
+
+  it('reports null ratios when nothing is positive', () => {
+    expect(scoreBacktest([row('a', 'not_match')])).toMatchObject({ precision: null, recall: null });
+  });
+});
+
+describe('mergeEvaluationSet', () => {
+  it('keeps scored rows and replaces older reviews of the same thread', () => {
+    const first = mergeEvaluationSet([], [row('a', 'match'), row('b', 'unknown')], { hash: 'h2', version: 2 }, 100);
+    expect(first).toEqual([{ threadId: 'a', subject: 'a', expected: 'match', promptVersion: 2, promptHash: 'h2', labeledAt: 100 }]);
+    // An unsaved edit has no version yet; its hash says which prompt was reviewed
+    const second = mergeEvaluationSet(first, [row('a', 'match', 'not_match'), row('c', 'not_match')], { hash: 'edit' }, 200);
+    expect(second.map((c) => [c.threadId, c.expected, c.promptVersion, c.promptHash])).toEqual([
+      ['a', 'not_match', undefined, 'edit'],
+      ['c', 'not_match', undefined, 'edit']
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+export type ModerationVerdict = 'match' | 'not_match' | 'unknown';
+
+/** One thread of a backtest: what the prompt said and, once reviewed, what it should have said. */
+export type BacktestRow = {
+  threadId: string;
+  subject: string;
+  from?: string;
+  verdict: ModerationVerdict;
+  raw?: string;
+  error?: string;
+  /** Correct answer when the user marked the verdict wrong or it comes from the evaluation set */
+  expected?: 'match' | 'not_match';
+};
+
+/** A reviewed thread kept per rule so the next prompt version can be scored against it. */
+export type ModerationEvalCase = {
+  threadId: string;
+  subject: string;
+  expected: 'match' | 'not_match';
+  /** Rule version whose verdict was reviewed; unset when the tested prompt was an unsaved edit */
+  promptVersion?: number;
+  /** simpleHash of the prompt that was tested */
+  promptHash?: string;
+  labeledAt: number;
+};
+
+/** The prompt a backtest ran with: its hash, and its rule version when it is the saved prompt. */
+export type TestedPrompt = { hash: string; version?: number };
+
+export type BacktestScore = {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  /** Rows without a usable truth: UNKNOWN or failed verdicts nobody corrected */
+  unscored: number;
+  /** null while nothing was predicted (or expected) as a match */
+  precision: number | null;
+  recall: number | null;
+};
+
+/** The answer a row is scored against: the correction, else the verdict itself if decisive. */
+export function truthOf(row: Pick<BacktestRow, 'verdict' | 'expected' | 'error'>): 'match' | 'not_match' | null {
+  if (row.expected) return row.expected;
+  if (row.error || row.verdict === 'unknown') return null;
+  return row.verdict;
+}
+
+/** Flips a decisive verdict, which is what marking a row wrong means. */
+export function oppositeOf(verdict: ModerationVerdict): 'match' | 'not_match' | undefined {
+  if (verdict === 'match') return 'not_match';
+  if (verdict === 'not_match') return 'match';
+  return undefined;
+}
+
+/** Precision and recall of MATCH verdicts; UNKNOWN counts as a miss when the truth is MATCH. */
+export function scoreBacktest(rows: Pick<BacktestRow, 'verdict' | 'expected' | 'error'>[]): BacktestScore {
+  const score: BacktestScore = { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0, unscored: 0, precision: null, recall: null };
+  for (const row of rows) {
+    const truth = truthOf(row);
+    if (!truth) {
+      score.unscored++;
+      continue;
+    }
+    const predicted = !row.error && row.verdict === 'match';
+    if (predicted && truth === 'match') score.truePositives++;
+    else if (predicted) score.falsePositives++;
+    else if (truth === 'match') score.falseNegatives++;
+    else score.trueNegatives++;
+  }
+  const predictedPositive = score.truePositives + score.falsePositives;
+  const actualPositive = score.truePositives + score.falseNegatives;
+  score.precision = predictedPositive ? score.truePositives / predictedPositive : null;
+  score.recall = actualPositive ? score.truePositives / actualPositive : null;
+  return score;
+}
+
+/** Merges reviewed rows into an evaluation set; a newer review of a thread replaces the old one. */
+export function mergeEvaluationSet(existing: ModerationEvalCase[], rows: BacktestRow[], tested: TestedPrompt, now = Date.now()): ModerationEvalCase[] {
+  const byThread = new Map(existing.map((c) => [c.threadId, c]));
+  for (const row of rows) {
+    const expected = truthOf(row);
+    if (!expected) continue;
+    byThread.set(row.threadId, { threadId: row.threadId, subject: row.subject, expected, promptVersion: tested.version, promptHash: tested.hash, labeledAt: now });
+  }
+  return Array.from(byThread.values());
+}
@@ -0,0 +1,95 @@
+import { writable } from 'svelte/store';
+import { v4 as uuidv4 } from 'uuid';
+import { getDB } from '$lib/db/indexeddb';
+import { getCollegeRecruitingModerationPrompt, getReviewsModerationPrompt } from '$lib/ai/prompts';
+import { queueThreadModify } from '$lib/queue/intents';
+import { snoozeThreadByRule } from '$lib/snooze/actions';
+import { deleteEvaluationSet } from '$lib/ai/moderation-backtest';
+import type { ModerationRule } from '$lib/types';
+
+const SEEDED_KEY = 'moderationRulesSeeded';
+
+/**
+ * Rules installed on first use. They keep the ids and versions of the rules that
+ * used to be compiled in, so existing verdicts on threads stay valid.
+ */
+export function defaultModerationRules(now = Date.now()): ModerationRule[] {
+  return [
+    { id: 'college_recruiting_v2', name: 'College recruiting', prompt: getCollegeRecruitingModerationPrompt(), labelName: 'college_recruiting', version: 2, action: 'archive', enabled: true, createdAt: now, updatedAt: now },
+    { id: 'reviews_v2', name: 'Review requests', prompt: getReviewsModerationPrompt(), labelName: 'reviews', version: 2, action: 'archive', enabled: true, createdAt: now + 1, updatedAt: now }
+  ];
+}
+
+/** Rules of the active account, oldest first; updated by load/save/delete. */
+export const moderationRules = writable<ModerationRule[]>([]);
+
+/** Loads the rules from IndexedDB, installing the defaults the first time. */
+export async function loadModerationRules(): Promise<ModerationRule[]> {
+  const db = await getDB();
+  let list = await db.getAll('moderationRules');
+  if (!list.length && !(await db.get('settings', SEEDED_KEY))) {
+    list = defaultModerationRules();
+    const tx = db.transaction(['moderationRules', 'settings'], 'readwrite');
+    for (const r of list) await tx.objectStore('moderationRules').put(r);
+    await tx.objectStore('settings').put(true, SEEDED_KEY);
+    await tx.done;
+  }
+  list.sort((a, b) => a.createdAt - b.createdAt);
+  moderationRules.set(list);
+  return list;
+}
+
+/** Rules precompute evaluates, in order. */
+export async function getEnabledModerationRules(): Promise<ModerationRule[]> {
+  return (await loadModerationRules()).filter((r) => r.enabled);
+}
+
+/**
+ * Creates or updates a rule. Changing the prompt bumps the version so every
+ * thread is evaluated again against the new wording.
+ */
+export async function saveModerationRule(rule: Omit<ModerationRule, 'id' | 'version' | 'createdAt' | 'updatedAt'> & { id?: string }): Promise<ModerationRule> {
+  const db = await getDB();
+  const existing = rule.id ? await db.get('moderationRules', rule.id) : undefined;
+  const prompt = rule.prompt.trim();
+  const next: ModerationRule = {
+    ...rule,
+    id: existing?.id || uuidv4(),
+    name: rule.name.trim(),
+    prompt,
+    labelName: rule.labelName.trim(),
+    snoozeRuleKey: rule.action === 'snooze' ? rule.snoozeRuleKey : undefined,
+    version: existing ? (existing.prompt === prompt ? existing.version : existing.version + 1) : 1,
+    createdAt: existing?.createdAt || Date.now(),
+    updatedAt: Date.now()
+  };
+  await db.put('moderationRules', next);
+  await loadModerationRules();
+  return next;
+}
+
+export async function deleteModerationRule(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('moderationRules', id);
+  await deleteEvaluationSet(id);
+  await loadModerationRules();
+}
+
+/** Applies a matching rule's action to a thread after its label exists in Gmail. */
+export async function applyModerationAction(threadId: string, rule: Pick<ModerationRule, 'action' | 'snoozeRuleKey'>, labelId: string): Promise<void> {
+  switch (rule.action) {
+    case 'label':
+      await queueThreadModify(threadId, [labelId], [], { optimisticLocal: false });
+      break;
+    case 'trash':
+      await queueThreadModify(threadId, [labelId, 'TRASH'], ['INBOX'], { optimisticLocal: false });
+      break;
+    case 'snooze':
+      if (!rule.snoozeRuleKey) throw new Error('Snooze rule has no snooze time');
+      await queueThreadModify(threadId, [labelId], [], { optimisticLocal: false });
+      await snoozeThreadByRule(threadId, rule.snoozeRuleKey, { optimisticLocal: false });
+      break;
+    default:
+      await queueThreadModify(threadId, [labelId], ['INBOX'], { optimisticLocal: false });
+  }
+}
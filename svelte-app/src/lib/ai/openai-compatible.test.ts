@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { chatCompletion, listModels, normalizeBaseUrl } from './openai-compatible';
+import { AIProviderError } from './errors';
+
+const BASE = 'http://127.0.0.1:11434';
+type Seen = { url: string; auth: string | null; body?: Record<string, unknown> };
+
+// Stand-in for an Ollama / llama.cpp server speaking the OpenAI API
+function stubServer() {
+  const seen: Seen[] = [];
+  const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    const headers = (init?.headers || {}) as Record<string, string>;
+    const body = init?.body ? (JSON.parse(String(init.body)) as Record<string, unknown>) : undefined;
+    seen.push({ url, auth: headers.Authorization || null, body });
+    if (url === `${BASE}/v1/models`) return json(200, { object: 'list', data: [{ id: 'llama3.1:8b' }, { id: 'qwen2.5:7b' }] });
+    if (url !== `${BASE}/v1/chat/completions`) return new Response('', { status: 404 });
+    if (body?.model === 'missing') return json(404, { error: { message: 'model "missing" not found, try pulling it first' } });
+    if (body?.stream) {
+      const events = ['Hel', 'lo'].map((piece) => `data: ${JSON.stringify({ choices: [{ delta: { content: piece } }] })}\n\n`).join('') + 'data: [DONE]\n\n';
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(events));
+          controller.close();
+        }
+      });
+      return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    }
+    return json(200, { model: body?.model, choices: [{ message: { role: 'assistant', content: ' MATCH \n' } }] });
+  }) as typeof fetch;
+  return { seen, fetchImpl };
+}
+
+describe('normalizeBaseUrl', () => {
+  it('adds /v1 once and drops trailing slashes', () => {
+    expect(normalizeBaseUrl('http://localhost:11434/')).toBe('http://localhost:11434/v1');
+    expect(normalizeBaseUrl('http://localhost:8000/v1/')).toBe('http://localhost:8000/v1');
+    expect(normalizeBaseUrl('  ')).toBe('');
+  });
+});
+
+describe('OpenAI-compatible client', () => {
+  it('discovers models', async () => {
+    const { fetchImpl } = stubServer();
+    expect(await listModels({ baseUrl: BASE, fetchImpl })).toEqual(['llama3.1:8b', 'qwen2.5:7b']);
+  });
+
+  it('completes a prompt and sends the optional key', async () => {
+    const { seen, fetchImpl } = stubServer();
+    const out = await chatCompletion({ baseUrl: BASE, apiKey: 'secret', fetchImpl }, { model: 'llama3.1:8b', prompt: 'Is this spam?' });
+    expect(out.text).toBe('MATCH');
+    expect(seen[0].auth).toBe('Bearer secret');
+    expect(seen[0].body).toMatchObject({ model: 'llama3.1:8b', stream: false, messages: [{ role: 'user', content: 'Is this spam?' }] });
+  });
+
+  it('streams deltas', async () => {
+    const { fetchImpl } = stubServer();
+    const deltas: string[] = [];
+    const out = await chatCompletion({ baseUrl: BASE, fetchImpl }, { model: 'llama3.1:8b', prompt: 'Hi', onDelta: (d) => deltas.push(d) });
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(out.text).toBe('Hello');
+  });
+
+  it('maps failures to AIProviderError', async () => {
+    const { fetchImpl } = stubServer();
+    const missing = await chatCompletion({ baseUrl: BASE, fetchImpl }, { model: 'missing', prompt: 'x' }).catch((e) => e);
+    expect(missing).toBeInstanceOf(AIProviderError);
+    expect(missing).toMatchObject({ provider: 'local', status: 404 });
+    expect(missing.message).toContain('model "missing" not found');
+
+    const refused = (async () => { throw new TypeError('fetch failed'); }) as typeof fetch;
+    const down = await listModels({ baseUrl: BASE, fetchImpl: refused }).catch((e) => e);
+    expect(down).toMatchObject({ provider: 'local', status: 0, message: `Local AI server unreachable at ${BASE}/v1` });
+  });
+});
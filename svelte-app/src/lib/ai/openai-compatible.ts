@@ -0,0 +1,155 @@
+import { AIProviderError, type AIProviderName } from './errors';
+import { openAIStreamDelta, readSSE } from './sse';
+import { mergeStreamUsage, usageFromResponse, type TokenUsage } from './usage';
+
+/**
+ * Client for self-hosted servers that speak the OpenAI chat completions API
+ * (Ollama, llama.cpp server, vLLM, LM Studio). Requests go straight from the
+ * browser to the configured base URL, so the server must allow CORS from this
+ * origin (e.g. `OLLAMA_ORIGINS`).
+ */
+export type OpenAICompatibleConfig = {
+  baseUrl: string;
+  /** Sent as a bearer token when set; most local servers need none */
+  apiKey?: string;
+  fetchImpl?: typeof fetch;
+};
+
+export type ChatCompletionRequest = {
+  model: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  /** Streams the reply when set */
+  onDelta?: (delta: string) => void;
+};
+
+export type ChatCompletionResult = {
+  text: string;
+  model: string;
+  status: number;
+  requestId: string | null;
+  durationMs: number;
+  /** Token counts when the server reports them */
+  usage?: TokenUsage;
+  raw?: unknown;
+};
+
+/** `http://host:11434` and `http://host:11434/v1/` both become `http://host:11434/v1`. */
+export function normalizeBaseUrl(url: string): string {
+  const trimmed = (url || '').trim().replace(/\/+$/, '');
+  if (!trimmed) return '';
+  return /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+}
+
+function headersFor(config: OpenAICompatibleConfig): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey && config.apiKey.trim()) headers.Authorization = `Bearer ${config.apiKey.trim()}`;
+  return headers;
+}
+
+function describeError(status: number, body: unknown, model?: string): string {
+  const error = (body as { error?: string | { message?: unknown } } | undefined)?.error;
+  const detail = typeof error === 'string' ? error : typeof error?.message === 'string' ? error.message : '';
+  if (status === 401 || status === 403) return 'Local AI server rejected the API key';
+  if (status === 404) return model ? `Local AI model not found: ${detail || model}` : 'Local AI endpoint not found - check the base URL';
+  if (status === 429) return 'Local AI server is busy (rate limited)';
+  return detail ? `Local AI error ${status}: ${detail}` : `Local AI error ${status}`;
+}
+
+async function send(config: OpenAICompatibleConfig, path: string, init: RequestInit, model?: string): Promise<Response> {
+  const base = normalizeBaseUrl(config.baseUrl);
+  if (!base) throw new AIProviderError({ provider: 'local', message: 'Local AI base URL not set', status: 0, durationMs: 0 });
+  const doFetch = config.fetchImpl || fetch;
+  let res: Response;
+  try {
+    res = await doFetch(`${base}${path}`, { ...init, headers: headersFor(config) });
+  } catch (e) {
+    if ((e as { name?: string } | null)?.name === 'AbortError') throw e;
+    // Network errors carry no status; CORS rejections look the same from here
+    throw new AIProviderError({ provider: 'local', message: `Local AI server unreachable at ${base}`, status: 0, body: e instanceof Error ? e.message : String(e) });
+  }
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    let body: unknown = text;
+    try { body = JSON.parse(text); } catch { /* plain text error */ }
+    const headers = { 'retry-after': res.headers.get('retry-after'), 'x-request-id': res.headers.get('x-request-id') };
+    throw new AIProviderError({ provider: 'local', message: describeError(res.status, body, model), status: res.status, headers, body });
+  }
+  return res;
+}
+
+/** Model ids the server reports through `GET /models`. */
+export async function listModels(config: OpenAICompatibleConfig): Promise<string[]> {
+  const res = await send(config, '/models', { method: 'GET' });
+  const data = (await res.json().catch(() => ({}))) as { data?: Array<{ id?: unknown }> };
+  return (data.data || []).map((m) => (typeof m.id === 'string' ? m.id : '')).filter(Boolean);
+}
+
+export async function chatCompletion(config: OpenAICompatibleConfig, req: ChatCompletionRequest): Promise<ChatCompletionResult> {
+  const startedAt = Date.now();
+  const stream = !!req.onDelta;
+  const res = await send(
+    config,
+    '/chat/completions',
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        model: req.model,
+        messages: [{ role: 'user', content: req.prompt }],
+        temperature: req.temperature ?? 0.2,
+        ...(req.maxTokens ? { max_tokens: req.maxTokens } : {}),
+        stream
+      }),
+      signal: req.signal
+    },
+    req.model
+  );
+  const requestId = res.headers.get('x-request-id');
+  if (stream && res.body) {
+    let text = '';
+    let usage: TokenUsage | null = null;
+    for await (const data of readSSE(res.body, req.signal)) {
+      if (data === '[DONE]') break;
+      let event: unknown;
+      try { event = JSON.parse(data); } catch { continue; }
+      usage = mergeStreamUsage(usage, event);
+      const delta = openAIStreamDelta(event);
+      if (!delta) continue;
+      text += delta;
+      req.onDelta?.(delta);
+    }
+    return { text: text.trim(), model: req.model, status: res.status, requestId, durationMs: Date.now() - startedAt, usage: usage || undefined };
+  }
+  const data = (await res.json().catch(() => ({}))) as { model?: string; choices?: Array<{ message?: { content?: unknown } }> };
+  const content = data.choices?.[0]?.message?.content;
+  return {
+    text: typeof content === 'string' ? content.trim() : '',
+    model: data.model || req.model,
+    status: res.status,
+    requestId,
+    durationMs: Date.now() - startedAt,
+    usage: usageFromResponse(data) || undefined,
+    raw: data
+  };
+}
+
+export type EmbeddingsResult = { vectors: number[][]; model: string; usage?: TokenUsage };
+
+/** `POST /embeddings`; vectors come back in input order. */
+export async function createEmbeddings(config: OpenAICompatibleConfig, req: { model: string; input: string[]; signal?: AbortSignal }): Promise<EmbeddingsResult> {
+  const res = await send(config, '/embeddings', { method: 'POST', body: JSON.stringify({ model: req.model, input: req.input }), signal: req.signal }, req.model);
+  const data = (await res.json().catch(() => ({}))) as { model?: string; data?: Array<{ index?: number; embedding?: unknown }> };
+  return { vectors: embeddingsFromResponse(data, req.input.length), model: data.model || req.model, usage: usageFromResponse(data) || undefined };
+}
+
+/** Orders an OpenAI-style `data[]` by `index`; a missing or malformed vector is an error. */
+export function embeddingsFromResponse(data: { data?: Array<{ index?: number; embedding?: unknown }> }, expected: number, provider: AIProviderName = 'local'): number[][] {
+  const rows = [...(data.data || [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  const vectors = rows.map((r) => (Array.isArray(r.embedding) ? (r.embedding as number[]) : []));
+  if (vectors.length !== expected || vectors.some((v) => !v.length)) {
+    throw new AIProviderError({ provider, message: `Embeddings response had ${vectors.length} of ${expected} vectors`, status: 0, body: data });
+  }
+  return vectors;
+}
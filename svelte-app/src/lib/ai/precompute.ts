@@ -1,7 +1,7 @@
 import { get } from 'svelte/store';
-import { settings } from '$lib/stores/settings';
+import { settings, hasAIConfigured } from '$lib/stores/settings';
 import { getDB } from '$lib/db/indexeddb';
-import type { GmailMessage, GmailThread, GmailAttachment } from '$lib/types';
+import type { GmailMessage, GmailThread, GmailAttachment, ModerationRule } from '$lib/types';
 import {
   aiSummarizeEmail,
   aiSummarizeSubject,
@@ -10,10 +10,16 @@ import {
 import {
   getEmailSummaryCombinedPrompt,
   getSubjectImprovementCombinedPrompt,
-  getCollegeRecruitingModerationPrompt,
-  getReviewsModerationPrompt
+  getEmailSummaryBatchPrompt,
+  getSubjectImprovementBatchPrompt
 } from '$lib/ai/prompts';
-import { queueThreadModify } from '$lib/queue/intents';
+import { applyModerationAction, getEnabledModerationRules } from '$lib/ai/moderation-rules';
+import { recordAIUsage, getAIBudgetStatus } from '$lib/ai/usage-ledger';
+import { estimateTokens, usageFromResponse } from '$lib/ai/usage';
+import { getContextCache, inFlightBatchThreadIds, pollGeminiBatches, submitGeminiBatch } from '$lib/ai/gemini-batch-jobs';
+import { indexThreadEmbeddings } from '$lib/ai/embedding-index';
+import { extractThreadCards } from '$lib/ai/card-extraction';
+import type { AppSettings } from '$lib/stores/settings';
 import { precomputeStatus } from '$lib/stores/precompute';
 import { threads } from '$lib/stores/threads';
 import { get as getStore } from 'svelte/store';
@@ -24,22 +30,6 @@ const PRECOMPUTE_LOG_CAP = 1000; // hard cap on retained logs
 const PRECOMPUTE_LOG_MAX_AGE_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
 const _precomputeLogs: PrecomputeLogEntry[] = [];
 
-// Moderation Rules Configuration
-const MODERATION_RULES = [
-  {
-    id: 'college_recruiting_v2',
-    labelName: 'college_recruiting',
-    prompt: getCollegeRecruitingModerationPrompt(),
-    version: 2
-  },
-  {
-    id: 'reviews_v2',
-    labelName: 'reviews',
-    prompt: getReviewsModerationPrompt(),
-    version: 2
-  }
-];
-
 // Cache for label IDs
 const _labelIdCache: Record<string, string> = {};
 
@@ -69,7 +59,7 @@ async function ensureLabel(name: string): Promise<string | null> {
   }
 }
 
-function getEligibleModerationRule(thread: GmailThread, prepared: { bodyText?: string; bodyHtml?: string; subject?: string; summary?: string }): typeof MODERATION_RULES[0] | null {
+function getEligibleModerationRule(thread: GmailThread, prepared: { bodyText?: string; bodyHtml?: string; subject?: string; summary?: string }, rules: ModerationRule[]): ModerationRule | null {
   try {
     const labels = thread.labelIds || [];
     if (!labels.includes('INBOX')) return null;
@@ -83,7 +73,7 @@ function getEligibleModerationRule(thread: GmailThread, prepared: { bodyText?: s
 
     const lastActivity = Number(thread.lastMsgMeta?.date) || 0;
 
-    for (const rule of MODERATION_RULES) {
+    for (const rule of rules) {
       // Skip if already labeled with this rule's label
       const hasLabel = labels.some(l => l.includes(rule.labelName) || l === _labelIdCache[rule.labelName]);
       if (hasLabel) continue;
@@ -381,7 +371,8 @@ async function callGeminiCombinedChunk(
   items: GeminiBatchItem[],
   apiKey: string,
   model: string,
-  mode: GeminiBatchMode
+  mode: GeminiBatchMode,
+  cachedContent?: string
 ): Promise<Record<string, string>> {
   if (!items.length || !apiKey) return {};
   const prompt = mode === 'summary'
@@ -399,16 +390,30 @@ async function callGeminiCombinedChunk(
   const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(apiKey)}`;
 
   try {
+    // With a context cache the instruction lives in the cached content and only the input is sent
     const res = await fetch(url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
-        contents: [{ role: 'user', parts: [{ text: compositePrompt }] }],
+        ...(cachedContent ? { cachedContent } : {}),
+        contents: [{ role: 'user', parts: [{ text: cachedContent ? `INPUT:${payload}` : compositePrompt }] }],
         generationConfig: { temperature: 0.2 }
       })
     });
-    if (!res.ok) return {};
+    if (!res.ok) {
+      if (!cachedContent) return {};
+      pushLog('warn', '[Precompute] Combined request with context cache failed:', res.status, '- retrying with the prompt inline');
+      return await callGeminiCombinedChunk(items, apiKey, model, mode);
+    }
     const data = await res.json().catch(() => ({} as any));
+    const usage = usageFromResponse(data);
+    void recordAIUsage({
+      feature: mode,
+      provider: 'gemini',
+      model,
+      usage: usage || { inputTokens: estimateTokens(compositePrompt), outputTokens: 0 },
+      estimated: !usage
+    });
     const parts = data?.candidates?.[0]?.content?.parts;
     let textOut: string | undefined;
     if (Array.isArray(parts)) {
@@ -446,16 +451,19 @@ async function runGeminiCombinedBatch(
   items: GeminiBatchItem[],
   apiKey?: string,
   model?: string,
-  mode: GeminiBatchMode = 'summary'
+  mode: GeminiBatchMode = 'summary',
+  useCache = false
 ): Promise<Record<string, string>> {
   const key = (apiKey || '').trim();
   const modelName = (model || '').trim() || 'gemini-1.5-flash';
   if (!key || !items.length) return {};
 
+  const prompt = mode === 'summary' ? getEmailSummaryCombinedPrompt() : getSubjectImprovementCombinedPrompt();
+  const cachedContent = useCache ? await getContextCache(key, modelName, prompt, pushLog) : undefined;
   const results: Record<string, string> = {};
   for (let i = 0; i < items.length; i += GEMINI_COMBINED_BATCH_SIZE) {
     const chunk = items.slice(i, i + GEMINI_COMBINED_BATCH_SIZE);
-    const chunkMap = await callGeminiCombinedChunk(chunk, key, modelName, mode);
+    const chunkMap = await callGeminiCombinedChunk(chunk, key, modelName, mode, cachedContent);
     Object.assign(results, chunkMap);
   }
   return results;
@@ -465,12 +473,12 @@ async function summarizeBatchRemote(
   items: GeminiBatchItem[],
   apiKey?: string,
   model?: string,
-  _useCache?: boolean,
+  useCache?: boolean,
   combined = false
 ): Promise<Record<string, string>> {
   if (!combined) return {};
   try {
-    return await runGeminiCombinedBatch(items, apiKey, model, 'summary');
+    return await runGeminiCombinedBatch(items, apiKey, model, 'summary', !!useCache);
   } catch {
     return {};
   }
@@ -480,17 +488,49 @@ async function summarizeSubjectBatchRemote(
   items: GeminiBatchItem[],
   apiKey?: string,
   model?: string,
-  _useCache?: boolean,
+  useCache?: boolean,
   combined = false
 ): Promise<Record<string, string>> {
   if (!combined) return {};
   try {
-    return await runGeminiCombinedBatch(items, apiKey, model, 'subject');
+    return await runGeminiCombinedBatch(items, apiKey, model, 'subject', !!useCache);
   } catch {
     return {};
   }
 }
 
+/**
+ * Hands a backfill's items to the Gemini Batch API (half price, results
+ * within hours). Returns the ids now owned by the job; an empty set means
+ * the caller runs them through the combined/direct path, and the log says why.
+ */
+async function submitBackfillBatch(s: AppSettings, items: GeminiBatchItem[], mode: GeminiBatchMode): Promise<Set<string>> {
+  if (!items.length) return new Set();
+  if (!s.precomputeUseBatch) {
+    pushLog('debug', `[Precompute] Batch Mode off; backfilling ${mode} items with combined requests`);
+    return new Set();
+  }
+  if (s.aiProvider !== 'gemini' || !s.aiApiKey) {
+    pushLog('debug', `[Precompute] Batch Mode needs a Gemini key (provider: ${s.aiProvider}); backfilling ${mode} items directly`);
+    return new Set();
+  }
+  const job = await submitGeminiBatch({
+    apiKey: s.aiApiKey,
+    model: s.aiSummaryModel || s.aiModel || 'gemini-1.5-flash',
+    mode,
+    items,
+    systemInstruction: mode === 'summary' ? getEmailSummaryBatchPrompt() : getSubjectImprovementBatchPrompt(),
+    useContextCache: s.precomputeUseContextCache !== false,
+    log: pushLog
+  });
+  if (!job) {
+    pushLog('warn', `[Precompute] Falling back to combined generateContent for ${items.length} ${mode} items`);
+    return new Set();
+  }
+  pushLog('debug', '[Precompute] Submitted batch job', job.name, 'for', items.length, mode, 'items');
+  return new Set(job.threadIds);
+}
+
 async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
   const results: R[] = new Array(items.length);
   let idx = 0;
@@ -511,6 +551,8 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
   skipComplete?: boolean;
   moderationPriority?: boolean;
   moderationLimit?: number;
+  /** Nightly backfill: submit summaries and subjects as Gemini batch jobs when Batch Mode is on */
+  backfill?: boolean;
 }): Promise<{ processed: number; total: number }> {
   try {
     console.log('[Precompute] ===== STARTING PRECOMPUTE ===== limit:', limit, 'skipSync:', skipSync, 'options:', options);
@@ -538,13 +580,37 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
       if (!options?.skipComplete) precomputeStatus.complete();
       return { processed: 0, total: 0 };
     }
+    const moderationRules = await getEnabledModerationRules();
 
-    if (!s?.aiApiKey || s.aiApiKey.trim() === '') {
+    if (!hasAIConfigured(s)) {
       console.warn('[Precompute] AI API key is missing; cannot run precompute');
       pushLog('warn', '[Precompute] AI API key is missing; cannot run precompute');
       if (!options?.skipComplete) precomputeStatus.complete();
       return { processed: 0, total: 0 };
     }
+
+    // Budgets only pause background work; interactive summaries and drafts keep running
+    const budget = await getAIBudgetStatus(s);
+    if (budget.exceeded) {
+      pushLog('warn', `[Precompute] ${budget.exceeded}; pausing precompute`);
+      if (!options?.skipComplete) precomputeStatus.complete();
+      return { processed: 0, total: 0 };
+    }
+    // Subjects are built from summaries, so a cap on either pauses both
+    const summariesPaused = budget.features.summary || budget.features.subject;
+    if (summariesPaused) pushLog('warn', `[Precompute] ${summariesPaused}; skipping summaries and subjects`);
+    if (budget.features.moderation) pushLog('warn', `[Precompute] ${budget.features.moderation}; skipping moderation`);
+
+    // Apply finished batch jobs first; threads still in a job are left to it
+    if (s.aiProvider === 'gemini' && s.aiApiKey) {
+      try {
+        const applied = await pollGeminiBatches(s.aiApiKey, pushLog);
+        if (applied) pushLog('debug', `[Precompute] Applied ${applied} results from Gemini batch jobs`);
+      } catch (e) {
+        pushLog('warn', '[Precompute] Failed to check Gemini batch jobs', e instanceof Error ? e.message : String(e));
+      }
+    }
+    const batchedIds = await inFlightBatchThreadIds();
     
     const db = await getDB();
     // Ensure database has all INBOX message/thread metadata before computing
@@ -720,6 +786,33 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
       precomputeStatus.start(options?.totalCandidates || candidates.length);
     }
 
+    // Keep the semantic search index current a chunk per tick; unchanged threads cost nothing
+    if (s.semanticSearch && !budget.features.search) {
+      try {
+        await indexThreadEmbeddings(candidates, { limit: 32, log: pushLog });
+      } catch (e) {
+        pushLog('warn', '[Precompute] Semantic search indexing failed:', e instanceof Error ? e.message : String(e));
+      }
+    } else if (s.semanticSearch) {
+      pushLog('warn', `[Precompute] ${budget.features.search}; skipping search indexing`);
+    }
+
+    // Cards come from bodies the summary stage already cached, a few threads per tick
+    if (s.precomputeCards && !budget.features.cards) {
+      try {
+        const withCards = await extractThreadCards(candidates, { limit: 8, log: pushLog });
+        // Later stages write their results over these objects, so they must carry the new cards
+        for (const t of withCards) {
+          const idx = candidates.findIndex((c) => c.threadId === t.threadId);
+          if (idx >= 0) candidates[idx] = t;
+        }
+      } catch (e) {
+        pushLog('warn', '[Precompute] Card extraction failed:', e instanceof Error ? e.message : String(e));
+      }
+    } else if (s.precomputeCards) {
+      pushLog('warn', `[Precompute] ${budget.features.cards}; skipping card extraction`);
+    }
+
     // Removed AI summary versioning. Cached summaries are binary (exist / not)
     // Ensure `nowVersion` is defined to avoid ReferenceError from older code paths
     // that still refer to versioned fields. Use a stable numeric sentinel.
@@ -729,7 +822,8 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
     const needsSummaryThreads: Array<GmailThread> = [];
     let totalPendingSummaries = 0;
     let totalPendingSubjects = 0;
-    for (const t of candidates) {
+    for (const t of summariesPaused ? [] : candidates) {
+      if (batchedIds.has(t.threadId)) continue;
       // Without versions, only recompute when missing or in an error/none state
       // or when content appears changed since last summary (bodyHash/summaryUpdatedAt).
       const needsSummary = !t.summary || t.summaryStatus === 'none' || t.summaryStatus === 'error';
@@ -741,12 +835,13 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
     
     // Check which threads need moderation (separate from summary processing)
     const needsModerationThreads = candidates.filter(t => {
+      if (budget.features.moderation) return false;
       const labels = t.labelIds || [];
       if (!labels.includes('INBOX')) return false;
       if (labels.includes('TRASH') || labels.includes('SPAM')) return false;
       
       // Check if any rule is eligible
-      const eligibleRule = getEligibleModerationRule(t, { subject: t.lastMsgMeta?.subject, summary: t.summary });
+      const eligibleRule = getEligibleModerationRule(t, { subject: t.lastMsgMeta?.subject, summary: t.summary }, moderationRules);
       return !!eligibleRule;
     });
     
@@ -843,7 +938,7 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
       
       // For moderation, find the first eligible rule
       const summary = t.summary;
-      const moderationRule = getEligibleModerationRule(t, { bodyText, bodyHtml, subject, summary });
+      const moderationRule = getEligibleModerationRule(t, { bodyText, bodyHtml, subject, summary }, moderationRules);
       return { 
         thread: t, 
         subject, 
@@ -884,9 +979,9 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
         const t = p.thread;
         // Respect any existing cached summary: only mark as needing work when
         // there is no cached summary or the status is explicitly none/error.
-        const needsSummary = !t.summary || t.summaryStatus === 'none' || t.summaryStatus === 'error';
+        const needsSummary = !summariesPaused && (!t.summary || t.summaryStatus === 'none' || t.summaryStatus === 'error');
         const subjectVersionMismatch = (t.subjectVersion || 0) !== nowVersion;
-        const needsSubject = !t.aiSubject || t.aiSubjectStatus === 'none' || t.aiSubjectStatus === 'error' || subjectVersionMismatch;
+        const needsSubject = !summariesPaused && (!t.aiSubject || t.aiSubjectStatus === 'none' || t.aiSubjectStatus === 'error' || subjectVersionMismatch);
 
         // Avoid overwriting summaryUpdatedAt when merely marking pending for items
         // that don't currently have a cached summary. Introduce `summaryPendingAt`
@@ -920,12 +1015,14 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
     // If batch is preferred, try server batch; else direct
     // Decide which items need which computations
     const wantsSummary = prepared.filter((p) => {
+      if (summariesPaused) return false;
       const t = p.thread;
       // Never request a summary if a cached summary exists. Only include
       // threads that lack a summary or are in an explicit none/error state.
       return !t.summary || t.summaryStatus === 'none' || t.summaryStatus === 'error';
     });
     const wantsSubject = prepared.filter((p) => {
+      if (summariesPaused) return false;
       const t = p.thread;
       const mismatch = (t.subjectVersion || 0) !== nowVersion;
       return !t.aiSubject || t.aiSubjectStatus === 'none' || t.aiSubjectStatus === 'error' || mismatch;
@@ -951,9 +1048,16 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
         `Processing ${totalPendingSummaries || summaryTargets.length} summaries...`
       );
       
-      const combinedItems = summaryTargets.map((p) => ({ id: p.thread.threadId, text: p.text || p.subject || '' }));
+      // Backfills go to the Batch API; those threads stay pending until pollGeminiBatches applies the job
+      const batchedSummaries = options?.backfill
+        ? await submitBackfillBatch(s, summaryTargets.map((p) => ({ id: p.thread.threadId, text: p.text || p.subject || '' })), 'summary')
+        : new Set<string>();
+      const inlineSummaryTargets = summaryTargets.filter((p) => !batchedSummaries.has(p.thread.threadId));
+      const combinedItems = inlineSummaryTargets.map((p) => ({ id: p.thread.threadId, text: p.text || p.subject || '' }));
       let map: Record<string, string> = {};
-      if (s.aiApiKey && s.aiProvider === 'gemini') {
+      if (!combinedItems.length) {
+        pushLog('debug', '[Precompute] All summaries of this tick were submitted to Batch Mode');
+      } else if (s.aiApiKey && s.aiProvider === 'gemini') {
         pushLog('debug', '[Precompute] Attempting client-side combined batch for summaries');
         map = await summarizeBatchRemote(combinedItems, s.aiApiKey, s.aiSummaryModel || s.aiModel, s.precomputeUseContextCache, true);
         if (map && Object.keys(map).length) {
@@ -962,13 +1066,13 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
         } else {
           pushLog('debug', '[Precompute] Combined batch summary call returned no data, falling back to direct');
         }
-      } else if (s.aiApiKey && s.aiProvider !== 'gemini') {
+      } else if (hasAIConfigured(s) && s.aiProvider !== 'gemini') {
         pushLog('debug', '[Precompute] Skipping combined batching for provider:', s.aiProvider);
       } else {
         pushLog('warn', `[Precompute] No ${s.aiProvider || 'AI'} API key configured; skipping combined batch for summaries`);
       }
 
-      const missingSummaryTargets = summaryTargets.filter((p) => {
+      const missingSummaryTargets = inlineSummaryTargets.filter((p) => {
         const val = summaryResults[p.thread.threadId];
         return !(val && val.trim());
       });
@@ -1069,23 +1173,28 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
         return { id: p.thread.threadId, text };
       });
 
+      const batchedSubjects = options?.backfill ? await submitBackfillBatch(s, subjectItems, 'subject') : new Set<string>();
+      const inlineSubjectItems = subjectItems.filter((item) => !batchedSubjects.has(item.id));
       let subjMap: Record<string, string> = {};
-      if (s.aiApiKey && s.aiProvider === 'gemini') {
+      if (!inlineSubjectItems.length) {
+        pushLog('debug', '[Precompute] All subjects of this tick were submitted to Batch Mode');
+      } else if (s.aiApiKey && s.aiProvider === 'gemini') {
         pushLog('debug', '[Precompute] Attempting client-side combined batch for subjects');
-        subjMap = await summarizeSubjectBatchRemote(subjectItems, s.aiApiKey, s.aiSummaryModel || s.aiModel, s.precomputeUseContextCache, true);
+        subjMap = await summarizeSubjectBatchRemote(inlineSubjectItems, s.aiApiKey, s.aiSummaryModel || s.aiModel, s.precomputeUseContextCache, true);
         if (subjMap && Object.keys(subjMap).length) {
           pushLog('debug', '[Precompute] Combined batch subject results:', Object.keys(subjMap).length);
           subjectResults = subjMap;
         } else {
           pushLog('debug', '[Precompute] Combined batch subject call returned no data, falling back to direct');
         }
-      } else if (s.aiApiKey && s.aiProvider !== 'gemini') {
+      } else if (hasAIConfigured(s) && s.aiProvider !== 'gemini') {
         pushLog('debug', '[Precompute] Skipping combined batching for provider:', s.aiProvider);
       } else {
         pushLog('warn', `[Precompute] No ${s.aiProvider || 'AI'} API key configured; skipping combined batch for subjects`);
       }
 
       const missingSubjects = wantsSubject.filter((p) => {
+        if (batchedSubjects.has(p.thread.threadId)) return false;
         const val = subjectResults[p.thread.threadId];
         return !(val && val.trim());
       });
@@ -1135,7 +1244,7 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
     try {
       const nowMs = Date.now();
       const updatedThreads: GmailThread[] = [];
-      const queueActions: Array<{ threadId: string; labelId: string }> = [];
+      const queueActions: Array<{ threadId: string; labelId: string; rule: ModerationRule }> = [];
       
       const existingThreadsMap = new Map<string, GmailThread>();
       
@@ -1189,7 +1298,7 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
         if (p.moderationRule && p.moderationResult) {
           const mod = p.moderationResult;
           const ruleId = mod.ruleId;
-          const rule = MODERATION_RULES.find(r => r.id === ruleId);
+          const rule = moderationRules.find(r => r.id === ruleId);
           const prevModeration = (existing || t).autoModeration || {};
           const moderationEntry = (prevModeration as any)[ruleId] || {};
           const nextModerationEntry = {
@@ -1209,7 +1318,7 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
           if (mod.status === 'match') {
             const labelId = await ensureLabel(mod.labelName);
             if (labelId) {
-              queueActions.push({ threadId: t.threadId, labelId });
+              if (rule) queueActions.push({ threadId: t.threadId, labelId, rule });
               (next as any).autoModeration[ruleId].actionTaken = 'label_enqueued';
             } else {
               pushLog('error', `[Precompute] Could not get label ID for "${mod.labelName}" on thread`, t.threadId);
@@ -1248,10 +1357,10 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
       // Run queue actions AFTER transaction
       for (const action of queueActions) {
         try {
-          pushLog('debug', '[Precompute] Enqueuing label for recruiting match', action.threadId, 'labelId:', action.labelId);
-          await queueThreadModify(action.threadId, [action.labelId], ['INBOX'], { optimisticLocal: false });
+          pushLog('debug', '[Precompute] Applying moderation action', action.rule.action, 'for rule', action.rule.id, 'on', action.threadId, 'labelId:', action.labelId);
+          await applyModerationAction(action.threadId, action.rule, action.labelId);
         } catch (err) {
-          pushLog('error', '[Precompute] Failed to enqueue label for', action.threadId, err);
+          pushLog('error', '[Precompute] Failed to apply moderation action for', action.threadId, err);
         }
       }
 
@@ -1302,7 +1411,7 @@ export async function tickPrecompute(limit = 10, skipSync = false, options?: {
   }
 }
 
-export async function precomputeNow(limit = 500, options?: { moderationPriority?: boolean }): Promise<{ processed: number; total: number }> {
+export async function precomputeNow(limit = 500, options?: { moderationPriority?: boolean; backfill?: boolean }): Promise<{ processed: number; total: number }> {
   pushLog('debug', '[Precompute] precomputeNow starting with limit:', limit, 'options:', options);
   let totalProcessed = 0;
   let candidatesTotal = 0;
@@ -1311,7 +1420,8 @@ export async function precomputeNow(limit = 500, options?: { moderationPriority?
   // We use a reasonably small batch size for the first tick to give fast feedback
   let result = await tickPrecompute(Math.min(limit, 25), false, { 
     skipComplete: true,
-    moderationPriority: options?.moderationPriority
+    moderationPriority: options?.moderationPriority,
+    backfill: options?.backfill
   });
   totalProcessed += result.processed;
   candidatesTotal = result.total;
@@ -1338,7 +1448,8 @@ export async function precomputeNow(limit = 500, options?: { moderationPriority?
       cumulativeProcessed: totalProcessed, 
       totalCandidates: candidatesTotal,
       skipComplete: true,
-      moderationPriority: options?.moderationPriority
+      moderationPriority: options?.moderationPriority,
+      backfill: options?.backfill
     });
     
     if (result.processed === 0) break;
@@ -1406,8 +1517,9 @@ export async function moderateThreadManually(threadId: string, ruleId?: string):
       return { success: false, message: 'Thread not found in local database' };
     }
 
-    const targetRuleId = ruleId || 'college_recruiting_v2';
-    const rule = MODERATION_RULES.find(r => r.id === targetRuleId);
+    const rules = await getEnabledModerationRules();
+    const targetRuleId = ruleId || rules[0]?.id || 'college_recruiting_v2';
+    const rule = rules.find(r => r.id === targetRuleId);
     if (!rule) {
       return { success: false, message: `Moderation rule "${targetRuleId}" not found` };
     }
@@ -1431,7 +1543,7 @@ export async function moderateThreadManually(threadId: string, ruleId?: string):
     if (result.verdict === 'match') {
       const labelId = await ensureLabel(rule.labelName);
       if (labelId) {
-        await queueThreadModify(threadId, [labelId], ['INBOX'], { optimisticLocal: false });
+        await applyModerationAction(threadId, rule, labelId);
         
         // Update local thread data
         const nowMs = Date.now();
@@ -1458,7 +1570,7 @@ export async function moderateThreadManually(threadId: string, ruleId?: string):
         
         return { 
           success: true, 
-          message: `Thread labeled as "${rule.labelName}" and removed from inbox`,
+          message: rule.action === 'label' ? `Thread labeled as "${rule.labelName}"` : `Thread labeled as "${rule.labelName}" (${rule.action})`,
           result: { verdict: result.verdict, raw: result.raw, labelId }
         };
       } else {
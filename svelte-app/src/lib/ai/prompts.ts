@@ -54,9 +54,45 @@ export const AI_PROMPTS = {
    */
   REPLY_DRAFT: {
     /**
-     * Main prompt for drafting email replies
+     * Prompt for drafting a reply to the last message of a whole conversation
      */
-    MAIN: `Write a brief, polite email reply in plain text. Include a short greeting and a concise closing. Keep it under 120 words. Do not include the original message, disclaimers, markdown, or code blocks. Return ONLY the reply body.`
+    THREAD: `You draft email replies on behalf of the user ("Me" in the conversation below). Reply to the last message, using the earlier messages as context. If examples of the user's previous emails are given, match their greeting, sign-off, length and voice, but never copy facts from them. Do not invent dates, numbers, commitments or attachments that the conversation does not mention. Do not include the original message, a subject line, disclaimers, markdown, or code blocks. Return ONLY the reply body in plain text.`,
+
+    /**
+     * Tone and length presets appended to the thread prompt
+     */
+    TONES: {
+      default: `Be brief and polite. Keep it under 120 words.`,
+      confirm: `Confirm or accept what was asked, restating the key detail (time, place, amount) so there is no ambiguity. Keep it under 80 words.`,
+      decline: `Decline politely and clearly. Thank them, give at most a short reason without over-explaining, and do not suggest alternatives unless the conversation invites one. Keep it under 80 words.`,
+      ask_details: `Ask for the specific details still missing before the user can act, as a short list of questions if there are several. Keep it under 100 words.`,
+      short: `Answer in one or two sentences with no greeting beyond a first name.`,
+      detailed: `Give a complete, well-organized answer covering every open question in the last message. Keep it under 250 words.`
+    }
+  },
+
+  /**
+   * Ask-your-inbox chat prompts
+   */
+  INBOX_CHAT: {
+    /**
+     * Prompt for answering a question from numbered cached emails
+     */
+    ANSWER: `You answer the user's questions about their own email. Use ONLY the numbered emails below; if they do not contain the answer, say so plainly and suggest what to search for instead. Cite every fact with the number of the email it came from in square brackets, like [2]; cite several when they agree or conflict. Give dates, times, places and amounts exactly as written. Keep the answer short (under 120 words), in plain text without markdown headings or code blocks.`
+  },
+
+  /**
+   * Structured extraction prompts
+   */
+  CARDS: {
+    /**
+     * Prompt for extracting events, orders and bills as typed JSON
+     */
+    EXTRACT: `Extract structured data from the email below. Return ONLY a JSON object {"cards":[...]} with zero or more cards of these shapes:
+{"kind":"event","title":string,"start":date,"end"?:date,"location"?:string} for appointments, reservations, meetings, flights and other things at a set time;
+{"kind":"order","merchant"?:string,"orderNumber"?:string,"items":[{"name":string,"quantity"?:number,"price"?:number}],"total"?:number,"currency"?:string,"tracking"?:{"carrier"?:string,"number":string,"url"?:string}} for purchases, receipts and shipping notices;
+{"kind":"bill","payee":string,"amount":number,"currency"?:string,"dueDate"?:date} for invoices and payment requests that still have to be paid.
+Dates are "YYYY-MM-DD", or "YYYY-MM-DDTHH:mm" when a time is given, in the time zone the email uses; resolve weekdays and relative dates against the email's date. Amounts are plain numbers without symbols; currency is a 3-letter ISO code. Omit fields the email does not state and never guess. Newsletters, ads and cancelled events produce {"cards":[]}. No code blocks or commentary.`
   },
 
   /**
@@ -146,7 +182,10 @@ export const getSubjectImprovementWithContentPrompt = () => AI_PROMPTS.SUBJECT_I
 export const getSubjectImprovementBatchPrompt = () => AI_PROMPTS.SUBJECT_IMPROVEMENT.BATCH_STYLE;
 export const getSubjectImprovementCombinedPrompt = () => AI_PROMPTS.SUBJECT_IMPROVEMENT.BATCH_COMBINED;
 
-export const getReplyDraftPrompt = () => AI_PROMPTS.REPLY_DRAFT.MAIN;
+export const getThreadReplyDraftPrompt = () => AI_PROMPTS.REPLY_DRAFT.THREAD;
+export const getReplyTonePrompt = (tone: keyof typeof AI_PROMPTS.REPLY_DRAFT.TONES) => AI_PROMPTS.REPLY_DRAFT.TONES[tone];
+export const getInboxChatPrompt = () => AI_PROMPTS.INBOX_CHAT.ANSWER;
+export const getCardExtractionPrompt = () => AI_PROMPTS.CARDS.EXTRACT;
 export const getAttachmentSummaryPrompt = () => AI_PROMPTS.ATTACHMENT_SUMMARY.MAIN;
 export const getUnsubscribeExtractionPrompt = () => AI_PROMPTS.UNSUBSCRIBE.EXTRACT_URL;
 export const getCollegeRecruitingModerationPrompt = () => AI_PROMPTS.AUTO_MODERATION.COLLEGE_RECRUITING_DETECT;
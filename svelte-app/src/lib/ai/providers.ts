@@ -1,22 +1,31 @@
 import { get } from 'svelte/store';
 import { settings } from '$lib/stores/settings';
 import { redactPII, htmlToText } from './redact';
-import type { GmailAttachment } from '$lib/types';
+import { buildReplyDraftPrompt, type ReplyDraftInput } from './reply-prompt';
+import { buildInboxChatPrompt, type ChatSource, type ChatTurn } from './inbox-chat';
+import { buildCardExtractionPrompt, parseCards } from './cards';
+import { AIProviderError, type AIProviderName } from './errors';
+import { chatCompletion, listModels } from './openai-compatible';
+import { readSSE, geminiStreamDelta, openAIStreamDelta, anthropicStreamDelta } from './sse';
+import { estimateTokens, mergeStreamUsage, usageFromResponse, type TokenUsage } from './usage';
+import { recordAIUsage } from './usage-ledger';
+import type { AIFeature, GmailAttachment, ThreadCard } from '$lib/types';
 import { getDB } from '$lib/db';
 import {
   getEmailSummaryPrompt,
   getSubjectImprovementWithSummaryPrompt,
   getSubjectImprovementWithContentPrompt,
-  getReplyDraftPrompt,
   getAttachmentSummaryPrompt,
   getUnsubscribeExtractionPrompt,
   getCollegeRecruitingModerationPrompt,
   getReviewsModerationPrompt
 } from './prompts';
 
+export { AIProviderError, type AIProviderName } from './errors';
+
 export type AIResult = {
   text: string;
-  provider?: 'openai' | 'anthropic' | 'gemini';
+  provider?: AIProviderName;
   model?: string;
   requestId?: string | null;
   headers?: Record<string, string | null>;
@@ -24,6 +33,8 @@ export type AIResult = {
   httpStatus?: number;
   durationMs?: number;
   cached?: boolean;
+  /** Token counts reported by the provider */
+  usage?: TokenUsage;
 };
 
 export type AttachmentPreview = {
@@ -37,7 +48,7 @@ export type AttachmentPreview = {
 };
 
 export type EmailSummaryRequest = {
-  provider: 'openai' | 'anthropic' | 'gemini';
+  provider: AIProviderName;
   model: string;
   promptTemplate: string;
   hasBody: boolean;
@@ -209,6 +220,8 @@ type PerformEmailSummaryInput = {
   sanitizedParts?: SanitizedPart[];
   runId?: string;
   includeDiagnostics?: boolean;
+  /** Streams text-only prompts; inline attachment parts still run as one request */
+  stream?: AIStreamOptions;
 };
 
 async function performEmailSummary(input: PerformEmailSummaryInput): Promise<{
@@ -219,13 +232,13 @@ async function performEmailSummary(input: PerformEmailSummaryInput): Promise<{
   runId: string;
   textPrompt?: string | null;
   partsPreview?: SanitizedPart[];
-  provider: 'openai' | 'anthropic' | 'gemini';
+  provider: AIProviderName;
   template: string;
 }> {
   const s = get(settings);
   const provider = s.aiProvider || 'gemini';
   const prompt = getEmailSummaryPrompt();
-  let model = s.aiSummaryModel || s.aiModel || (provider === 'gemini' ? input.defaultGeminiModel : provider === 'anthropic' ? 'claude-3-haiku-20240307' : 'gpt-4o-mini');
+  let model = s.aiSummaryModel || s.aiModel || (provider === 'gemini' ? input.defaultGeminiModel : defaultModel(provider, 'summary'));
   if (provider === 'gemini' && input.attInline.length && !/^gemini-1\.5/i.test(model)) {
     model = 'gemini-1.5-flash';
   }
@@ -243,12 +256,14 @@ async function performEmailSummary(input: PerformEmailSummaryInput): Promise<{
     try {
       try {
         const resp = await enqueueGemini({ id: runId, model, parts: input.partsForGemini, streaming: false, priority: 'interactive' });
-        out = { text: resp.text || '', provider: 'gemini', model, cached: true } as AIResult;
+        out = { text: resp.text || '', provider: 'gemini', model, cached: !!resp.cached, usage: resp.usage } as AIResult;
       } catch (e) {
         out = await callGeminiWithParts(input.partsForGemini, model);
       } finally {
         queueAfter = getPendingCount();
       }
+      trackUsage('summary', partsText(input.partsForGemini), out);
+      if (out?.text) input.stream?.onDelta(out.text);
     } catch (e) {
       out = null;
       error = serializeError(e);
@@ -259,19 +274,24 @@ async function performEmailSummary(input: PerformEmailSummaryInput): Promise<{
       : `${prompt}\n\nSubject:\n${input.redacted}${input.attBlock}`;
     textPrompt = fullPrompt;
     try {
-      if (provider === 'gemini') {
+      if (input.stream) {
+        out = await streamProvider(provider, fullPrompt, model, input.stream, 'summary');
+      } else if (provider === 'gemini') {
         try {
           const resp = await enqueueGemini({ id: runId, model, prompt: fullPrompt, streaming: false, priority: 'interactive' });
-          out = { text: resp.text || '', provider: 'gemini', model, cached: true } as AIResult;
+          out = { text: resp.text || '', provider: 'gemini', model, cached: !!resp.cached, usage: resp.usage } as AIResult;
         } catch (e) {
           out = await callGemini(fullPrompt, model);
         } finally {
           queueAfter = getPendingCount();
         }
+        trackUsage('summary', fullPrompt, out);
       } else {
-        out = provider === 'anthropic' ? await callAnthropic(fullPrompt, model) : await callOpenAI(fullPrompt, model);
+        out = await callProvider(provider, fullPrompt, model, 'summary');
       }
     } catch (e) {
+      // A cancelled stream is not a failed summary; let the caller skip caching
+      if (isAIAbortError(e)) throw e;
       out = null;
       error = serializeError(e);
     }
@@ -396,36 +416,6 @@ async function loadCachedThreadSummary(threadId?: string): Promise<string | null
   return null;
 }
 
-export class AIProviderError extends Error {
-  provider: 'openai' | 'anthropic' | 'gemini' | 'unknown';
-  status: number;
-  headers?: Record<string, string | null>;
-  body?: unknown;
-  requestId?: string | null;
-  retryAfterSeconds?: number | null;
-  durationMs?: number;
-  constructor(opts: {
-    provider: 'openai' | 'anthropic' | 'gemini' | 'unknown';
-    message: string;
-    status: number;
-    headers?: Record<string, string | null>;
-    body?: unknown;
-    durationMs?: number;
-  }) {
-    super(opts.message);
-    this.name = 'AIProviderError';
-    this.provider = opts.provider;
-    this.status = opts.status;
-    this.headers = opts.headers;
-    this.body = opts.body;
-    this.requestId = (opts.headers && (opts.headers['x-request-id'] || null)) || null;
-    const ra = opts.headers && opts.headers['retry-after'];
-    const n = typeof ra === 'string' ? Number(ra) : null;
-    this.retryAfterSeconds = Number.isFinite(n as number) ? (n as number) : null;
-    this.durationMs = opts.durationMs;
-  }
-}
-
 export function getFriendlyAIErrorMessage(e: unknown, actionLabel?: string): { message: string; retryAfterSeconds?: number | null } {
   const action = actionLabel ? `${actionLabel}: ` : '';
   try {
@@ -474,6 +464,46 @@ function getOpenAIRateLimitHeaders(res: Response): Record<string, string | null>
   };
 }
 
+type ProviderErrorBody = { error?: string | { code?: unknown; message?: unknown } } | string | undefined;
+
+function describeOpenAIError(status: number, body: ProviderErrorBody): string {
+  const error = typeof body === 'object' ? body?.error : undefined;
+  const errorCode = typeof error === 'object' && typeof error.code === 'string' ? error.code : undefined;
+  const errorMessageFromBody =
+    typeof error === 'string'
+      ? error
+      : (typeof error?.message === 'string' ? error.message : undefined);
+  if (status === 429 && errorCode === 'insufficient_quota') return 'OpenAI insufficient quota';
+  if (status === 401 || errorCode === 'invalid_api_key') return 'OpenAI invalid API key';
+  if (status === 429) return 'OpenAI rate limit exceeded';
+  if (typeof errorMessageFromBody === 'string' && errorMessageFromBody) {
+    if (/api key not set/i.test(errorMessageFromBody)) return 'OpenAI API key not set';
+    return `OpenAI error ${status}: ${errorMessageFromBody}`;
+  }
+  return `OpenAI error ${status}`;
+}
+
+function describeGeminiError(status: number, json: ProviderErrorBody, text?: string): string {
+  const errorBody = json || text;
+  const bodyMessage = typeof errorBody === 'object' && typeof errorBody.error === 'object' ? errorBody.error.message : undefined;
+  if (status === 401) return 'Gemini invalid API key';
+  if (status === 404) {
+    if (typeof errorBody === 'string' && errorBody.includes('API key')) return 'Gemini API key not found or invalid';
+    if (bodyMessage) return `Gemini model not found: ${bodyMessage}`;
+    return 'Gemini API endpoint not found - check API key and model name';
+  }
+  if (status === 429) return 'Gemini rate limit exceeded';
+  if (status === 400) {
+    if (bodyMessage) return `Gemini request error: ${bodyMessage}`;
+    return 'Gemini bad request - check prompt content';
+  }
+  return `Gemini error ${status}`;
+}
+
+function missingGeminiKeyError(): AIProviderError {
+  return new AIProviderError({ provider: 'gemini', message: 'Gemini API key not set', status: 401, headers: {}, body: 'API key is required', durationMs: 0 });
+}
+
 // Persist providerState across reloads using indexeddb 'settings' store under key 'aiQuotaState'
 async function loadProviderState(): Promise<void> {
   try {
@@ -536,7 +566,7 @@ async function withQuotaGuard<T>(provider: string, fn: () => Promise<T>): Promis
   }
 }
 
-async function callOpenAI(prompt: string, modelOverride?: string): Promise<AIResult> {
+async function callOpenAI(prompt: string, modelOverride?: string, signal?: AbortSignal): Promise<AIResult> {
   return await withQuotaGuard('openai', async () => {
     const s = get(settings);
     const model = modelOverride || s.aiModel || 'gpt-4o-mini';
@@ -545,34 +575,15 @@ async function callOpenAI(prompt: string, modelOverride?: string): Promise<AIRes
     const res = await fetch(url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ model, messages: [{ role: 'user', content: prompt }], temperature: 0.2, apiKey: s.aiApiKey || undefined })
+      body: JSON.stringify({ model, messages: [{ role: 'user', content: prompt }], temperature: 0.2, apiKey: s.aiApiKey || undefined }),
+      signal
     });
     const durationMs = (performance.now?.() ?? Date.now()) - startedAt;
     if (!res.ok) {
       const headers = getOpenAIRateLimitHeaders(res);
       const { json, text } = await readBodySafely(res);
       const body = json ?? text;
-      const errorCode = typeof body?.error?.code === 'string' ? body.error.code : undefined;
-      const errorMessageFromBody =
-        typeof body?.error === 'string'
-          ? body.error
-          : (typeof body?.error?.message === 'string' ? body.error.message : undefined);
-
-      let baseMsg = `OpenAI error ${res.status}`;
-      if (res.status === 429 && errorCode === 'insufficient_quota') {
-        baseMsg = 'OpenAI insufficient quota';
-      } else if (res.status === 401 || errorCode === 'invalid_api_key') {
-        baseMsg = 'OpenAI invalid API key';
-      } else if (res.status === 429) {
-        baseMsg = 'OpenAI rate limit exceeded';
-      } else if (typeof errorMessageFromBody === 'string' && errorMessageFromBody) {
-        if (/api key not set/i.test(errorMessageFromBody)) {
-          baseMsg = 'OpenAI API key not set';
-        } else {
-          baseMsg = `OpenAI error ${res.status}: ${errorMessageFromBody}`;
-        }
-      }
-
+      const baseMsg = describeOpenAIError(res.status, body);
       throw new AIProviderError({ provider: 'openai', message: baseMsg, status: res.status, headers, body, durationMs });
     }
     const data = await res.json().catch(() => ({}));
@@ -583,6 +594,7 @@ async function callOpenAI(prompt: string, modelOverride?: string): Promise<AIRes
       model,
       requestId: res.headers.get('x-request-id') || res.headers.get('openai-request-id'),
       headers: getOpenAIRateLimitHeaders(res),
+      usage: usageFromResponse(data) || undefined,
       raw: data,
       httpStatus: res.status,
       durationMs,
@@ -617,6 +629,7 @@ async function callAnthropic(prompt: string, modelOverride?: string): Promise<AI
       model,
       requestId: res.headers.get('x-request-id'),
       headers: {},
+      usage: usageFromResponse(data) || undefined,
       raw: data,
       httpStatus: res.status,
       durationMs,
@@ -631,17 +644,7 @@ async function callGemini(prompt: string, modelOverride?: string): Promise<AIRes
     const key = s.aiApiKey || '';
     const model = modelOverride || s.aiSummaryModel || s.aiModel || 'gemini-1.5-flash';
     
-    // Validate API key before making request
-    if (!key || key.trim() === '') {
-      throw new AIProviderError({ 
-        provider: 'gemini', 
-        message: 'Gemini API key not set', 
-        status: 401, 
-        headers: {}, 
-        body: 'API key is required', 
-        durationMs: 0 
-      });
-    }
+    if (!key || key.trim() === '') throw missingGeminiKeyError();
     
     const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(key)}`;
     const startedAt = performance.now?.() ?? Date.now();
@@ -653,31 +656,7 @@ async function callGemini(prompt: string, modelOverride?: string): Promise<AIRes
     const durationMs = (performance.now?.() ?? Date.now()) - startedAt;
     const { json, text } = await readBodySafely(res);
     if (!res.ok) {
-      let message = `Gemini error ${res.status}`;
-      
-      // Handle specific Gemini error cases
-      if (res.status === 401) {
-        message = 'Gemini invalid API key';
-      } else if (res.status === 404) {
-        const errorBody = json || text;
-        if (typeof errorBody === 'string' && errorBody.includes('API key')) {
-          message = 'Gemini API key not found or invalid';
-        } else if (typeof errorBody === 'object' && errorBody?.error?.message) {
-          message = `Gemini model not found: ${errorBody.error.message}`;
-        } else {
-          message = 'Gemini API endpoint not found - check API key and model name';
-        }
-      } else if (res.status === 429) {
-        message = 'Gemini rate limit exceeded';
-      } else if (res.status === 400) {
-        const errorBody = json || text;
-        if (typeof errorBody === 'object' && errorBody?.error?.message) {
-          message = `Gemini request error: ${errorBody.error.message}`;
-        } else {
-          message = 'Gemini bad request - check prompt content';
-        }
-      }
-      
+      const message = describeGeminiError(res.status, json, text);
       throw new AIProviderError({ provider: 'gemini', message, status: res.status, headers: {}, body: json ?? text, durationMs });
     }
     const data = json ?? {};
@@ -688,6 +667,7 @@ async function callGemini(prompt: string, modelOverride?: string): Promise<AIRes
       model,
       requestId: res.headers.get('x-request-id'),
       headers: {},
+      usage: usageFromResponse(data) || undefined,
       raw: data,
       httpStatus: res.status,
       durationMs,
@@ -702,17 +682,7 @@ async function callGeminiWithParts(parts: any[], modelOverride?: string): Promis
     const key = s.aiApiKey || '';
     const model = modelOverride || s.aiSummaryModel || s.aiModel || 'gemini-1.5-flash';
     
-    // Validate API key before making request
-    if (!key || key.trim() === '') {
-      throw new AIProviderError({ 
-        provider: 'gemini', 
-        message: 'Gemini API key not set', 
-        status: 401, 
-        headers: {}, 
-        body: 'API key is required', 
-        durationMs: 0 
-      });
-    }
+    if (!key || key.trim() === '') throw missingGeminiKeyError();
     
     const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent?key=${encodeURIComponent(key)}`;
     const startedAt = performance.now?.() ?? Date.now();
@@ -724,31 +694,7 @@ async function callGeminiWithParts(parts: any[], modelOverride?: string): Promis
     const durationMs = (performance.now?.() ?? Date.now()) - startedAt;
     const { json, text } = await readBodySafely(res);
     if (!res.ok) {
-      let message = `Gemini error ${res.status}`;
-      
-      // Handle specific Gemini error cases
-      if (res.status === 401) {
-        message = 'Gemini invalid API key';
-      } else if (res.status === 404) {
-        const errorBody = json || text;
-        if (typeof errorBody === 'string' && errorBody.includes('API key')) {
-          message = 'Gemini API key not found or invalid';
-        } else if (typeof errorBody === 'object' && errorBody?.error?.message) {
-          message = `Gemini model not found: ${errorBody.error.message}`;
-        } else {
-          message = 'Gemini API endpoint not found - check API key and model name';
-        }
-      } else if (res.status === 429) {
-        message = 'Gemini rate limit exceeded';
-      } else if (res.status === 400) {
-        const errorBody = json || text;
-        if (typeof errorBody === 'object' && errorBody?.error?.message) {
-          message = `Gemini request error: ${errorBody.error.message}`;
-        } else {
-          message = 'Gemini bad request - check prompt content';
-        }
-      }
-      
+      const message = describeGeminiError(res.status, json, text);
       throw new AIProviderError({ provider: 'gemini', message, status: res.status, headers: {}, body: json ?? text, durationMs });
     }
     const data = json ?? {};
@@ -759,6 +705,7 @@ async function callGeminiWithParts(parts: any[], modelOverride?: string): Promis
       model,
       requestId: res.headers.get('x-request-id'),
       headers: {},
+      usage: usageFromResponse(data) || undefined,
       raw: data,
       httpStatus: res.status,
       durationMs,
@@ -767,6 +714,217 @@ async function callGeminiWithParts(parts: any[], modelOverride?: string): Promis
   });
 }
 
+export type AIStreamOptions = {
+  /** Receives each text fragment as it arrives */
+  onDelta: (delta: string) => void;
+  signal?: AbortSignal;
+};
+
+// Reads an SSE response to the end, forwarding text as it arrives; returns the full text and any usage the events carried
+async function collectStream(res: Response, extract: (event: unknown) => string, opts: AIStreamOptions): Promise<{ text: string; usage?: TokenUsage }> {
+  if (!res.body) return { text: '' };
+  let full = '';
+  let usage: TokenUsage | null = null;
+  for await (const data of readSSE(res.body, opts.signal)) {
+    if (data === '[DONE]') break;
+    let event: unknown;
+    try { event = JSON.parse(data); } catch { continue; }
+    const streamError = (event as { error?: { message?: string } })?.error;
+    if (streamError) throw new Error(streamError.message || 'AI stream error');
+    usage = mergeStreamUsage(usage, event);
+    const delta = extract(event);
+    if (!delta) continue;
+    full += delta;
+    opts.onDelta(delta);
+  }
+  return { text: full.trim(), usage: usage || undefined };
+}
+
+/**
+ * Streams straight from OpenAI with the user's key, like Anthropic and Gemini:
+ * the `/api/openai` proxy runs on Functions v3, which buffers whole responses.
+ * Without a key of their own (the proxy's server key), the reply arrives as one delta.
+ */
+async function streamOpenAI(prompt: string, model: string, opts: AIStreamOptions): Promise<AIResult> {
+  const s = get(settings);
+  if (!(s.aiApiKey || '').trim()) {
+    const out = await callOpenAI(prompt, model, opts.signal);
+    if (out.text) opts.onDelta(out.text);
+    return out;
+  }
+  return await withQuotaGuard('openai', async () => {
+    const startedAt = performance.now?.() ?? Date.now();
+    const res = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${s.aiApiKey}` },
+      // Streams end with a usage chunk so the token ledger sees every call
+      body: JSON.stringify({ model, messages: [{ role: 'user', content: prompt }], temperature: 0.2, stream: true, stream_options: { include_usage: true } }),
+      signal: opts.signal
+    });
+    if (!res.ok) {
+      const { json, text } = await readBodySafely(res);
+      const body = json ?? text;
+      const durationMs = (performance.now?.() ?? Date.now()) - startedAt;
+      throw new AIProviderError({ provider: 'openai', message: describeOpenAIError(res.status, body), status: res.status, headers: getOpenAIRateLimitHeaders(res), body, durationMs });
+    }
+    const { text, usage } = await collectStream(res, openAIStreamDelta, opts);
+    return {
+      text,
+      provider: 'openai',
+      model,
+      requestId: res.headers.get('x-request-id') || res.headers.get('openai-request-id'),
+      headers: getOpenAIRateLimitHeaders(res),
+      httpStatus: res.status,
+      durationMs: (performance.now?.() ?? Date.now()) - startedAt,
+      usage
+    };
+  });
+}
+
+async function streamAnthropic(prompt: string, model: string, opts: AIStreamOptions): Promise<AIResult> {
+  return await withQuotaGuard('anthropic', async () => {
+    const s = get(settings);
+    const startedAt = performance.now?.() ?? Date.now();
+    const res = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-api-key': s.aiApiKey || '', 'anthropic-version': '2023-06-01' },
+      body: JSON.stringify({ model, max_tokens: 400, stream: true, messages: [{ role: 'user', content: prompt }] }),
+      signal: opts.signal
+    });
+    if (!res.ok) {
+      const { json, text } = await readBodySafely(res);
+      const message = res.status === 429 ? 'Anthropic rate limit exceeded' : `Anthropic error ${res.status}`;
+      const durationMs = (performance.now?.() ?? Date.now()) - startedAt;
+      throw new AIProviderError({ provider: 'anthropic', message, status: res.status, headers: {}, body: json ?? text, durationMs });
+    }
+    const { text, usage } = await collectStream(res, anthropicStreamDelta, opts);
+    return {
+      text,
+      provider: 'anthropic',
+      model,
+      requestId: res.headers.get('x-request-id'),
+      headers: {},
+      httpStatus: res.status,
+      durationMs: (performance.now?.() ?? Date.now()) - startedAt,
+      usage
+    };
+  });
+}
+
+async function streamGemini(prompt: string, model: string, opts: AIStreamOptions): Promise<AIResult> {
+  return await withQuotaGuard('gemini', async () => {
+    const s = get(settings);
+    const key = s.aiApiKey || '';
+    if (!key || key.trim() === '') throw missingGeminiKeyError();
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse&key=${encodeURIComponent(key)}`;
+    const startedAt = performance.now?.() ?? Date.now();
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contents: [{ parts: [{ text: prompt }] }] }),
+      signal: opts.signal
+    });
+    if (!res.ok) {
+      const { json, text } = await readBodySafely(res);
+      const durationMs = (performance.now?.() ?? Date.now()) - startedAt;
+      throw new AIProviderError({ provider: 'gemini', message: describeGeminiError(res.status, json, text), status: res.status, headers: {}, body: json ?? text, durationMs });
+    }
+    const { text, usage } = await collectStream(res, geminiStreamDelta, opts);
+    return {
+      text,
+      provider: 'gemini',
+      model,
+      requestId: res.headers.get('x-request-id'),
+      headers: {},
+      httpStatus: res.status,
+      durationMs: (performance.now?.() ?? Date.now()) - startedAt,
+      usage
+    };
+  });
+}
+
+async function streamProvider(provider: AIProviderName, prompt: string, model: string, opts: AIStreamOptions, feature: AIFeature): Promise<AIResult> {
+  const out =
+    provider === 'anthropic' ? await streamAnthropic(prompt, model, opts)
+    : provider === 'gemini' ? await streamGemini(prompt, model, opts)
+    : provider === 'local' ? await callLocal(prompt, model, opts)
+    : await streamOpenAI(prompt, model, opts);
+  return trackUsage(feature, prompt, out);
+}
+
+// Model picked from `/models` when none is configured, per base URL
+const discoveredLocalModels: Record<string, string> = {};
+
+function localConfig() {
+  const s = get(settings);
+  return { baseUrl: s.aiBaseUrl || '', apiKey: s.aiApiKey || undefined };
+}
+
+/** Models served by the configured OpenAI-compatible endpoint. */
+export async function aiListLocalModels(): Promise<string[]> {
+  return await listModels(localConfig());
+}
+
+async function resolveLocalModel(modelOverride?: string): Promise<string> {
+  const model = modelOverride || get(settings).aiModel;
+  if (model) return model;
+  const config = localConfig();
+  if (!discoveredLocalModels[config.baseUrl]) {
+    const [first] = await listModels(config);
+    if (!first) throw new AIProviderError({ provider: 'local', message: 'Local AI server reports no models', status: 404 });
+    discoveredLocalModels[config.baseUrl] = first;
+  }
+  return discoveredLocalModels[config.baseUrl];
+}
+
+async function callLocal(prompt: string, modelOverride?: string, stream?: AIStreamOptions): Promise<AIResult> {
+  return await withQuotaGuard('local', async () => {
+    const model = await resolveLocalModel(modelOverride);
+    const out = await chatCompletion(localConfig(), { model, prompt, signal: stream?.signal, onDelta: stream?.onDelta });
+    return { text: out.text, provider: 'local', model: out.model, requestId: out.requestId, headers: {}, raw: out.raw, httpStatus: out.status, durationMs: out.durationMs, usage: out.usage };
+  });
+}
+
+async function callProvider(provider: AIProviderName, prompt: string, model: string | undefined, feature: AIFeature): Promise<AIResult> {
+  const out =
+    provider === 'anthropic' ? await callAnthropic(prompt, model)
+    : provider === 'gemini' ? await callGemini(prompt, model)
+    : provider === 'local' ? await callLocal(prompt, model)
+    : await callOpenAI(prompt, model);
+  return trackUsage(feature, prompt, out);
+}
+
+/**
+ * Adds a finished call to the usage ledger. Responses without usage metadata
+ * are estimated from the prompt and reply length; cache hits cost nothing.
+ */
+function trackUsage(feature: AIFeature, prompt: string, out: AIResult): AIResult {
+  if (out.cached) return out;
+  const usage = out.usage || { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(out.text) };
+  void recordAIUsage({ feature, provider: out.provider || 'unknown', model: out.model || '', usage, estimated: !out.usage });
+  return out;
+}
+
+function partsText(parts: Array<{ text?: unknown }>): string {
+  return parts.map((p) => (typeof p?.text === 'string' ? p.text : '')).join('');
+}
+
+/**
+ * Vendor default for a task. Local servers have no universal model name, so
+ * they get '' and the first model the server lists is used instead.
+ */
+function defaultModel(provider: AIProviderName, kind: 'summary' | 'draft'): string {
+  if (provider === 'gemini') return kind === 'draft' ? 'gemini-1.5-pro' : 'gemini-1.5-flash';
+  if (provider === 'anthropic') return 'claude-3-haiku-20240307';
+  if (provider === 'local') return '';
+  return 'gpt-4o-mini';
+}
+
+/** True for the error fetch and stream readers throw when their signal aborts. */
+export function isAIAbortError(e: unknown): boolean {
+  return e instanceof DOMException ? e.name === 'AbortError' : (e as { name?: string } | null)?.name === 'AbortError';
+}
+
 import { enqueueGemini, getPendingCount } from '$lib/ai/geminiClient';
 
 export type AISummaryResult = {
@@ -785,7 +943,7 @@ export async function aiSummarizeEmailWithDiagnostics(
   attachments?: GmailAttachment[],
   threadId?: string,
   messageId?: string,
-  options?: { force?: boolean }
+  options?: { force?: boolean; stream?: AIStreamOptions }
 ): Promise<AISummaryResult> {
   const cached = await loadCachedThreadSummary(threadId);
   if (cached && !options?.force) {
@@ -828,7 +986,8 @@ export async function aiSummarizeEmailWithDiagnostics(
     defaultGeminiModel: context.defaultGeminiModel,
     combinedForHash: context.combinedForHash,
     partsForGemini: context.partsForGemini,
-    sanitizedParts: context.sanitizedParts
+    sanitizedParts: context.sanitizedParts,
+    stream: options?.stream
   });
   const now = new Date().toISOString();
   const diagnostics: AISummaryDiagnostics = {
@@ -884,28 +1043,49 @@ export async function aiSummarizeSubject(subject: string, bodyText?: string, bod
     ? `${getSubjectImprovementWithSummaryPrompt()}\n\n${redacted}`
     : `${getSubjectImprovementWithContentPrompt()}\n\n${redacted}`;
   const provider = s.aiProvider || 'gemini';
-  const model = s.aiSummaryModel || s.aiModel || (provider === 'gemini' ? 'gemini-1.5-flash' : provider === 'anthropic' ? 'claude-3-haiku-20240307' : 'gpt-4o-mini');
-  const out = provider === 'anthropic' ? await callAnthropic(prompt, model) : provider === 'gemini' ? await callGemini(prompt, model) : await callOpenAI(prompt, model);
+  const model = s.aiSummaryModel || s.aiModel || defaultModel(provider, 'summary');
+  const out = await callProvider(provider, prompt, model, 'subject');
   const result = finalizeSubjectText(out.text || '', subject);
   return result || subject || '';
 }
 
-export async function aiDraftReply(subject: string, bodyText?: string, bodyHtml?: string): Promise<string> {
+/** Drafts a reply to the last message of a conversation; see `loadReplyDraftInput` for the context. */
+export async function aiDraftReply(input: ReplyDraftInput, stream?: AIStreamOptions): Promise<string> {
   const s = get(settings);
-  const text = bodyText || htmlToText(bodyHtml) || '';
-  const redacted = redactPII(`${subject}\n\n${text}`);
-  const prompt = `${getReplyDraftPrompt()}\nSubject: ${subject}\nEmail:\n${redacted}`;
+  const prompt = redactPII(buildReplyDraftPrompt(input));
   const provider = s.aiProvider || 'gemini';
-  const model = s.aiDraftModel || s.aiModel || (provider === 'gemini' ? 'gemini-1.5-pro' : provider === 'anthropic' ? 'claude-3-haiku-20240307' : 'gpt-4o-mini');
-  const out = provider === 'anthropic' ? await callAnthropic(prompt, model) : provider === 'gemini' ? await callGemini(prompt, model) : await callOpenAI(prompt, model);
+  const model = s.aiDraftModel || s.aiModel || defaultModel(provider, 'draft');
+  if (stream) return (await streamProvider(provider, prompt, model, stream, 'draft')).text;
+  const out = await callProvider(provider, prompt, model, 'draft');
   return out.text;
 }
 
+/** Answers a question from cached threads; the answer cites `sources` as [1], [2], … */
+export async function aiAskInbox(input: { question: string; sources: ChatSource[]; history: ChatTurn[] }, stream?: AIStreamOptions): Promise<string> {
+  const s = get(settings);
+  const prompt = buildInboxChatPrompt(input);
+  const sent = s.aiChatRedactPII === false ? prompt : redactPII(prompt);
+  const provider = s.aiProvider || 'gemini';
+  const model = s.aiDraftModel || s.aiModel || defaultModel(provider, 'draft');
+  if (stream) return (await streamProvider(provider, sent, model, stream, 'chat')).text;
+  return (await callProvider(provider, sent, model, 'chat')).text;
+}
+
+/** Extracts typed cards from `cardExtractionText` output; throws when the reply is not valid JSON. */
+export async function aiExtractCards(text: string): Promise<ThreadCard[]> {
+  const s = get(settings);
+  const prompt = buildCardExtractionPrompt(redactPII(text, { keepNumbers: true }));
+  const provider = s.aiProvider || 'gemini';
+  const model = s.aiSummaryModel || s.aiModel || defaultModel(provider, 'summary');
+  const out = await callProvider(provider, prompt, model, 'cards');
+  return parseCards(out.text || '');
+}
+
 export async function aiSummarizeAttachment(subject: string | undefined, attachment: GmailAttachment): Promise<string> {
   const s = get(settings);
   const provider = s.aiProvider || 'gemini';
   // Prefer multimodal for attachments that include bytes
-  let model = s.aiSummaryModel || s.aiModel || (provider === 'gemini' ? 'gemini-1.5-flash' : provider === 'anthropic' ? 'claude-3-haiku-20240307' : 'gpt-4o-mini');
+  let model = s.aiSummaryModel || s.aiModel || defaultModel(provider, 'summary');
   if (provider === 'gemini') {
     // Ensure a 1.5 model for inline files when possible
     if (!/^gemini-1\.5/i.test(model)) model = 'gemini-1.5-flash';
@@ -922,7 +1102,7 @@ export async function aiSummarizeAttachment(subject: string | undefined, attachm
     if (subject && subject.trim()) parts.push({ text: `\n\nSubject: ${subject.trim()}` });
     parts.push({ text: `\n\n${preface}` });
     parts.push({ inlineData: { mimeType: attachment.mimeType, data: attachment.dataBase64 } });
-    const out = await callGeminiWithParts(parts, model);
+    const out = trackUsage('attachment', partsText(parts), await callGeminiWithParts(parts, model));
     return out.text || '';
   }
 
@@ -932,13 +1112,13 @@ export async function aiSummarizeAttachment(subject: string | undefined, attachm
     const clipped = content.length > 4000 ? content.slice(0, 4000) : content;
     const redacted = redactPII(clipped);
     const textPrompt = `${prompt}\n\n${preface}\n\n${redacted}`;
-    const out = provider === 'anthropic' ? await callAnthropic(textPrompt, model) : provider === 'gemini' ? await callGemini(textPrompt, model) : await callOpenAI(textPrompt, model);
+    const out = await callProvider(provider, textPrompt, model, 'attachment');
     return out.text || '';
   }
 
   // Fallback: no content available; ask model to summarize based on name/type only
   const fallbackPrompt = `${prompt}\n\n${preface}`;
-  const out = provider === 'anthropic' ? await callAnthropic(fallbackPrompt, model) : provider === 'gemini' ? await callGemini(fallbackPrompt, model) : await callOpenAI(fallbackPrompt, model);
+  const out = await callProvider(provider, fallbackPrompt, model, 'attachment');
   return out.text || '';
 }
 
@@ -979,7 +1159,7 @@ export async function aiExtractUnsubscribeUrl(subject: string, bodyText?: string
   const redacted = redactPII(`${subject}\n\n${text}`);
   const prompt = `${getUnsubscribeExtractionPrompt()}\n\n${redacted}`;
   const provider = s.aiProvider || 'gemini';
-  const out = provider === 'anthropic' ? await callAnthropic(prompt) : provider === 'gemini' ? await callGemini(prompt) : await callOpenAI(prompt);
+  const out = await callProvider(provider, prompt, undefined, 'unsubscribe');
   const line = (out.text || '').trim();
   if (!line || /^none$/i.test(line)) return null;
   if (/^(https?:|mailto:)/i.test(line)) return line;
@@ -1005,16 +1185,8 @@ export async function aiRunModeration(
   const fullPrompt = `${prompt}\n\n${redacted}`;
   
   // Use the summary model from settings, falling back to appropriate defaults
-  const model = s.aiSummaryModel || s.aiModel || (provider === 'gemini' ? 'gemini-1.5-flash' : provider === 'anthropic' ? 'claude-3-haiku-20240307' : 'gpt-4o-mini');
-  
-  let out: AIResult;
-  if (provider === 'anthropic') {
-    out = await callAnthropic(fullPrompt, s.aiSummaryModel || s.aiModel || 'claude-3-haiku-20240307');
-  } else if (provider === 'gemini') {
-    out = await callGemini(fullPrompt, model);
-  } else {
-    out = await callOpenAI(fullPrompt, s.aiSummaryModel || s.aiModel || 'gpt-4o-mini');
-  }
+  const model = s.aiSummaryModel || s.aiModel || defaultModel(provider, 'summary');
+  const out = await callProvider(provider, fullPrompt, model, 'moderation');
   
   const raw = (out.text || '').trim();
   const normalized = raw.toUpperCase();
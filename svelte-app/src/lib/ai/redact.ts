@@ -1,7 +1,8 @@
-export function redactPII(input: string): string {
+/** `keepNumbers` leaves digit runs alone; order and tracking numbers look like phone numbers. */
+export function redactPII(input: string, opts: { keepNumbers?: boolean } = {}): string {
   let out = input;
   out = out.replace(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, '[EMAIL]');
-  out = out.replace(/\b\+?\d[\d\s().-]{7,}\b/g, '[PHONE]');
+  if (!opts.keepNumbers) out = out.replace(/\b\+?\d[\d\s().-]{7,}\b/g, '[PHONE]');
   out = out.replace(/\b(?:[A-F0-9]{8}-){3,}[A-F0-9]{4}\b/gi, '[ID]');
   out = out.replace(/\b[a-f0-9]{32,}\b/gi, '[TOKEN]');
   return out;
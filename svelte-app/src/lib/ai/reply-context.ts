@@ -0,0 +1,54 @@
+import { get } from 'svelte/store';
+import { getDB } from '$lib/db/indexeddb';
+import { getMessageFull, searchMessageIds } from '$lib/gmail/api';
+import { messages as messagesStore } from '$lib/stores/threads';
+import { extractEmail, getHeader } from '$lib/compose/message';
+import type { GmailMessage } from '$lib/types';
+import { MAX_STYLE_EXAMPLES, toReplyThreadMessages, toStyleExample, type ReplyDraftInput, type ReplyTone } from './reply-prompt';
+
+/** Cached messages of a thread, preferring the in-memory copies (they may carry full bodies). */
+async function loadThreadMessages(original: GmailMessage): Promise<GmailMessage[]> {
+  const db = await getDB();
+  const cached = await db.getAllFromIndex('messages', 'by_threadId', original.threadId);
+  const live = get(messagesStore);
+  const byId = new Map(cached.map((m) => [m.id, live[m.id] || m]));
+  byId.set(original.id, original);
+  return Array.from(byId.values());
+}
+
+/**
+ * Earlier emails the user sent to `address`, newest first. Gmail search finds
+ * them across the whole mailbox; offline, the local cache is scanned instead.
+ */
+async function loadSentTo(address: string, excludeThreadId: string): Promise<GmailMessage[]> {
+  try {
+    const ids = await searchMessageIds(`in:sent to:${address}`, MAX_STYLE_EXAMPLES * 3);
+    const out: GmailMessage[] = [];
+    for (const id of ids) {
+      if (out.length >= MAX_STYLE_EXAMPLES) break;
+      const m = await getMessageFull(id);
+      if (m.threadId !== excludeThreadId) out.push(m);
+    }
+    return out;
+  } catch (_) {
+    const db = await getDB();
+    const all = await db.getAll('messages');
+    return all
+      .filter((m) => m.threadId !== excludeThreadId && (m.labelIds || []).includes('SENT') && getHeader(m.headers, 'To').toLowerCase().includes(address))
+      .sort((a, b) => (b.internalDate || 0) - (a.internalDate || 0))
+      .slice(0, MAX_STYLE_EXAMPLES);
+  }
+}
+
+/** Everything a thread-aware reply draft needs: the conversation and the user's own style. */
+export async function loadReplyDraftInput(original: GmailMessage, selfEmail: string, tone: ReplyTone): Promise<ReplyDraftInput> {
+  const thread = await loadThreadMessages(original);
+  const sender = extractEmail(getHeader(original.headers, 'Reply-To') || getHeader(original.headers, 'From'));
+  const sent = sender && sender !== selfEmail.toLowerCase() ? await loadSentTo(sender, original.threadId) : [];
+  return {
+    subject: getHeader(original.headers, 'Subject'),
+    messages: toReplyThreadMessages(thread, selfEmail),
+    styleExamples: sent.map(toStyleExample).filter(Boolean),
+    tone
+  };
+}
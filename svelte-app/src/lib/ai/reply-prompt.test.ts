@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { buildReplyDraftPrompt, stripQuotedReply, toReplyThreadMessages } from './reply-prompt';
+import type { GmailMessage } from '$lib/types';
+
+const msg = (id: string, from: string, internalDate: number, bodyText: string, labelIds: string[] = []): GmailMessage => ({
+  id,
+  threadId: 't1',
+  headers: { From: from },
+  labelIds,
+  internalDate,
+  bodyText
+});
+
+describe('stripQuotedReply', () => {
+  it('cuts quoted history and attribution lines', () => {
+    const text = 'Sounds good.\n\nOn Mon, Jan 1, 2024, Bob <bob@x.com> wrote:\n> earlier\n> text';
+    expect(stripQuotedReply(text)).toBe('Sounds good.');
+    expect(stripQuotedReply('Hi\n> quoted\nthere')).toBe('Hi\nthere');
+  });
+});
+
+describe('toReplyThreadMessages', () => {
+  it('orders by date, marks my messages and drops empty ones', () => {
+    const out = toReplyThreadMessages(
+      [
+        msg('b', 'Me <me@x.com>', 2, 'Thursday works.'),
+        msg('a', '"Ann Lee" <ann@y.com>', 1, 'Can we meet?'),
+        msg('c', 'Ann Lee <ann@y.com>', 3, '> only a quote')
+      ],
+      'ME@x.com'
+    );
+    expect(out.map((m) => [m.from, m.fromSelf])).toEqual([
+      ['Ann Lee', false],
+      ['Me', true]
+    ]);
+  });
+});
+
+describe('buildReplyDraftPrompt', () => {
+  it('includes the tone, conversation and style examples', () => {
+    const prompt = buildReplyDraftPrompt({
+      subject: 'Lunch',
+      tone: 'decline',
+      messages: [{ from: 'Ann', text: 'Lunch Friday?', fromSelf: false }],
+      styleExamples: ['Hey Ann,\nCheers, M']
+    });
+    expect(prompt).toContain('Decline politely');
+    expect(prompt).toContain('--- Ann:\nLunch Friday?');
+    expect(prompt).toContain('--- Example 1:\nHey Ann,');
+  });
+});
@@ -0,0 +1,105 @@
+import type { GmailMessage } from '$lib/types';
+import { extractEmail, getHeader, messagePlainText } from '../compose/message';
+import { AI_PROMPTS, getReplyTonePrompt, getThreadReplyDraftPrompt } from './prompts';
+
+export type ReplyTone = keyof typeof AI_PROMPTS.REPLY_DRAFT.TONES;
+
+export const REPLY_TONES: Array<{ key: ReplyTone; label: string }> = [
+  { key: 'default', label: 'Brief and polite' },
+  { key: 'confirm', label: 'Confirm' },
+  { key: 'decline', label: 'Decline politely' },
+  { key: 'ask_details', label: 'Ask for details' },
+  { key: 'short', label: 'One-liner' },
+  { key: 'detailed', label: 'Detailed' }
+];
+
+export function isReplyTone(value: unknown): value is ReplyTone {
+  return REPLY_TONES.some((t) => t.key === value);
+}
+
+/** One message of the conversation as the model sees it. */
+export type ReplyThreadMessage = {
+  from: string;
+  date?: number;
+  text: string;
+  fromSelf: boolean;
+};
+
+export type ReplyDraftInput = {
+  subject: string;
+  /** Oldest first; the reply answers the last one */
+  messages: ReplyThreadMessage[];
+  /** Bodies of earlier replies the user sent to the same person */
+  styleExamples: string[];
+  tone: ReplyTone;
+};
+
+const MAX_THREAD_MESSAGES = 8;
+const MAX_MESSAGE_CHARS = 2000;
+const MAX_EXAMPLE_CHARS = 800;
+export const MAX_STYLE_EXAMPLES = 3;
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max).trimEnd()} …` : text;
+}
+
+/** Drops quoted history so each message contributes only what its author wrote. */
+export function stripQuotedReply(text: string): string {
+  const out: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (/^\s*On .+wrote:\s*$/.test(line) || /^-{2,}\s*(Original Message|Forwarded message)/i.test(line.trim())) break;
+    if (line.trimStart().startsWith('>')) continue;
+    out.push(line);
+  }
+  return out.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/** `Jane Doe <jane@x.com>` → `Jane Doe`; bare addresses are kept. */
+function displayName(from: string): string {
+  const name = from.replace(/<[^>]*>/g, '').replace(/"/g, '').trim();
+  return name || from.trim();
+}
+
+export function toReplyThreadMessages(messages: GmailMessage[], selfEmail: string): ReplyThreadMessage[] {
+  const self = selfEmail.toLowerCase();
+  return messages
+    .slice()
+    .sort((a, b) => (a.internalDate || 0) - (b.internalDate || 0))
+    .map((m) => {
+      const from = getHeader(m.headers, 'From');
+      return {
+        from: displayName(from) || 'Unknown sender',
+        date: m.internalDate,
+        text: clip(stripQuotedReply(messagePlainText(m)), MAX_MESSAGE_CHARS),
+        fromSelf: (!!self && extractEmail(from) === self) || (m.labelIds || []).includes('SENT')
+      };
+    })
+    .filter((m) => !!m.text)
+    .slice(-MAX_THREAD_MESSAGES);
+}
+
+export function toStyleExample(m: GmailMessage): string {
+  return clip(stripQuotedReply(messagePlainText(m)), MAX_EXAMPLE_CHARS);
+}
+
+export function buildReplyDraftPrompt(input: ReplyDraftInput): string {
+  const conversation = input.messages
+    .map((m) => {
+      const when = m.date ? ` (${new Date(m.date).toISOString().slice(0, 10)})` : '';
+      return `--- ${m.fromSelf ? 'Me' : m.from}${when}:\n${m.text}`;
+    })
+    .join('\n\n');
+  const examples = input.styleExamples
+    .filter((e) => e.trim())
+    .slice(0, MAX_STYLE_EXAMPLES)
+    .map((e, i) => `--- Example ${i + 1}:\n${e}`)
+    .join('\n\n');
+  const parts = [
+    getThreadReplyDraftPrompt(),
+    getReplyTonePrompt(input.tone),
+    `Subject: ${input.subject}`,
+    `Conversation (oldest first):\n${conversation}`
+  ];
+  if (examples) parts.push(`Examples of my previous emails to this person:\n${examples}`);
+  return parts.join('\n\n');
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { anthropicStreamDelta, createSSEParser, geminiStreamDelta, openAIStreamDelta } from './sse';
+
+describe('createSSEParser', () => {
+  it('emits data across chunk boundaries and ignores other fields', () => {
+    const p = createSSEParser();
+    expect(p.push(': keepalive\nevent: message\ndata: {"a"')).toEqual([]);
+    expect(p.push(':1}\r')).toEqual([]);
+    expect(p.push('\n\r\ndata: one\ndata: two\n\n')).toEqual(['{"a":1}', 'one\ntwo']);
+  });
+
+  it('flushes a final event without a trailing blank line', () => {
+    const p = createSSEParser();
+    expect(p.push('data: [DONE]')).toEqual([]);
+    expect(p.flush()).toEqual(['[DONE]']);
+  });
+});
+
+describe('stream deltas', () => {
+  it('reads text from each provider event shape', () => {
+    expect(geminiStreamDelta({ candidates: [{ content: { parts: [{ text: 'He' }, { text: 'llo' }] } }] })).toBe('Hello');
+    expect(openAIStreamDelta({ choices: [{ delta: { content: 'Hi' } }] })).toBe('Hi');
+    expect(openAIStreamDelta({ choices: [{ delta: { role: 'assistant' } }] })).toBe('');
+    expect(anthropicStreamDelta({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Yo' } })).toBe('Yo');
+    expect(anthropicStreamDelta({ type: 'message_start', message: {} })).toBe('');
+  });
+});
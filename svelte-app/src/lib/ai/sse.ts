@@ -0,0 +1,87 @@
+/**
+ * Minimal server-sent events reader for provider streaming endpoints. Only
+ * `data:` fields matter to us; multi-line data is joined with newlines and
+ * comments, `event:`, `id:` and `retry:` lines are ignored.
+ */
+export function createSSEParser(): { push(chunk: string): string[]; flush(): string[] } {
+  let buffer = '';
+  let data: string[] = [];
+
+  function takeLine(line: string, out: string[]) {
+    if (line === '') {
+      if (data.length) out.push(data.join('\n'));
+      data = [];
+      return;
+    }
+    if (line.startsWith(':')) return;
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    if (field !== 'data') return;
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    data.push(value);
+  }
+
+  return {
+    push(chunk: string): string[] {
+      buffer += chunk;
+      const out: string[] = [];
+      let idx: number;
+      while ((idx = buffer.search(/\r\n|\r|\n/)) !== -1) {
+        const line = buffer.slice(0, idx);
+        const sep = buffer.startsWith('\r\n', idx) ? 2 : 1;
+        // A trailing \r may be the first half of \r\n; wait for the next chunk
+        if (sep === 1 && buffer[idx] === '\r' && idx === buffer.length - 1) break;
+        buffer = buffer.slice(idx + sep);
+        takeLine(line, out);
+      }
+      return out;
+    },
+    flush(): string[] {
+      const out: string[] = [];
+      if (buffer) takeLine(buffer.replace(/\r$/, ''), out);
+      buffer = '';
+      takeLine('', out);
+      return out;
+    }
+  };
+}
+
+/** Yields each event's data from a streaming response body until it ends or the signal aborts. */
+export async function* readSSE(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createSSEParser();
+  try {
+    while (true) {
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield* parser.push(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.push(decoder.decode());
+    yield* parser.flush();
+  } finally {
+    try { await reader.cancel(); } catch { /* best-effort */ }
+  }
+}
+
+/** Text added by one `streamGenerateContent?alt=sse` event. */
+export function geminiStreamDelta(event: unknown): string {
+  const parts = (event as { candidates?: Array<{ content?: { parts?: Array<{ text?: unknown }> } }> })?.candidates?.[0]?.content?.parts;
+  if (!Array.isArray(parts)) return '';
+  return parts.map((p) => (typeof p?.text === 'string' ? p.text : '')).join('');
+}
+
+/** Text added by one chat completions stream chunk. */
+export function openAIStreamDelta(event: unknown): string {
+  const content = (event as { choices?: Array<{ delta?: { content?: unknown } }> })?.choices?.[0]?.delta?.content;
+  return typeof content === 'string' ? content : '';
+}
+
+/** Text added by one Messages API stream event; only `content_block_delta` carries text. */
+export function anthropicStreamDelta(event: unknown): string {
+  const e = event as { type?: string; delta?: { type?: string; text?: unknown } };
+  if (e?.type !== 'content_block_delta') return '';
+  return typeof e.delta?.text === 'string' ? e.delta.text : '';
+}
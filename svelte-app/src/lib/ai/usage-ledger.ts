@@ -0,0 +1,57 @@
+import { getDB } from '$lib/db/indexeddb';
+import type { AppSettings } from '$lib/stores/settings';
+import type { AIUsageBucket } from '$lib/types';
+import { addToBucket, budgetStatus, localDay, monthStartDay, usageBucketKey, type AIBudgets, type BudgetStatus, type UsageRecord } from './usage';
+
+// Writes run one at a time so concurrent calls on the same bucket do not lose counts
+let writeChain: Promise<void> = Promise.resolve();
+
+/** Adds a provider response to its day bucket in IndexedDB. Never throws. */
+export function recordAIUsage(record: UsageRecord): Promise<void> {
+  const at = record.at ?? Date.now();
+  writeChain = writeChain.then(async () => {
+    try {
+      const db = await getDB();
+      const key = usageBucketKey(localDay(at), record.feature, record.provider, record.model || 'unknown');
+      const tx = db.transaction('aiUsage', 'readwrite');
+      const existing = await tx.store.get(key);
+      await tx.store.put(addToBucket(existing, { ...record, at }));
+      await tx.done;
+    } catch (_) {
+      /* best-effort */
+    }
+  });
+  return writeChain;
+}
+
+/** Buckets from `fromDay` (YYYY-MM-DD) onwards. */
+export async function loadAIUsage(fromDay: string): Promise<AIUsageBucket[]> {
+  const db = await getDB();
+  return await db.getAllFromIndex('aiUsage', 'by_day', IDBKeyRange.lowerBound(fromDay));
+}
+
+export async function clearAIUsage(): Promise<void> {
+  const db = await getDB();
+  await db.clear('aiUsage');
+}
+
+export function budgetsFromSettings(s: AppSettings): AIBudgets {
+  return {
+    dailyTokens: s.aiBudgetDailyTokens,
+    monthlyTokens: s.aiBudgetMonthlyTokens,
+    monthlyUsd: s.aiBudgetMonthlyUsd,
+    featureDailyTokens: s.aiBudgetFeatureDailyTokens
+  };
+}
+
+/** Budget state for background work; interactive calls never consult it. */
+export async function getAIBudgetStatus(s: AppSettings, now = Date.now()): Promise<BudgetStatus> {
+  const budgets = budgetsFromSettings(s);
+  const hasFeatureCaps = Object.values(budgets.featureDailyTokens || {}).some((v) => !!v);
+  if (!budgets.dailyTokens && !budgets.monthlyTokens && !budgets.monthlyUsd && !hasFeatureCaps) return { exceeded: null, features: {} };
+  try {
+    return budgetStatus(await loadAIUsage(monthStartDay(now)), budgets, now);
+  } catch (_) {
+    return { exceeded: null, features: {} };
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { addToBucket, budgetStatus, dailyUsage, estimateCostUsd, localDay, mergeStreamUsage, usageFromResponse } from './usage';
+import type { AIUsageBucket } from '$lib/types';
+
+const NOW = new Date(2025, 2, 15, 10).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+function bucket(at: number, feature: AIUsageBucket['feature'], tokens: number, model = 'gpt-4o-mini'): AIUsageBucket {
+  return addToBucket(undefined, { feature, provider: 'openai', model, usage: { inputTokens: tokens, outputTokens: 0 }, at });
+}
+
+describe('usageFromResponse', () => {
+  it('reads OpenAI, Anthropic and Gemini shapes', () => {
+    expect(usageFromResponse({ usage: { prompt_tokens: 120, completion_tokens: 30 } })).toEqual({ inputTokens: 120, outputTokens: 30 });
+    expect(usageFromResponse({ usage: { input_tokens: 50, output_tokens: 9 } })).toEqual({ inputTokens: 50, outputTokens: 9 });
+    expect(usageFromResponse({ usageMetadata: { promptTokenCount: 400, candidatesTokenCount: 60, thoughtsTokenCount: 40 } })).toEqual({ inputTokens: 400, outputTokens: 100 });
+    expect(usageFromResponse({ choices: [] })).toBeNull();
+  });
+
+  it('keeps the running totals of a stream', () => {
+    let seen = mergeStreamUsage(null, { type: 'message_start', message: { usage: { input_tokens: 25, output_tokens: 1 } } });
+    seen = mergeStreamUsage(seen, { type: 'content_block_delta', delta: { text: 'Hi' } });
+    seen = mergeStreamUsage(seen, { type: 'message_delta', usage: { output_tokens: 15 } });
+    expect(seen).toEqual({ inputTokens: 25, outputTokens: 15 });
+  });
+});
+
+describe('ledger buckets', () => {
+  it('accumulates calls and prices known models', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000 };
+    expect(estimateCostUsd('openai', 'gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(0.75);
+    expect(estimateCostUsd('gemini', 'gemini-1.5-flash', usage)).toBeCloseTo(0.375);
+    expect(estimateCostUsd('local', 'gpt-4o-mini', usage)).toBe(0);
+
+    const first = bucket(NOW, 'summary', 100);
+    const both = addToBucket(first, { feature: 'summary', provider: 'openai', model: 'gpt-4o-mini', usage: { inputTokens: 10, outputTokens: 5 }, estimated: true, at: NOW });
+    expect(both).toMatchObject({ key: `${localDay(NOW)}|summary|openai|gpt-4o-mini`, calls: 2, inputTokens: 110, outputTokens: 5, estimatedCalls: 1 });
+  });
+
+  it('charts every day of the window', () => {
+    const series = dailyUsage([bucket(NOW, 'summary', 10), bucket(NOW, 'draft', 5), bucket(NOW - 2 * DAY, 'moderation', 7)], 3, NOW);
+    expect(series.map((d) => d.tokens)).toEqual([7, 0, 15]);
+    expect(series[2].byFeature).toEqual({ summary: 10, draft: 5 });
+  });
+});
+
+describe('budgetStatus', () => {
+  const buckets = [bucket(NOW, 'summary', 800), bucket(NOW, 'moderation', 300), bucket(NOW - 3 * DAY, 'summary', 5000)];
+
+  it('passes when no budget is set or none is reached', () => {
+    expect(budgetStatus(buckets, {}, NOW)).toEqual({ exceeded: null, features: {} });
+    expect(budgetStatus(buckets, { dailyTokens: 2000, monthlyTokens: 10000 }, NOW).exceeded).toBeNull();
+  });
+
+  it('reports daily, monthly and per-feature limits', () => {
+    expect(budgetStatus(buckets, { dailyTokens: 1000 }, NOW).exceeded).toContain('Daily AI budget reached (1,100 of 1,000 tokens)');
+    expect(budgetStatus(buckets, { monthlyTokens: 6000 }, NOW).exceeded).toContain('Monthly AI budget');
+    // Usage from the previous month does not count
+    expect(budgetStatus(buckets, { monthlyTokens: 6000 }, new Date(2025, 3, 1, 9).getTime()).exceeded).toBeNull();
+    expect(budgetStatus(buckets, { featureDailyTokens: { moderation: 300, summary: 1000 } }, NOW).features).toEqual({
+      moderation: 'Moderation daily budget reached (300 of 300 tokens)'
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import type { AIFeature, AIUsageBucket } from '$lib/types';
+
+export type TokenUsage = { inputTokens: number; outputTokens: number };
+
+/** One provider response as the ledger records it. */
+export type UsageRecord = {
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  /** The provider reported no usage and the tokens were estimated */
+  estimated?: boolean;
+  /** Ran through the Gemini Batch API, billed at half price */
+  batch?: boolean;
+  at?: number;
+};
+
+export const AI_FEATURES: Array<{ key: AIFeature; label: string }> = [
+  { key: 'summary', label: 'Summaries' },
+  { key: 'subject', label: 'Subjects' },
+  { key: 'moderation', label: 'Moderation' },
+  { key: 'draft', label: 'Reply drafts' },
+  { key: 'attachment', label: 'Attachments' },
+  { key: 'unsubscribe', label: 'Unsubscribe' },
+  { key: 'search', label: 'Search index' },
+  { key: 'chat', label: 'Inbox chat' },
+  { key: 'cards', label: 'Cards' }
+];
+
+type ModelPrice = { input: number; output: number };
+
+// USD per million tokens from the vendors' public price lists; the longest matching prefix wins
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-004': { input: 0, output: 0 },
+  'gemini-embedding-001': { input: 0.15, output: 0 }
+};
+
+function count(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function sum(...values: Array<number | undefined>): number | undefined {
+  const present = values.filter((v): v is number => v !== undefined);
+  return present.length ? present.reduce((a, b) => a + b, 0) : undefined;
+}
+
+/**
+ * Token counts from a provider response body or stream event: OpenAI-style
+ * `usage.prompt_tokens`, Anthropic `usage.input_tokens` (also inside
+ * `message_start`) and Gemini `usageMetadata`. Null when the body carries none.
+ */
+export function usageFromResponse(raw: unknown): TokenUsage | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const body = raw as { usage?: Record<string, unknown>; message?: { usage?: Record<string, unknown> }; usageMetadata?: Record<string, unknown> };
+  let input: number | undefined;
+  let output: number | undefined;
+  const gemini = body.usageMetadata;
+  const usage = body.usage || body.message?.usage;
+  if (gemini) {
+    input = count(gemini.promptTokenCount);
+    output = sum(count(gemini.candidatesTokenCount), count(gemini.thoughtsTokenCount));
+  } else if (usage) {
+    input = sum(count(usage.prompt_tokens), count(usage.input_tokens), count(usage.cache_read_input_tokens), count(usage.cache_creation_input_tokens));
+    output = sum(count(usage.completion_tokens), count(usage.output_tokens));
+  }
+  if (input === undefined && output === undefined) return null;
+  return { inputTokens: input || 0, outputTokens: output || 0 };
+}
+
+/**
+ * Folds a stream event into the usage seen so far. Providers report running
+ * totals (Gemini on every chunk, Anthropic in `message_delta`), so the larger
+ * count wins.
+ */
+export function mergeStreamUsage(seen: TokenUsage | null, event: unknown): TokenUsage | null {
+  const next = usageFromResponse(event);
+  if (!next) return seen;
+  if (!seen) return next;
+  return { inputTokens: Math.max(seen.inputTokens, next.inputTokens), outputTokens: Math.max(seen.outputTokens, next.outputTokens) };
+}
+
+/** Rough count for responses without usage metadata: about four characters per token. */
+export function estimateTokens(text: string): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+export function estimateCostUsd(provider: string, model: string, usage: TokenUsage): number {
+  if (provider === 'local') return 0;
+  const name = (model || '').toLowerCase().replace(/^models\//, '');
+  const match = Object.keys(MODEL_PRICES)
+    .filter((prefix) => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!match) return 0;
+  const price = MODEL_PRICES[match];
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/** Local calendar day, YYYY-MM-DD. */
+export function localDay(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function monthStartDay(ms: number): string {
+  return `${localDay(ms).slice(0, 8)}01`;
+}
+
+export function usageBucketKey(day: string, feature: AIFeature, provider: string, model: string): string {
+  return `${day}|${feature}|${provider}|${model}`;
+}
+
+/** Adds one response to its day bucket, creating the bucket on first use. */
+export function addToBucket(existing: AIUsageBucket | undefined, record: UsageRecord): AIUsageBucket {
+  const day = localDay(record.at ?? Date.now());
+  const model = record.model || 'unknown';
+  const bucket: AIUsageBucket = existing || {
+    key: usageBucketKey(day, record.feature, record.provider, model),
+    day,
+    feature: record.feature,
+    provider: record.provider,
+    model,
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    estimatedCalls: 0,
+    costUsd: 0
+  };
+  return {
+    ...bucket,
+    calls: bucket.calls + 1,
+    inputTokens: bucket.inputTokens + record.usage.inputTokens,
+    outputTokens: bucket.outputTokens + record.usage.outputTokens,
+    estimatedCalls: bucket.estimatedCalls + (record.estimated ? 1 : 0),
+    costUsd: bucket.costUsd + estimateCostUsd(record.provider, model, record.usage) * (record.batch ? 0.5 : 1)
+  };
+}
+
+export type UsageTotals = { calls: number; tokens: number; costUsd: number };
+
+export function totalUsage(buckets: AIUsageBucket[]): UsageTotals {
+  return buckets.reduce(
+    (acc, b) => ({ calls: acc.calls + b.calls, tokens: acc.tokens + b.inputTokens + b.outputTokens, costUsd: acc.costUsd + b.costUsd }),
+    { calls: 0, tokens: 0, costUsd: 0 }
+  );
+}
+
+/** Totals per feature or per `provider/model`, largest first. */
+export function groupUsage(buckets: AIUsageBucket[], by: 'feature' | 'model'): Array<UsageTotals & { key: string }> {
+  const groups = new Map<string, AIUsageBucket[]>();
+  for (const b of buckets) {
+    const key = by === 'feature' ? b.feature : `${b.provider}/${b.model}`;
+    groups.set(key, [...(groups.get(key) || []), b]);
+  }
+  return Array.from(groups, ([key, list]) => ({ key, ...totalUsage(list) })).sort((a, b) => b.tokens - a.tokens);
+}
+
+export type DailyUsage = { day: string; tokens: number; byFeature: Partial<Record<AIFeature, number>> };
+
+/** One entry per day for the last `days` days ending today, oldest first; empty days included. */
+export function dailyUsage(buckets: AIUsageBucket[], days: number, now = Date.now()): DailyUsage[] {
+  const out: DailyUsage[] = [];
+  const byDay = new Map<string, DailyUsage>();
+  const start = new Date(now);
+  for (let i = days - 1; i >= 0; i--) {
+    const d = new Date(start.getFullYear(), start.getMonth(), start.getDate() - i, 12);
+    const entry: DailyUsage = { day: localDay(d.getTime()), tokens: 0, byFeature: {} };
+    out.push(entry);
+    byDay.set(entry.day, entry);
+  }
+  for (const b of buckets) {
+    const entry = byDay.get(b.day);
+    if (!entry) continue;
+    const tokens = b.inputTokens + b.outputTokens;
+    entry.tokens += tokens;
+    entry.byFeature[b.feature] = (entry.byFeature[b.feature] || 0) + tokens;
+  }
+  return out;
+}
+
+export type AIBudgets = {
+  dailyTokens?: number;
+  monthlyTokens?: number;
+  monthlyUsd?: number;
+  /** Daily token cap per feature */
+  featureDailyTokens?: Partial<Record<AIFeature, number>>;
+};
+
+export type BudgetStatus = {
+  /** Why all background AI work is paused, or null */
+  exceeded: string | null;
+  /** Features whose own daily cap is used up, with the reason */
+  features: Partial<Record<AIFeature, string>>;
+};
+
+const formatTokens = (n: number) => n.toLocaleString('en-US');
+
+/** Compares this month's buckets with the budgets; unset or zero budgets never trip. */
+export function budgetStatus(buckets: AIUsageBucket[], budgets: AIBudgets, now = Date.now()): BudgetStatus {
+  const today = localDay(now);
+  const month = monthStartDay(now);
+  const monthBuckets = buckets.filter((b) => b.day >= month && b.day <= today);
+  const todayBuckets = monthBuckets.filter((b) => b.day === today);
+  const daily = totalUsage(todayBuckets);
+  const monthly = totalUsage(monthBuckets);
+  let exceeded: string | null = null;
+  if (budgets.dailyTokens && daily.tokens >= budgets.dailyTokens) {
+    exceeded = `Daily AI budget reached (${formatTokens(daily.tokens)} of ${formatTokens(budgets.dailyTokens)} tokens)`;
+  } else if (budgets.monthlyTokens && monthly.tokens >= budgets.monthlyTokens) {
+    exceeded = `Monthly AI budget reached (${formatTokens(monthly.tokens)} of ${formatTokens(budgets.monthlyTokens)} tokens)`;
+  } else if (budgets.monthlyUsd && monthly.costUsd >= budgets.monthlyUsd) {
+    exceeded = `Monthly AI spend reached ($${monthly.costUsd.toFixed(2)} of $${budgets.monthlyUsd.toFixed(2)})`;
+  }
+  const features: Partial<Record<AIFeature, string>> = {};
+  for (const { key, label } of AI_FEATURES) {
+    const cap = budgets.featureDailyTokens?.[key];
+    if (!cap) continue;
+    const used = totalUsage(todayBuckets.filter((b) => b.feature === key)).tokens;
+    if (used >= cap) features[key] = `${label} daily budget reached (${formatTokens(used)} of ${formatTokens(cap)} tokens)`;
+  }
+  return { exceeded, features };
+}
@@ -0,0 +1,138 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getActiveAccount, getDB } from '$lib/db/indexeddb';
+import { enqueueDraftOp, removeOp } from '$lib/queue/ops';
+import type { DraftRecord } from '$lib/types';
+import { buildRawMessage, readDraftAttachments, type ComposeDraft, type ComposeMode } from './message';
+
+/** How often the compose route writes pending edits to IndexedDB. */
+export const LOCAL_AUTOSAVE_MS = 3000;
+/** How often locally saved edits are pushed to Gmail while the composer stays open. */
+export const SERVER_SYNC_MS = 30000;
+
+async function refreshQueue(): Promise<void> {
+  try {
+    const { refreshSyncState } = await import('$lib/stores/queue');
+    await refreshSyncState();
+  } catch (_) { /* best-effort */ }
+}
+
+export function hasDraftContent(d: ComposeDraft): boolean {
+  return [d.to, d.cc, d.bcc, d.subject, d.body].some((v) => !!v && !!v.trim()) || !!d.attachments?.length;
+}
+
+export function draftToCompose(record: DraftRecord): ComposeDraft {
+  const { to, cc, bcc, subject, body, threadId, inReplyTo, references, attachments } = record;
+  return { to, cc, bcc, subject, body, threadId, inReplyTo, references, attachments };
+}
+
+/** Full base64url message for a draft, attachments included. */
+export async function buildDraftRaw(draft: ComposeDraft): Promise<string> {
+  return buildRawMessage(draft, undefined, await readDraftAttachments(draft.attachments));
+}
+
+export function newDraftRecord(mode: ComposeMode, draft: ComposeDraft): DraftRecord {
+  const now = Date.now();
+  return { ...draft, id: uuidv4(), accountSub: getActiveAccount(), mode, createdAt: now, updatedAt: now };
+}
+
+export async function getDraft(id: string): Promise<DraftRecord | undefined> {
+  const db = await getDB();
+  const d = await db.get('drafts', id);
+  return d && !d.status ? d : undefined;
+}
+
+/** Drafts still being edited, most recently touched first. */
+export async function listDrafts(): Promise<DraftRecord[]> {
+  const db = await getDB();
+  const all = await db.getAllFromIndex('drafts', 'by_updatedAt');
+  return all.filter((d) => !d.status).reverse();
+}
+
+/**
+ * Autosaves the compose fields. Gmail-side state (`gmailDraftId`, `syncedAt`) is
+ * read back inside the transaction because the outbox may have recorded it since
+ * the composer loaded the record.
+ */
+export async function saveDraftLocal(record: DraftRecord, draft: ComposeDraft): Promise<DraftRecord> {
+  const db = await getDB();
+  const tx = db.transaction('drafts', 'readwrite');
+  const stored = await tx.store.get(record.id);
+  // Already sent or discarded (e.g. from another tab); never resurrect it
+  if (stored?.status) {
+    await tx.done;
+    return stored;
+  }
+  const next: DraftRecord = {
+    ...record,
+    ...draft,
+    gmailDraftId: stored?.gmailDraftId ?? record.gmailDraftId,
+    syncedAt: stored?.syncedAt ?? record.syncedAt,
+    updatedAt: Date.now()
+  };
+  await tx.store.put(next);
+  await tx.done;
+  return next;
+}
+
+/** Queues the latest local content for Gmail unless Gmail already has it. */
+export async function queueDraftSync(id: string): Promise<void> {
+  const record = await getDraft(id);
+  if (!record || (record.syncedAt && record.syncedAt >= record.updatedAt)) return;
+  await enqueueDraftOp(getActiveAccount(), {
+    type: record.gmailDraftId ? 'draftUpdate' : 'draftCreate',
+    draftId: record.id,
+    raw: await buildDraftRaw(draftToCompose(record)),
+    threadId: record.threadId
+  });
+  await refreshQueue();
+}
+
+/**
+ * Sends the draft through the outbox; the local record goes once Gmail accepts it.
+ * With `sendAt` the op waits in the outbox until then (send later).
+ */
+export async function queueDraftSend(record: DraftRecord, draft: ComposeDraft, sendAt?: number): Promise<string | null> {
+  const saved = await saveDraftLocal(record, draft);
+  if (saved.status) return null;
+  const db = await getDB();
+  await db.put('drafts', { ...saved, status: 'sending' });
+  const op = await enqueueDraftOp(getActiveAccount(), {
+    type: 'draftSend',
+    draftId: saved.id,
+    raw: await buildDraftRaw(draft),
+    threadId: saved.threadId
+  }, sendAt);
+  await refreshQueue();
+  return op.id;
+}
+
+/**
+ * Pulls a scheduled send back out of the outbox and returns its draft to the
+ * Drafts list. Resolves to the draft id, or null if the send is already going out.
+ */
+export async function cancelScheduledSend(opId: string): Promise<string | null> {
+  const removed = await removeOp(opId);
+  if (!removed || removed.op.type !== 'draftSend') return null;
+  await restoreDraft(removed.op.draftId);
+  await refreshQueue();
+  return removed.op.draftId;
+}
+
+/** Clears a sending/discarded mark so the draft shows up in Drafts again. */
+export async function restoreDraft(id: string): Promise<void> {
+  const db = await getDB();
+  const record = await db.get('drafts', id);
+  if (!record?.status) return;
+  const { status: _status, ...rest } = record;
+  await db.put('drafts', { ...rest, updatedAt: Date.now() });
+}
+
+/** Hides the draft immediately and deletes the Gmail copy (if any) through the outbox. */
+export async function queueDraftDiscard(id: string): Promise<void> {
+  const db = await getDB();
+  const record = await db.get('drafts', id);
+  if (!record || record.status) return;
+  await db.put('drafts', { ...record, status: 'discarded' });
+  await enqueueDraftOp(getActiveAccount(), { type: 'draftDelete', draftId: id });
+  await refreshQueue();
+}
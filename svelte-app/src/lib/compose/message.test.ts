@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { buildComposeDraft, prefixSubject, splitAddresses } from './message';
+import type { GmailMessage } from '$lib/types';
+
+const original: GmailMessage = {
+  id: 'm1',
+  threadId: 't1',
+  labelIds: ['INBOX'],
+  bodyText: 'Hello\nSee you soon',
+  headers: {
+    From: 'Coach Smith <coach@example.edu>',
+    To: 'me@example.com, Parent <parent@example.com>',
+    Cc: 'assistant@example.edu, me@example.com',
+    Subject: 'Camp dates',
+    Date: 'Mon, 3 Mar 2025 10:00:00 -0500',
+    'Message-Id': '<abc@example.edu>',
+    References: '<root@example.edu>'
+  }
+};
+
+describe('splitAddresses', () => {
+  it('ignores commas inside quoted display names', () => {
+    expect(splitAddresses('"Doe, Jane" <jane@x.com>, bob@y.com')).toEqual(['"Doe, Jane" <jane@x.com>', 'bob@y.com']);
+  });
+});
+
+describe('prefixSubject', () => {
+  it('does not stack prefixes', () => {
+    expect(prefixSubject('RE: Hi', 'Re')).toBe('RE: Hi');
+    expect(prefixSubject('Fw: Hi', 'Fwd')).toBe('Fw: Hi');
+    expect(prefixSubject('Hi', 'Fwd')).toBe('Fwd: Hi');
+  });
+});
+
+describe('buildComposeDraft', () => {
+  it('threads a reply with In-Reply-To and References', () => {
+    const d = buildComposeDraft('reply', original, 'me@example.com');
+    expect(d.to).toBe('Coach Smith <coach@example.edu>');
+    expect(d.subject).toBe('Re: Camp dates');
+    expect(d.threadId).toBe('t1');
+    expect(d.inReplyTo).toBe('<abc@example.edu>');
+    expect(d.references).toBe('<root@example.edu> <abc@example.edu>');
+    expect(d.body).toContain('> See you soon');
+  });
+
+  it('reply-all drops the user and deduplicates recipients', () => {
+    const d = buildComposeDraft('replyAll', original, 'me@example.com');
+    expect(d.to).toBe('Coach Smith <coach@example.edu>, Parent <parent@example.com>');
+    expect(d.cc).toBe('assistant@example.edu');
+  });
+
+  it('forward leaves recipients empty and includes the original', () => {
+    const d = buildComposeDraft('forward', original, 'me@example.com');
+    expect(d.to).toBe('');
+    expect(d.subject).toBe('Fwd: Camp dates');
+    expect(d.body).toContain('---------- Forwarded message ---------');
+  });
+});
@@ -0,0 +1,211 @@
+import type { DraftAttachment, GmailMessage } from '$lib/types';
+import { buildMimeMessage, encodeBase64Url, splitAddresses, type MimeAttachment } from './mime';
+
+export { encodeBase64Url, encodeHeaderValue, splitAddresses } from './mime';
+
+export type ComposeMode = 'new' | 'reply' | 'replyAll' | 'forward';
+
+export type ComposeDraft = {
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+  /** Gmail thread to send into (replies and forwards stay in the original thread) */
+  threadId?: string;
+  /** Message-ID of the message being answered */
+  inReplyTo?: string;
+  /** Space-separated Message-IDs of the conversation so far */
+  references?: string;
+  attachments?: DraftAttachment[];
+};
+
+/** Case-insensitive header lookup (Gmail returns `Message-ID`, `Message-Id`, etc.). */
+export function getHeader(headers: Record<string, string> | undefined, name: string): string {
+  if (!headers) return '';
+  const wanted = name.toLowerCase();
+  for (const [k, v] of Object.entries(headers)) if (k.toLowerCase() === wanted) return v || '';
+  return '';
+}
+
+/** Returns the bare lowercase address of `Name <addr@host>` or `addr@host`. */
+export function extractEmail(address: string): string {
+  const m = address.match(/<([^>]+)>/);
+  return (m ? m[1] : address).trim().replace(/^"|"$/g, '').toLowerCase();
+}
+
+function uniqueAddresses(list: string[], exclude: Set<string>): string[] {
+  const seen = new Set(exclude);
+  const out: string[] = [];
+  for (const a of list) {
+    const e = extractEmail(a);
+    if (!e || seen.has(e)) continue;
+    seen.add(e);
+    out.push(a);
+  }
+  return out;
+}
+
+/** Adds `Re:`/`Fwd:` unless the subject already carries that prefix. */
+export function prefixSubject(subject: string, prefix: 'Re' | 'Fwd'): string {
+  const s = (subject || '').trim();
+  const re = prefix === 'Re' ? /^re:/i : /^(fwd?|fw):/i;
+  return re.test(s) ? s : `${prefix}: ${s}`.trim();
+}
+
+/** Plain-text body of a message, falling back to stripped HTML and then the snippet. */
+export function messagePlainText(m: GmailMessage): string {
+  if (m.bodyText && m.bodyText.trim()) return m.bodyText;
+  if (m.bodyHtml) {
+    return m.bodyHtml
+      .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|tr|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+  return m.snippet || '';
+}
+
+function formatOriginalDate(m: GmailMessage): string {
+  const date = getHeader(m.headers, 'Date');
+  if (date) return date;
+  return m.internalDate ? new Date(m.internalDate).toString() : '';
+}
+
+/** `On <date>, <from> wrote:` followed by the original text prefixed with `> `. */
+export function quoteOriginal(m: GmailMessage): string {
+  const from = getHeader(m.headers, 'From');
+  const date = formatOriginalDate(m);
+  const quoted = messagePlainText(m)
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith('>') ? `>${line}` : `> ${line}`))
+    .join('\n');
+  return `On ${date}, ${from} wrote:\n${quoted}`;
+}
+
+/** Gmail-style `---------- Forwarded message ---------` block. */
+export function forwardBlock(m: GmailMessage): string {
+  const lines = [
+    '---------- Forwarded message ---------',
+    `From: ${getHeader(m.headers, 'From')}`,
+    `Date: ${formatOriginalDate(m)}`,
+    `Subject: ${getHeader(m.headers, 'Subject')}`,
+    `To: ${getHeader(m.headers, 'To')}`
+  ];
+  const cc = getHeader(m.headers, 'Cc');
+  if (cc) lines.push(`Cc: ${cc}`);
+  return `${lines.join('\n')}\n\n${messagePlainText(m)}`;
+}
+
+/**
+ * Prefills a compose draft for the given mode. Replies address Reply-To (or From)
+ * and reply-all adds the original To/Cc minus the user's own address. Replies set
+ * In-Reply-To/References so Gmail and other clients thread the message.
+ */
+export function buildComposeDraft(mode: ComposeMode, original?: GmailMessage, selfEmail = ''): ComposeDraft {
+  const empty: ComposeDraft = { to: '', cc: '', bcc: '', subject: '', body: '' };
+  if (mode === 'new' || !original) return empty;
+  const h = original.headers;
+  const subject = getHeader(h, 'Subject');
+  const messageId = getHeader(h, 'Message-ID');
+  const threading = {
+    threadId: original.threadId,
+    inReplyTo: messageId || undefined,
+    references: [getHeader(h, 'References'), messageId].filter(Boolean).join(' ').trim() || undefined
+  };
+
+  if (mode === 'forward') {
+    return { ...empty, ...threading, subject: prefixSubject(subject, 'Fwd'), body: `\n\n${forwardBlock(original)}` };
+  }
+
+  const self = new Set(selfEmail ? [selfEmail.toLowerCase()] : []);
+  const from = getHeader(h, 'From');
+  const replyTo = getHeader(h, 'Reply-To') || from;
+  // Replying to our own sent message goes back to its recipients
+  const sentBySelf = self.has(extractEmail(from));
+  let to = sentBySelf ? splitAddresses(getHeader(h, 'To')) : splitAddresses(replyTo);
+  let cc: string[] = [];
+  if (mode === 'replyAll') {
+    to = uniqueAddresses([...to, ...(sentBySelf ? [] : splitAddresses(getHeader(h, 'To')))], self);
+    const toSet = new Set(to.map(extractEmail));
+    cc = uniqueAddresses(splitAddresses(getHeader(h, 'Cc')), new Set([...self, ...toSet]));
+  }
+  return {
+    ...empty,
+    ...threading,
+    to: to.join(', '),
+    cc: cc.join(', '),
+    subject: prefixSubject(subject, 'Re'),
+    body: `\n\n${quoteOriginal(original)}`
+  };
+}
+
+/** Escapes the plain-text body into simple HTML; quoted lines become a blockquote. */
+export function textToHtml(text: string, inline: MimeAttachment[] = []): string {
+  const escape = (v: string) => v.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  const lines = text.split(/\r?\n/);
+  const html: string[] = [];
+  let quote: string[] = [];
+  const flushQuote = () => {
+    if (!quote.length) return;
+    html.push(`<blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${quote.join('<br>')}</blockquote>`);
+    quote = [];
+  };
+  for (const line of lines) {
+    if (line.startsWith('>')) {
+      quote.push(escape(line.replace(/^>\s?/, '')));
+      continue;
+    }
+    flushQuote();
+    html.push(`${escape(line)}<br>`);
+  }
+  flushQuote();
+  for (const img of inline) {
+    html.push(`<div><img src="cid:${escape(img.contentId || '')}" alt="${escape(img.filename)}" style="max-width:100%"></div>`);
+  }
+  return `<div dir="auto">${html.join('\n')}</div>`;
+}
+
+/** Reads attachment blobs into bytes for the MIME builder; inline ones get a Content-ID. */
+export async function readDraftAttachments(list: DraftAttachment[] = []): Promise<MimeAttachment[]> {
+  return await Promise.all(
+    list.map(async (a) => ({
+      filename: a.filename,
+      mimeType: a.mimeType,
+      data: new Uint8Array(await a.blob.arrayBuffer()),
+      contentId: a.inline ? `${a.id}@jmail` : undefined
+    }))
+  );
+}
+
+/**
+ * Builds the base64url RFC 2822 payload for a draft. Plain text stays a single
+ * text/plain part; inline images add an HTML alternative that references them
+ * and other files become multipart/mixed attachments.
+ */
+export function buildRawMessage(draft: ComposeDraft, from?: string, files: MimeAttachment[] = []): string {
+  const inline = files.filter((f) => f.contentId);
+  const attachments = files.filter((f) => !f.contentId);
+  const text = inline.length ? `${draft.body}${inline.map((f) => `\n[image: ${f.filename}]`).join('')}` : draft.body;
+  return encodeBase64Url(
+    buildMimeMessage({
+      from,
+      to: draft.to,
+      cc: draft.cc,
+      bcc: draft.bcc,
+      subject: draft.subject,
+      inReplyTo: draft.inReplyTo,
+      references: draft.references,
+      text,
+      html: inline.length ? textToHtml(draft.body, inline) : undefined,
+      inline,
+      attachments
+    })
+  );
+}
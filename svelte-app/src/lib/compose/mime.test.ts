@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { buildMimeMessage, decodeBase64UrlToBinary, encodeAddressList, encodeBase64Url, encodeHeaderValue, parseMimeMessage } from './mime';
+
+const bytes = (s: string) => new TextEncoder().encode(s);
+
+function boundaries() {
+  let n = 0;
+  return () => `b${++n}`;
+}
+
+function decodeWord(word: string): string {
+  const b64 = word.replace(/^=\?UTF-8\?B\?/, '').replace(/\?=$/, '');
+  return new TextDecoder().decode(Uint8Array.from(atob(b64), (c) => c.charCodeAt(0)));
+}
+
+describe('encodeHeaderValue', () => {
+  it('leaves ASCII untouched', () => {
+    expect(encodeHeaderValue('Camp dates')).toBe('Camp dates');
+  });
+
+  it('splits long values into folded encoded-words of at most 75 characters', () => {
+    const subject = 'Réunion — ' + 'é'.repeat(60);
+    const words = encodeHeaderValue(subject).split('\r\n ');
+    expect(words.length).toBeGreaterThan(1);
+    for (const w of words) expect(w.length).toBeLessThanOrEqual(75);
+    expect(words.map(decodeWord).join('')).toBe(subject);
+  });
+});
+
+describe('encodeAddressList', () => {
+  it('encodes non-ASCII display names only', () => {
+    expect(encodeAddressList('José <jose@x.com>, bob@y.com')).toBe('=?UTF-8?B?Sm9zw6k=?= <jose@x.com>, bob@y.com');
+  });
+});
+
+describe('buildMimeMessage', () => {
+  it('sends plain ASCII text as a single 7bit part', () => {
+    const msg = buildMimeMessage({ to: 'a@x.com', subject: 'Hi', text: 'Hello\nthere' });
+    expect(msg).toContain('Content-Type: text/plain; charset="UTF-8"');
+    expect(msg).toContain('Content-Transfer-Encoding: 7bit');
+    expect(msg.endsWith('\r\n\r\nHello\r\nthere')).toBe(true);
+    expect(msg).not.toContain('multipart');
+  });
+
+  it('nests alternative and inline images inside related inside mixed', () => {
+    const msg = buildMimeMessage(
+      {
+        to: 'a@x.com',
+        subject: 'Photos',
+        text: 'See below',
+        html: '<p>See below</p><img src="cid:img1@jmail">',
+        inline: [{ filename: 'a.png', mimeType: 'image/png', data: bytes('png'), contentId: 'img1@jmail' }],
+        attachments: [{ filename: 'résumé.pdf', mimeType: 'application/pdf', data: bytes('pdf') }]
+      },
+      { boundary: boundaries() }
+    );
+    const mixed = msg.indexOf('multipart/mixed; boundary="b3"');
+    const related = msg.indexOf('multipart/related; boundary="b2"');
+    const alternative = msg.indexOf('multipart/alternative; boundary="b1"');
+    expect(mixed).toBeGreaterThan(-1);
+    expect(related).toBeGreaterThan(mixed);
+    expect(alternative).toBeGreaterThan(related);
+    expect(msg).toContain('Content-ID: <img1@jmail>');
+    expect(msg).toContain('Content-Disposition: inline; filename="a.png"');
+    expect(msg).toContain(`filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`);
+    expect(msg.trimEnd().endsWith('--b3--')).toBe(true);
+  });
+
+  it('attaches inline images when there is no HTML body to reference them', () => {
+    const msg = buildMimeMessage(
+      { to: 'a@x.com', subject: 'x', text: 'x', inline: [{ filename: 'a.png', mimeType: 'image/png', data: bytes('png'), contentId: 'c' }] },
+      { boundary: boundaries() }
+    );
+    expect(msg).toContain('Content-Disposition: attachment; filename="a.png"');
+    expect(msg).not.toContain('Content-ID');
+  });
+});
+
+describe('parseMimeMessage', () => {
+  it('round-trips a built message from its base64url form', () => {
+    const raw = encodeBase64Url(
+      buildMimeMessage({
+        to: 'José <jose@x.com>',
+        subject: 'Réunion demain',
+        text: 'Café à 9h',
+        html: '<p>Café à 9h</p>',
+        attachments: [{ filename: 'résumé.pdf', mimeType: 'application/pdf', data: bytes('pdf!') }]
+      })
+    );
+    const parsed = parseMimeMessage(decodeBase64UrlToBinary(raw));
+    expect(parsed.headers.find((h) => h.name === 'Subject')?.value).toBe('Réunion demain');
+    expect(parsed.headers.find((h) => h.name === 'To')?.value).toBe('José <jose@x.com>');
+    expect(parsed.text).toBe('Café à 9h');
+    expect(parsed.html).toBe('<p>Café à 9h</p>');
+    expect(parsed.parts).toEqual([{ contentType: 'application/pdf', filename: 'résumé.pdf', size: 4 }]);
+  });
+
+  it('decodes quoted-printable bodies', () => {
+    const parsed = parseMimeMessage('Subject: =?utf-8?Q?Caf=C3=A9?=\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: quoted-printable\r\n\r\nCaf=C3=A9 =\r\nnoir');
+    expect(parsed.headers[0].value).toBe('Café');
+    expect(parsed.text).toBe('Café noir');
+  });
+});
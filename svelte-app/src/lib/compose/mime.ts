@@ -0,0 +1,332 @@
+// RFC 2045/2046/2047 message builder for outgoing mail. Pure and synchronous so it
+// runs in tests and in the service worker; attachment bytes are read by the caller.
+
+export type MimeAttachment = {
+  filename: string;
+  mimeType: string;
+  data: Uint8Array;
+  /** Set for inline images referenced from the HTML body as `cid:<contentId>` */
+  contentId?: string;
+};
+
+export type MimeMessage = {
+  from?: string;
+  to: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  inReplyTo?: string;
+  references?: string;
+  text: string;
+  /** When present the body becomes multipart/alternative (text + HTML) */
+  html?: string;
+  /** Inline images; only used together with `html` (multipart/related) */
+  inline?: MimeAttachment[];
+  /** Regular attachments (multipart/mixed) */
+  attachments?: MimeAttachment[];
+};
+
+export type MimeOptions = {
+  /** Boundary generator; override for deterministic output in tests */
+  boundary?: () => string;
+};
+
+const CRLF = '\r\n';
+const LINE_LENGTH = 76;
+// eslint-disable-next-line no-control-regex
+const ASCII = /^[\x00-\x7F]*$/;
+
+/** Splits an address list on commas that are not inside quotes or angle brackets. */
+export function splitAddresses(list?: string): string[] {
+  if (!list) return [];
+  const out: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = 0;
+  for (const ch of list) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === '<' && !quoted) angle++;
+    else if (ch === '>' && !quoted) angle = Math.max(0, angle - 1);
+    if ((ch === ',' || ch === ';') && !quoted && angle === 0) {
+      if (current.trim()) out.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) out.push(current.trim());
+  return out;
+}
+
+/** Standard base64 of raw bytes, chunked so large attachments do not overflow the call stack. */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+/** UTF-8 safe base64url encoding as expected by Gmail `messages.send`. */
+export function encodeBase64Url(text: string): string {
+  return bytesToBase64(new TextEncoder().encode(text)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function wrap(base64: string): string {
+  const lines: string[] = [];
+  for (let i = 0; i < base64.length; i += LINE_LENGTH) lines.push(base64.slice(i, i + LINE_LENGTH));
+  return lines.join(CRLF);
+}
+
+/**
+ * RFC 2047 encoded-words for header values that are not plain ASCII. Long values
+ * are split into several words (each at most 75 characters) without breaking a
+ * UTF-8 sequence, and folded onto continuation lines.
+ */
+export function encodeHeaderValue(value: string): string {
+  if (ASCII.test(value)) return value;
+  const encoder = new TextEncoder();
+  // 45 bytes of UTF-8 become 60 base64 characters, plus the 12-character `=?UTF-8?B??=` wrapper
+  const maxBytes = 45;
+  const words: string[] = [];
+  let current = '';
+  for (const ch of value) {
+    if (current && encoder.encode(current + ch).length > maxBytes) {
+      words.push(current);
+      current = '';
+    }
+    current += ch;
+  }
+  if (current) words.push(current);
+  return words.map((w) => `=?UTF-8?B?${bytesToBase64(encoder.encode(w))}?=`).join(`${CRLF} `);
+}
+
+/** Encodes non-ASCII display names in an address list; the addresses themselves stay as typed. */
+export function encodeAddressList(list: string): string {
+  return splitAddresses(list)
+    .map((address) => {
+      const m = address.match(/^\s*"?(.*?)"?\s*<([^>]+)>\s*$/);
+      if (!m || ASCII.test(m[1])) return address;
+      return `${encodeHeaderValue(m[1])} <${m[2]}>`;
+    })
+    .join(', ');
+}
+
+function defaultBoundary(): string {
+  return `=_jmail_${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`;
+}
+
+function quoteParam(value: string): string {
+  return `"${value.replace(/["\\\r\n]/g, '_')}"`;
+}
+
+/** `name`/`filename` parameter: an ASCII fallback plus the RFC 2231 form for non-ASCII names. */
+function fileParam(param: 'name' | 'filename', filename: string): string {
+  if (ASCII.test(filename)) return `${param}=${quoteParam(filename)}`;
+  const ascii = filename.replace(/[^\x20-\x7E]/g, '_');
+  return `${param}=${quoteParam(ascii)}; ${param}*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+type Part = { headers: string[]; body: string };
+
+function textPart(text: string, subtype: 'plain' | 'html'): Part {
+  const normalized = text.replace(/\r?\n/g, CRLF);
+  const sevenBit = ASCII.test(normalized) && normalized.split(CRLF).every((l) => l.length <= 998);
+  return {
+    headers: [
+      `Content-Type: text/${subtype}; charset="UTF-8"`,
+      `Content-Transfer-Encoding: ${sevenBit ? '7bit' : 'base64'}`
+    ],
+    body: sevenBit ? normalized : wrap(bytesToBase64(new TextEncoder().encode(normalized)))
+  };
+}
+
+function filePart(file: MimeAttachment, disposition: 'inline' | 'attachment'): Part {
+  const headers = [
+    `Content-Type: ${file.mimeType || 'application/octet-stream'}; ${fileParam('name', file.filename)}`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: ${disposition}; ${fileParam('filename', file.filename)}`
+  ];
+  if (file.contentId) headers.push(`Content-ID: <${file.contentId}>`);
+  return { headers, body: wrap(bytesToBase64(file.data)) };
+}
+
+function multipart(subtype: 'mixed' | 'alternative' | 'related', parts: Part[], boundary: string): Part {
+  const body = parts
+    .map((p) => `--${boundary}${CRLF}${p.headers.join(CRLF)}${CRLF}${CRLF}${p.body}`)
+    .join(CRLF);
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+    body: `${body}${CRLF}--${boundary}--`
+  };
+}
+
+/**
+ * Builds the complete RFC 2822 message. The body nests as needed:
+ * mixed(related(alternative(text, html), inline…), attachment…), collapsing
+ * any level that has a single part.
+ */
+export function buildMimeMessage(message: MimeMessage, options: MimeOptions = {}): string {
+  const boundary = options.boundary || defaultBoundary;
+  let body: Part = message.html
+    ? multipart('alternative', [textPart(message.text, 'plain'), textPart(message.html, 'html')], boundary())
+    : textPart(message.text, 'plain');
+  const inline = message.html ? message.inline || [] : [];
+  if (inline.length) {
+    body = multipart('related', [body, ...inline.map((f) => filePart(f, 'inline'))], boundary());
+  }
+  // Inline images without an HTML body have nothing to reference them; send them as attachments
+  const attachments = [...(message.html ? [] : message.inline || []), ...(message.attachments || [])];
+  if (attachments.length) {
+    body = multipart('mixed', [body, ...attachments.map((f) => filePart({ ...f, contentId: undefined }, 'attachment'))], boundary());
+  }
+
+  const headers: string[] = [];
+  if (message.from) headers.push(`From: ${encodeAddressList(message.from)}`);
+  headers.push(`To: ${encodeAddressList(message.to)}`);
+  if (message.cc?.trim()) headers.push(`Cc: ${encodeAddressList(message.cc)}`);
+  if (message.bcc?.trim()) headers.push(`Bcc: ${encodeAddressList(message.bcc)}`);
+  headers.push(`Subject: ${encodeHeaderValue(message.subject)}`);
+  if (message.inReplyTo) headers.push(`In-Reply-To: ${message.inReplyTo}`);
+  if (message.references) headers.push(`References: ${message.references}`);
+  headers.push('MIME-Version: 1.0', ...body.headers);
+  return `${headers.join(CRLF)}${CRLF}${CRLF}${body.body}`;
+}
+
+export type ParsedMimePart = {
+  contentType: string;
+  filename?: string;
+  /** Decoded size in bytes */
+  size: number;
+};
+
+export type ParsedMimeMessage = {
+  headers: Array<{ name: string; value: string }>;
+  text: string;
+  html?: string;
+  /** Non-body parts: attachments and inline images */
+  parts: ParsedMimePart[];
+};
+
+function binaryToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+function decodeCharset(binary: string, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(binaryToBytes(binary));
+  } catch (_) {
+    return new TextDecoder().decode(binaryToBytes(binary));
+  }
+}
+
+function decodeQuotedPrintable(input: string): string {
+  return input.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+/** Decodes RFC 2047 encoded-words (B and Q) in a header value. */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, enc: string, text: string) => {
+      try {
+        const binary = enc.toUpperCase() === 'B' ? atob(text) : decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return decodeCharset(binary, charset);
+      } catch (_) {
+        return text;
+      }
+    });
+}
+
+/** Decodes a base64url payload (as stored in the ops queue) to the byte-per-char message source. */
+export function decodeBase64UrlToBinary(raw: string): string {
+  let b64 = raw.replace(/-/g, '+').replace(/_/g, '/').replace(/\s+/g, '');
+  if (b64.length % 4) b64 += '='.repeat(4 - (b64.length % 4));
+  return atob(b64);
+}
+
+type Entity = { headers: Array<{ name: string; value: string }>; body: string };
+
+function splitEntity(source: string): Entity {
+  const m = source.match(/\r?\n\r?\n/);
+  const headerBlock = m && m.index !== undefined ? source.slice(0, m.index) : source;
+  const body = m && m.index !== undefined ? source.slice(m.index + m[0].length) : '';
+  const headers = headerBlock
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/)
+    .map((line) => {
+      const i = line.indexOf(':');
+      return i > 0 ? { name: line.slice(0, i).trim(), value: line.slice(i + 1).trim() } : null;
+    })
+    .filter((h): h is { name: string; value: string } => !!h);
+  return { headers, body };
+}
+
+function header(entity: Entity, name: string): string {
+  const wanted = name.toLowerCase();
+  return entity.headers.find((h) => h.name.toLowerCase() === wanted)?.value || '';
+}
+
+function param(value: string, name: string): string | undefined {
+  const extended = value.match(new RegExp(`${name}\\*=(?:"?)([^;"]+)`, 'i'));
+  if (extended) {
+    const [, rest] = extended[1].split(/''/);
+    try { return decodeURIComponent(rest ?? extended[1]); } catch (_) { /* fall through to the plain form */ }
+  }
+  const m = value.match(new RegExp(`${name}="?([^;"]*)"?`, 'i'));
+  return m ? decodeHeaderValue(m[1]) : undefined;
+}
+
+function decodeBody(entity: Entity): string {
+  const encoding = header(entity, 'Content-Transfer-Encoding').toLowerCase();
+  if (encoding === 'base64') return atob(entity.body.replace(/\s+/g, ''));
+  if (encoding === 'quoted-printable') return decodeQuotedPrintable(entity.body);
+  return entity.body;
+}
+
+function walk(entity: Entity, out: ParsedMimeMessage): void {
+  const contentType = header(entity, 'Content-Type') || 'text/plain';
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  if (mediaType.startsWith('multipart/')) {
+    const boundary = param(contentType, 'boundary');
+    if (!boundary) return;
+    const delimiter = `--${boundary}`;
+    const sections = entity.body.split(delimiter).slice(1);
+    for (const section of sections) {
+      if (section.startsWith('--')) break;
+      walk(splitEntity(section.replace(/^\r?\n/, '').replace(/\r?\n$/, '')), out);
+    }
+    return;
+  }
+  const disposition = header(entity, 'Content-Disposition');
+  const filename = param(disposition, 'filename') || param(contentType, 'name');
+  const decoded = decodeBody(entity);
+  const isBody = !filename && !/^attachment/i.test(disposition);
+  if (isBody && mediaType === 'text/plain' && !out.text) {
+    out.text = decodeCharset(decoded, param(contentType, 'charset'));
+    return;
+  }
+  if (isBody && mediaType === 'text/html' && !out.html) {
+    out.html = decodeCharset(decoded, param(contentType, 'charset'));
+    return;
+  }
+  out.parts.push({ contentType: mediaType, filename, size: decoded.length });
+}
+
+/**
+ * Parses a message source (one byte per char, e.g. from decodeBase64UrlToBinary)
+ * into decoded top-level headers, the text/HTML bodies and a list of other parts.
+ */
+export function parseMimeMessage(source: string): ParsedMimeMessage {
+  const entity = splitEntity(source);
+  const out: ParsedMimeMessage = {
+    headers: entity.headers.map((h) => ({ name: h.name, value: decodeHeaderValue(h.value) })),
+    text: '',
+    parts: []
+  };
+  walk(entity, out);
+  return out;
+}
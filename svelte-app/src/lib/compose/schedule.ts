@@ -0,0 +1,37 @@
+import { DEFAULTS, resolveRule } from '$lib/snooze/rules';
+
+/** Send-later presets; keys are snooze rule keys so they honour `anchorHour`/`roundMinutes`. */
+export const SEND_LATER_PRESETS: Array<{ ruleKey: string; label: string }> = [
+  { ruleKey: '1h', label: 'In 1 hour' },
+  { ruleKey: '2pm', label: '2 PM' },
+  { ruleKey: '1d', label: 'Tomorrow' },
+  { ruleKey: 'Monday', label: 'Monday' }
+];
+
+function localZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** Resolves a preset to a send time (ms epoch) in the local time zone. */
+export function resolveSendLater(ruleKey: string, defaults = DEFAULTS, zone = localZone()): number | null {
+  const at = resolveRule(ruleKey, zone, defaults);
+  return at ? at.getTime() : null;
+}
+
+/** Parses an `<input type="datetime-local">` value; null unless it is in the future. */
+export function parseSendLaterInput(value: string, now = Date.now()): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) return null;
+  const at = new Date(value).getTime();
+  return Number.isFinite(at) && at > now ? at : null;
+}
+
+/** Formats a timestamp for an `<input type="datetime-local">`. */
+export function toSendLaterInput(at: number): string {
+  const d = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+export function formatSendLater(at: number): string {
+  return new Date(at).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
@@ -1,5 +1,5 @@
-import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
-import type { GmailLabel, GmailMessage, GmailThread, SnoozeQueueItem, QueuedOp, AccountAuthMeta } from '$lib/types';
+import { deleteDB, openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import type { GmailLabel, GmailMessage, GmailThread, SnoozeQueueItem, QueuedOp, AccountAuthMeta, DraftRecord, JournalEntry, ModerationRule, RedoEntry, SignedInAccount, AIUsageBucket, GeminiBatchJobRecord, ThreadEmbedding, FollowUp, Recurrence } from '$lib/types';
 
 export interface AppDB extends DBSchema {
   labels: {
@@ -42,22 +42,88 @@ export interface AppDB extends DBSchema {
   };
   journal: {
     key: string; // uuid
-    value: {
-      id: string;
-      createdAt: number;
-      threadId: string;
-      intent: { type: string; addLabelIds: string[]; removeLabelIds: string[]; ruleKey?: string };
-      inverse: { addLabelIds: string[]; removeLabelIds: string[] };
-    };
+    value: JournalEntry;
     indexes: { by_createdAt: number };
   };
+  redo: {
+    key: string; // journal entry id
+    value: RedoEntry;
+    indexes: { by_undoneAt: number };
+  };
+  drafts: {
+    key: string; // local uuid
+    value: DraftRecord;
+    indexes: { by_updatedAt: number };
+  };
+  moderationRules: {
+    key: string; // rule id
+    value: ModerationRule;
+  };
+  aiUsage: {
+    key: string; // `${day}|${feature}|${provider}|${model}`
+    value: AIUsageBucket;
+    indexes: { by_day: string };
+  };
+  geminiBatchJobs: {
+    key: string; // `batches/…`
+    value: GeminiBatchJobRecord;
+  };
+  embeddings: {
+    key: string; // threadId
+    value: ThreadEmbedding;
+  };
+  followUps: {
+    key: string; // uuid
+    value: FollowUp;
+    indexes: { by_threadId: string; by_opId: string };
+  };
+  recurrences: {
+    key: string; // threadId
+    value: Recurrence;
+  };
+}
+
+/**
+ * The account signed in through the primary server session. Its data stays in the
+ * original `gmail-pwa-db`; every additional account gets its own database, which
+ * namespaces threads, messages, labels, ops and drafts per account.
+ */
+export const PRIMARY_ACCOUNT = 'me';
+const ACTIVE_ACCOUNT_KEY = 'jmail_active_account';
+
+let activeAccount = PRIMARY_ACCOUNT;
+try {
+  if (typeof localStorage !== 'undefined') activeAccount = localStorage.getItem(ACTIVE_ACCOUNT_KEY) || PRIMARY_ACCOUNT;
+} catch (_) {
+  /* storage unavailable (service worker): stay on the primary account */
 }
 
-let dbPromise: Promise<IDBPDatabase<AppDB>> | null = null;
+/** Account the UI is showing; getDB() without an argument opens its database. */
+export function getActiveAccount(): string {
+  return activeAccount;
+}
 
-export function getDB(): Promise<IDBPDatabase<AppDB>> {
+/** Persists the active account. Callers reload the page so stores start from the new database. */
+export function setActiveAccount(accountSub: string): void {
+  activeAccount = accountSub || PRIMARY_ACCOUNT;
+  try {
+    if (activeAccount === PRIMARY_ACCOUNT) localStorage.removeItem(ACTIVE_ACCOUNT_KEY);
+    else localStorage.setItem(ACTIVE_ACCOUNT_KEY, activeAccount);
+  } catch (_) {
+    /* best-effort */
+  }
+}
+
+function dbName(accountSub: string): string {
+  return accountSub === PRIMARY_ACCOUNT ? 'gmail-pwa-db' : `gmail-pwa-db:${accountSub}`;
+}
+
+const dbPromises = new Map<string, Promise<IDBPDatabase<AppDB>>>();
+
+export function getDB(accountSub = activeAccount): Promise<IDBPDatabase<AppDB>> {
+  let dbPromise = dbPromises.get(accountSub);
   if (!dbPromise) {
-    dbPromise = openDB<AppDB>('gmail-pwa-db', 2, {
+    dbPromise = openDB<AppDB>(dbName(accountSub), 10, {
       upgrade(db, oldVersion, _newVersion, _tx) {
         // v1 initial schema
         if (oldVersion < 1) {
@@ -87,18 +153,75 @@ export function getDB(): Promise<IDBPDatabase<AppDB>> {
           const journal = db.createObjectStore('journal', { keyPath: 'id' });
           journal.createIndex('by_createdAt', 'createdAt');
         }
-        // v3: future migration placeholder for sanitization. Actual sanitization
-        // is performed at runtime in the precompute module to avoid complex
-        // upgrade-time DB reads across environments.
+        // v3: compose drafts. (Summary sanitization still runs at runtime in the
+        // precompute module to avoid complex upgrade-time DB reads.)
         if (oldVersion < 3) {
-          // no-op placeholder
+          const drafts = db.createObjectStore('drafts', { keyPath: 'id' });
+          drafts.createIndex('by_updatedAt', 'updatedAt');
+        }
+        // v4: persistent redo stack
+        if (oldVersion < 4) {
+          const redo = db.createObjectStore('redo', { keyPath: 'id' });
+          redo.createIndex('by_undoneAt', 'undoneAt');
+        }
+        // v5: user-defined AI moderation rules
+        if (oldVersion < 5) {
+          db.createObjectStore('moderationRules', { keyPath: 'id' });
+        }
+        // v6: AI token/cost ledger
+        if (oldVersion < 6) {
+          const usage = db.createObjectStore('aiUsage', { keyPath: 'key' });
+          usage.createIndex('by_day', 'day');
+        }
+        // v7: Gemini Batch API jobs awaiting results
+        if (oldVersion < 7) {
+          db.createObjectStore('geminiBatchJobs', { keyPath: 'name' });
+        }
+        // v8: per-thread embeddings for semantic search
+        if (oldVersion < 8) {
+          db.createObjectStore('embeddings', { keyPath: 'threadId' });
+        }
+        // v9: no-reply follow-up watches
+        if (oldVersion < 9) {
+          const followUps = db.createObjectStore('followUps', { keyPath: 'id' });
+          followUps.createIndex('by_threadId', 'threadId');
+          followUps.createIndex('by_opId', 'opId');
+        }
+        // v10: recurring snoozes
+        if (oldVersion < 10) {
+          db.createObjectStore('recurrences', { keyPath: 'threadId' });
         }
       }
     });
+    dbPromises.set(accountSub, dbPromise);
   }
   return dbPromise;
 }
 
+/**
+ * Every signed-in account, primary first. The list is kept in the primary
+ * database (`settings` key 'accounts') so the service worker can read it.
+ */
+export async function listAccountSubs(): Promise<string[]> {
+  try {
+    const db = await getDB(PRIMARY_ACCOUNT);
+    const stored = (await db.get('settings', 'accounts')) as SignedInAccount[] | undefined;
+    const subs = (stored || []).map((a) => a.sub).filter((sub) => sub && sub !== PRIMARY_ACCOUNT);
+    return [PRIMARY_ACCOUNT, ...new Set(subs)];
+  } catch (_) {
+    return [PRIMARY_ACCOUNT];
+  }
+}
+
+/** Deletes an account's database (sign-out of an additional account). */
+export async function deleteAccountDB(accountSub: string): Promise<void> {
+  if (accountSub === PRIMARY_ACCOUNT) return;
+  const pending = dbPromises.get(accountSub);
+  dbPromises.delete(accountSub);
+  if (pending) (await pending).close();
+  await deleteDB(dbName(accountSub));
+}
+
 export async function clearAllStores() {
   const db = await getDB();
   await Promise.all([
@@ -110,7 +233,15 @@ export async function clearAllStores() {
     db.clear('settings'),
     db.clear('auth'),
     db.clear('backups'),
-    db.clear('journal')
+    db.clear('journal'),
+    db.clear('drafts'),
+    db.clear('redo'),
+    db.clear('moderationRules'),
+    db.clear('aiUsage'),
+    db.clear('geminiBatchJobs'),
+    db.clear('embeddings'),
+    db.clear('followUps'),
+    db.clear('recurrences')
   ]);
 }
 
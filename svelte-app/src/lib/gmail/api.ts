@@ -1,6 +1,7 @@
 import { fetchTokenInfo } from '$lib/gmail/auth';
 import { pushGmailDiag, getAndClearGmailDiagnostics } from '$lib/gmail/diag';
 import { getLocalhostToken } from '$lib/gmail/localhost-auth';
+import { PRIMARY_ACCOUNT, getActiveAccount } from '$lib/db/indexeddb';
 import type { GmailLabel, GmailMessage, GmailAttachment } from '$lib/types';
 
 const GMAIL_PROXY_BASE = '/api/gmail';
@@ -148,8 +149,11 @@ async function api<T>(path: string, init?: RequestInit): Promise<T> {
     (window.location.hostname === 'localhost' || 
      window.location.hostname === '127.0.0.1' || 
      window.location.hostname.startsWith('192.168.'));
+  // Additional accounts only exist as server sessions; the proxy picks them by header
+  const accountSub = getActiveAccount();
+  const isPrimary = accountSub === PRIMARY_ACCOUNT;
   
-  if (isLocalhost) {
+  if (isLocalhost && isPrimary) {
     const localhostToken = localStorage.getItem('LOCALHOST_ACCESS_TOKEN');
     const tokenExpiry = localStorage.getItem('LOCALHOST_TOKEN_EXPIRY');
     
@@ -206,6 +210,7 @@ async function api<T>(path: string, init?: RequestInit): Promise<T> {
     ...init,
     headers: {
       'Content-Type': 'application/json',
+      ...(isPrimary ? {} : { 'X-Jmail-Account': accountSub }),
       ...(init?.headers || {})
     },
     credentials: 'include'
@@ -213,7 +218,7 @@ async function api<T>(path: string, init?: RequestInit): Promise<T> {
   if (!res.ok) {
     // If server returns 404, check if we have an existing localhost token to use
     // But don't auto-initialize auth - that should only happen on user action
-    if (res.status === 404 && isLocalhost) {
+    if (res.status === 404 && isLocalhost && isPrimary) {
       pushGmailDiag({ type: 'server_proxy_404', path });
       // Only use existing token if available - don't trigger new auth
       const clientToken = getLocalhostToken();
@@ -309,6 +314,7 @@ async function api<T>(path: string, init?: RequestInit): Promise<T> {
         const serverBase = resolveServerBase();
         const loginUrl = new URL('/api/google-login', serverBase);
         loginUrl.searchParams.set('return_to', returnTo);
+        if (!isPrimary) loginUrl.searchParams.set('add_account', '1');
         // Before redirecting, perform a short probe to check if the API host is reachable
         // and not returning the frontend SPA HTML for /api routes. If the probe looks
         // suspicious, present a user confirm dialog instead of blindly navigating.
@@ -424,6 +430,13 @@ export async function listMessageIdsByLabelId(labelId: string, maxResults = 25,
   return { ids: (data?.messages || []).map((m) => m.id), nextPageToken: data?.nextPageToken };
 }
 
+/** Message ids matching a Gmail search query (same syntax as the Gmail search box). */
+export async function searchMessageIds(query: string, maxResults = 25): Promise<string[]> {
+  const q = new URLSearchParams({ maxResults: String(maxResults), q: query });
+  const data = await api<{ messages?: { id: string }[] }>(`/messages?${q.toString()}`);
+  return (data?.messages || []).map((m) => m.id);
+}
+
 export async function listThreadIdsByLabelId(labelId: string, maxResults = 25, pageToken?: string): Promise<{ ids: string[]; nextPageToken?: string }> {
   const q = new URLSearchParams({ maxResults: String(maxResults) });
   q.append('labelIds', labelId);
@@ -687,6 +700,37 @@ export async function sendMessageRaw(raw: string, threadId?: string): Promise<{
   });
 }
 
+type DraftResponse = { id: string; message: { id: string; threadId: string } };
+
+function draftBody(raw: string, threadId?: string, id?: string): string {
+  const message: Record<string, unknown> = { raw };
+  if (threadId) message.threadId = threadId;
+  return JSON.stringify(id ? { id, message } : { message });
+}
+
+export async function createDraft(raw: string, threadId?: string): Promise<DraftResponse> {
+  return await api<DraftResponse>(`/drafts`, { method: 'POST', body: draftBody(raw, threadId) });
+}
+
+export async function updateDraft(draftId: string, raw: string, threadId?: string): Promise<DraftResponse> {
+  return await api<DraftResponse>(`/drafts/${encodeURIComponent(draftId)}`, {
+    method: 'PUT',
+    body: draftBody(raw, threadId, draftId)
+  });
+}
+
+/** Sends a server draft, replacing its content with `raw` first so the last local edit wins. */
+export async function sendDraft(draftId: string, raw: string, threadId?: string): Promise<{ id: string; threadId: string }> {
+  return await api<{ id: string; threadId: string }>(`/drafts/send`, {
+    method: 'POST',
+    body: draftBody(raw, threadId, draftId)
+  });
+}
+
+export async function deleteDraft(draftId: string): Promise<void> {
+  await api<unknown>(`/drafts/${encodeURIComponent(draftId)}`, { method: 'DELETE' });
+}
+
 export async function getMessageRaw(id: string): Promise<string> {
   type GmailMessageRawResponse = {
     id: string;
@@ -735,12 +779,13 @@ export async function getProfile(): Promise<{ emailAddress: string; messagesTota
   return data as { emailAddress: string; messagesTotal: number; threadsTotal: number; historyId: string };
 }
 
-export async function listHistory(startHistoryId: string): Promise<any> {
+export async function listHistory(startHistoryId: string, pageToken?: string): Promise<any> {
   const q = new URLSearchParams();
   q.set('startHistoryId', String(startHistoryId));
   // Request thread/message changes; let caller decide how to interpret
   // Use maxResults conservatively to avoid huge payloads
   q.set('maxResults', '1000');
+  if (pageToken) q.set('pageToken', pageToken);
   const data = await api<any>(`/history?${q.toString()}`);
   pushGmailDiag({ type: 'history_list', startHistoryId, dataSummary: Array.isArray((data || {}).history) ? { entries: (data as any).history.length } : undefined });
   return data;
@@ -187,8 +187,8 @@ export async function acquireTokenInteractive(prompt: 'none' | 'consent' | 'sele
     
     // Check user preferences for authentication behavior
     try {
-      const { getDB } = await import('$lib/db/indexeddb');
-      const db = await getDB();
+      const { PRIMARY_ACCOUNT, getDB } = await import('$lib/db/indexeddb');
+      const db = await getDB(PRIMARY_ACCOUNT);
       const settings = await db.get('settings', 'app') as any;
       if (settings) {
         suppressPopups = !!settings.suppressAuthPopups;
@@ -365,8 +365,8 @@ export async function acquireTokenForScopes(scopes: string, prompt: 'none' | 'co
     
     // Check user preferences for authentication behavior
     try {
-      const { getDB } = await import('$lib/db/indexeddb');
-      const db = await getDB();
+      const { PRIMARY_ACCOUNT, getDB } = await import('$lib/db/indexeddb');
+      const db = await getDB(PRIMARY_ACCOUNT);
       const settings = await db.get('settings', 'app') as any;
       if (settings) {
         suppressPopups = !!settings.suppressAuthPopups;
@@ -1,95 +1,51 @@
-import { getDB } from '$lib/db/indexeddb';
-import { batchModify, sendMessageRaw } from '$lib/gmail/api';
-import type { QueuedOp } from '$lib/types';
-import { backoffDelay, getDueOps, pruneDuplicateOps } from './ops';
+import { getActiveAccount, getDB, listAccountSubs } from '$lib/db/indexeddb';
+import { batchModify, createDraft, deleteDraft, sendDraft, sendMessageRaw, updateDraft } from '$lib/gmail/api';
+import { isScheduled, pruneDuplicateOps } from './ops';
+import { createProxyTransport, replayDueOps } from './replay';
 import { refreshSyncState } from '$lib/stores/queue';
 import { copyGmailDiagnosticsToClipboard } from '$lib/gmail/api';
 
-export async function flushOnce(now = Date.now()): Promise<void> {
-  // In server-managed auth mode, we rely on the server session; proceed and handle 401s per-call.
-  const db = await getDB();
-  const due = await getDueOps(now);
-  if (!due.length) return;
-
-  let anyOpsCompleted = false;
+// Lease owner for ops sent from this tab; the service worker uses its own (see replay.ts)
+const PAGE_OWNER = `page:${Math.random().toString(36).slice(2)}`;
 
-  // 1) Handle sendMessage ops individually
-  const sendOps = due.filter((o) => o.op.type === 'sendMessage');
-  for (const o of sendOps) {
+// Outboxes of signed-in accounts other than the active one. Each op is sent with
+// its own account's session: the proxy transport names the account in a header.
+async function flushOtherAccounts(active: string, now: number): Promise<void> {
+  for (const sub of await listAccountSubs()) {
+    if (sub === active) continue;
     try {
-      await sendMessageRaw(o.op.raw, o.op.threadId);
-      const tx = db.transaction('ops', 'readwrite');
-      await tx.store.delete(o.id);
-      await tx.done;
-      anyOpsCompleted = true;
-    } catch (e: unknown) {
-      const tx = db.transaction('ops', 'readwrite');
-      o.attempts += 1;
-      o.nextAttemptAt = Date.now() + backoffDelay(o.attempts);
-      o.lastError = e instanceof Error ? e.message : String(e);
-      await tx.store.put(o);
-      await tx.done;
-      // Attempt to copy diagnostics to clipboard to assist debugging
-      try {
-        await copyGmailDiagnosticsToClipboard({ reason: 'send_op_error', lastError: o.lastError, opId: o.id, attempts: o.attempts, pendingOps: (await db.getAll('ops')).length, lastUpdatedAt: Date.now() });
-      } catch (_) {}
+      await replayDueOps(createProxyTransport('/api/gmail', sub), PAGE_OWNER, now, {}, sub);
+    } catch (_) {
+      /* retried on the next tick */
     }
   }
+}
 
-  // 2) Coalesce batchModify ops by identical add/remove sets
-  const groups = new Map<string, QueuedOp[]>();
-  for (const op of due) {
-    if (op.op.type !== 'batchModify') continue;
-    const key = JSON.stringify({ add: op.op.addLabelIds.slice().sort(), rem: op.op.removeLabelIds.slice().sort() });
-    const arr = groups.get(key) || [];
-    arr.push(op);
-    groups.set(key, arr);
-  }
-
-  for (const [, ops] of groups) {
-    const ids = Array.from(new Set(ops.flatMap((o) => o.op.ids)));
-    const addLabelIds = ops[0].op.addLabelIds;
-    const removeLabelIds = ops[0].op.removeLabelIds;
-    try {
-      await batchModify(ids, addLabelIds, removeLabelIds);
-      
-      // DO NOT reconcile with server immediately after operation success
-      // Gmail's eventual consistency is unpredictable (can take 1-10+ seconds)
-      // Immediate reconciliation causes thread resurrection when server returns stale state
-      // Instead: Trust our optimistic local state, let authoritative sync handle reconciliation
-      
-      // Success: delete ops from queue
-      const tx = db.transaction('ops', 'readwrite');
-      for (const o of ops) await tx.store.delete(o.id);
-      await tx.done;
-      anyOpsCompleted = true;
-    } catch (e: unknown) {
-      // Retry with backoff
-      const tx = db.transaction('ops', 'readwrite');
-      for (const o of ops) {
-        o.attempts += 1;
-        o.nextAttemptAt = Date.now() + backoffDelay(o.attempts);
-        const message = e instanceof Error ? e.message : String(e);
-        o.lastError = message;
-        await tx.store.put(o);
-        // DO NOT reconcile with server state on failure - preserve optimistic local state
-        // The operation will be retried, and authoritative sync will handle discrepancies
-      }
-      await tx.done;
-      // Clipboard diagnostics with summary
-      try {
-        const pending = await db.getAll('ops');
-        await copyGmailDiagnosticsToClipboard({ reason: 'batch_modify_error', lastError: (e instanceof Error ? e.message : String(e)), groupSize: ops.length, uniqueIds: ids.length, addLabelIds, removeLabelIds, pendingOps: pending.length, lastUpdatedAt: Date.now() });
-      } catch (_) {}
+export async function flushOnce(now = Date.now()): Promise<void> {
+  const active = getActiveAccount();
+  await flushOtherAccounts(active, now);
+  // In server-managed auth mode, we rely on the server session; proceed and handle 401s per-call.
+  const db = await getDB(active);
+  const result = await replayDueOps({ batchModify, sendMessage: sendMessageRaw, createDraft, updateDraft, sendDraft, deleteDraft }, PAGE_OWNER, now, {
+    // Attempt to copy diagnostics to clipboard to assist debugging
+    onSendError: async (o) => {
+      await copyGmailDiagnosticsToClipboard({ reason: 'send_op_error', lastError: o.lastError, opId: o.id, attempts: o.attempts, pendingOps: (await db.getAll('ops')).length, lastUpdatedAt: Date.now() });
+    },
+    onBatchError: async (ops, ids, e) => {
+      const first = ops[0].op;
+      const pending = await db.getAll('ops');
+      await copyGmailDiagnosticsToClipboard({ reason: 'batch_modify_error', lastError: (e instanceof Error ? e.message : String(e)), groupSize: ops.length, uniqueIds: ids.length, addLabelIds: first.type === 'batchModify' ? first.addLabelIds : [], removeLabelIds: first.type === 'batchModify' ? first.removeLabelIds : [], pendingOps: pending.length, lastUpdatedAt: Date.now() });
     }
-  }
+  }, active);
+  if (!result.completed && !result.failed) return;
+  const anyOpsCompleted = result.completed > 0;
   
   // After operations complete, check if we should reset optimistic counters
   // We reset when there are no more pending operations (all synced to server)
   // We preserve counters when there are still pending ops (they reflect the pending changes)
   if (anyOpsCompleted) {
     try {
-      const remainingOps = await db.getAll('ops');
+      const remainingOps = (await db.getAll('ops')).filter((o) => !isScheduled(o));
       if (!remainingOps || remainingOps.length === 0) {
         const { resetOptimisticCounters } = await import('$lib/stores/optimistic-counters');
         resetOptimisticCounters();
@@ -1,24 +1,27 @@
-import { getDB } from '$lib/db/indexeddb';
-import { enqueueBatchModify, enqueueSendMessage, hashIntent } from '$lib/queue/ops';
-import type { GmailMessage, GmailThread, QueuedOp } from '$lib/types';
+import { getActiveAccount, getDB } from '$lib/db/indexeddb';
+import { enqueueBatchModify, enqueueSendMessage, hashIntent, removeOp } from '$lib/queue/ops';
+import type { GmailMessage, GmailThread, JournalEntry, QueuedOp } from '$lib/types';
 import { get } from 'svelte/store';
 import { messages as messagesStore, threads as threadsStore } from '$lib/stores/threads';
 import { counts } from '$lib/stores/counts';
 import { settings } from '$lib/stores/settings';
+import { recurringSnoozeLabel } from '$lib/snooze/recurring';
 
-const ACCOUNT_SUB = 'me';
+// Undone entries move to the `redo` store (ordered by undoneAt) so redo survives a
+// reload; redo re-applies from there and removes entries as they are re-applied.
 
-type JournalEntry = {
-  id: string;
-  createdAt: number;
-  threadId: string;
-  intent: { type: string; addLabelIds: string[]; removeLabelIds: string[]; ruleKey?: string };
-  inverse: { addLabelIds: string[]; removeLabelIds: string[] };
-};
+/**
+ * Only this recent slice of the journal shields a thread from server reconciliation
+ * in applyRemoteLabels. Older entries are kept for undo and the Activity view only.
+ */
+export const JOURNAL_PROTECTION_MS = 10 * 60 * 1000;
+
+const DEFAULT_JOURNAL_RETENTION_DAYS = 30;
 
-// In-memory redo stack for the current session. When an entry is undone, we push it here.
-// Redo will re-apply from this stack and clear entries as they are re-applied.
-const undoneStack: JournalEntry[] = [];
+function journalRetentionMs(): number {
+  const days = Number(get(settings).journalRetentionDays || DEFAULT_JOURNAL_RETENTION_DAYS);
+  return Math.max(1, days) * 24 * 60 * 60 * 1000;
+}
 
 function applyLabels(list: string[], add: string[], remove: string[]): string[] {
   const set = new Set(list);
@@ -27,6 +30,19 @@ function applyLabels(list: string[], add: string[], remove: string[]): string[]
   return Array.from(set);
 }
 
+// Change in inbox / unread-in-inbox counts when a thread goes from `labels` to labels+add-remove
+function countDeltas(labels: string[], addLabelIds: string[], removeLabelIds: string[]): { inboxDelta: number; unreadDelta: number } {
+  const current = new Set(labels);
+  const next = new Set(applyLabels(labels, addLabelIds, removeLabelIds));
+  // Unread counts only WITHIN the inbox
+  const wasUnreadInbox = current.has('INBOX') && current.has('UNREAD');
+  const willBeUnreadInbox = next.has('INBOX') && next.has('UNREAD');
+  return {
+    inboxDelta: (next.has('INBOX') ? 1 : 0) - (current.has('INBOX') ? 1 : 0),
+    unreadDelta: (willBeUnreadInbox ? 1 : 0) - (wasUnreadInbox ? 1 : 0)
+  };
+}
+
 export async function updateLocalThreadAndMessages(
   threadId: string,
   addLabelIds: string[],
@@ -84,7 +100,7 @@ async function maybeEnqueue(
   // Dedupe by scopeKey + opHash
   const byScope = await db.getAllFromIndex('ops', 'by_scopeKey', threadId);
   if (byScope.some((o) => o.opHash === opHash)) return null;
-  return enqueueBatchModify(ACCOUNT_SUB, messageIds, addLabelIds, removeLabelIds, threadId);
+  return enqueueBatchModify(getActiveAccount(), messageIds, addLabelIds, removeLabelIds, threadId);
 }
 
 export async function queueThreadModify(threadId: string, addLabelIds: string[], removeLabelIds: string[], options?: { optimisticLocal?: boolean }) {
@@ -95,24 +111,7 @@ export async function queueThreadModify(threadId: string, addLabelIds: string[],
   // Calculate optimistic counter adjustments BEFORE updating local state
   // This ensures accurate delta calculation based on the original labels
   try {
-    const currentLabels = new Set(thread.labelIds || []);
-    const wasInInbox = currentLabels.has('INBOX');
-    const wasUnread = currentLabels.has('UNREAD');
-    
-    // Apply the pending changes to calculate new state
-    const newLabels = new Set(currentLabels);
-    for (const label of removeLabelIds) newLabels.delete(label);
-    for (const label of addLabelIds) newLabels.add(label);
-    
-    const willBeInInbox = newLabels.has('INBOX');
-    const willBeUnread = newLabels.has('UNREAD');
-    
-    // Calculate deltas based on unread status WITHIN the inbox
-    const wasUnreadInbox = wasInInbox && wasUnread;
-    const willBeUnreadInbox = willBeInInbox && willBeUnread;
-    
-    const inboxDelta = (willBeInInbox ? 1 : 0) - (wasInInbox ? 1 : 0);
-    const unreadDelta = (willBeUnreadInbox ? 1 : 0) - (wasUnreadInbox ? 1 : 0);
+    const { inboxDelta, unreadDelta } = countDeltas(thread.labelIds || [], addLabelIds, removeLabelIds);
     
     // Update global counts store optimistically for TopAppBar
     if (inboxDelta !== 0 || unreadDelta !== 0) {
@@ -155,6 +154,13 @@ export async function queueThreadModify(threadId: string, addLabelIds: string[],
 }
 
 export async function archiveThread(threadId: string, options?: { optimisticLocal?: boolean }) {
+  // A thread on a recurring snooze goes back under its snooze label instead
+  const again = await recurringSnoozeLabel(threadId);
+  if (again) {
+    await queueThreadModify(threadId, [again.labelId], ['INBOX'], options);
+    await recordIntent(threadId, { type: 'snooze', addLabelIds: [again.labelId], removeLabelIds: ['INBOX'], ruleKey: again.ruleKey }, { addLabelIds: ['INBOX'], removeLabelIds: [again.labelId] });
+    return;
+  }
   await queueThreadModify(threadId, [], ['INBOX'], options);
   await recordIntent(threadId, { type: 'archive', addLabelIds: [], removeLabelIds: ['INBOX'] }, { addLabelIds: ['INBOX'], removeLabelIds: [] });
 }
@@ -196,12 +202,16 @@ function formatIntentLabel(e: JournalEntry): string {
       return e.intent.ruleKey ? `Snoozed ${e.intent.ruleKey}` : 'Snoozed';
     case 'unsnooze':
       return 'Unsnoozed';
+    case 'removeLabel':
+      return 'Removed label';
     default:
       return t;
   }
 }
 
-async function buildEntryDescriptions(entries: JournalEntry[]): Promise<Array<{ id: string; createdAt: number; threadId: string; type: string; description: string }>> {
+export type JournalItem = { id: string; createdAt: number; threadId: string; type: string; action: string; subject: string; description: string };
+
+async function buildEntryDescriptions(entries: JournalEntry[]): Promise<JournalItem[]> {
   const db = await getDB();
   // Preload threads involved to derive subjects
   const threadsMap = new Map<string, GmailThread | undefined>();
@@ -219,23 +229,45 @@ async function buildEntryDescriptions(entries: JournalEntry[]): Promise<Array<{
       createdAt: e.createdAt,
       threadId: e.threadId,
       type: e.intent.type,
+      action,
+      subject,
       description: `${action} • ${subject}`
     };
   });
 }
 
-export async function getUndoHistory(limit = 10): Promise<Array<{ id: string; createdAt: number; threadId: string; type: string; description: string }>> {
+export async function getUndoHistory(limit = 10): Promise<JournalItem[]> {
   const db = await getDB();
   const entries = await db.getAllFromIndex('journal', 'by_createdAt');
-  const recent = entries.slice(-limit).reverse() as JournalEntry[]; // most recent first
+  const recent = entries.slice(-limit).reverse(); // most recent first
   return buildEntryDescriptions(recent);
 }
 
-export async function getRedoHistory(limit = 10): Promise<Array<{ id: string; createdAt: number; threadId: string; type: string; description: string }>> {
-  const recent = undoneStack.slice(-limit).reverse(); // most recently undone first
+export async function getRedoHistory(limit = 10): Promise<JournalItem[]> {
+  const db = await getDB();
+  const entries = await db.getAllFromIndex('redo', 'by_undoneAt');
+  const recent = entries.slice(-limit).reverse(); // most recently undone first
   return buildEntryDescriptions(recent);
 }
 
+/** Every journal entry within the retention period, most recent first (Activity view). */
+export async function getActivityHistory(): Promise<JournalItem[]> {
+  const db = await getDB();
+  const entries = await db.getAllFromIndex('journal', 'by_createdAt');
+  return buildEntryDescriptions(entries.reverse());
+}
+
+// Pushes undone entries onto the redo stack; the first entry ends up on top
+async function pushRedo(entries: JournalEntry[]): Promise<void> {
+  const db = await getDB();
+  const now = Date.now();
+  const tx = db.transaction('redo', 'readwrite');
+  for (let i = 0; i < entries.length; i++) {
+    await tx.store.put({ ...entries[i], undoneAt: now + entries.length - 1 - i });
+  }
+  await tx.done;
+}
+
 export async function recordIntent(
   threadId: string,
   intent: { type: string; addLabelIds: string[]; removeLabelIds: string[]; ruleKey?: string },
@@ -246,30 +278,39 @@ export async function recordIntent(
   const entry = { id: crypto.randomUUID(), createdAt: Date.now(), threadId, intent, inverse };
   await db.put('journal', entry);
   // Any new forward action should invalidate redo history unless it's from a redo
-  if (!options || options.source !== 'redo') undoneStack.length = 0;
+  if (!options || options.source !== 'redo') await db.clear('redo');
+  // The server executor times snoozes from the report, not from when it first sees the label
+  if (intent.type === 'snooze' && get(settings).serverSnooze) {
+    const { reportServerSnooze } = await import('$lib/snooze/server');
+    reportServerSnooze(threadId, intent.addLabelIds, entry.createdAt);
+  }
   
-  // Prune old journal entries (older than 10 minutes) to prevent unbounded growth
-  // Journal is used for undo and for protecting recent user actions during sync
+  // Prune entries past the retention period to prevent unbounded growth
   void pruneOldJournalEntries();
 }
 
 /**
- * Remove journal entries older than 10 minutes
+ * Remove journal and redo entries older than the retention period
+ * (`journalRetentionDays`, 30 days by default).
  * Journal entries serve two purposes:
- * 1. Enable undo functionality (keep recent entries)
- * 2. Protect user actions during sync (only need last few minutes)
+ * 1. Enable undo and the Activity view (kept for the whole retention period)
+ * 2. Protect user actions during sync (only the last JOURNAL_PROTECTION_MS)
  */
-export async function pruneOldJournalEntries(maxAgeMs = 10 * 60 * 1000): Promise<number> {
+export async function pruneOldJournalEntries(maxAgeMs = journalRetentionMs()): Promise<number> {
   try {
     const db = await getDB();
     const cutoff = Date.now() - maxAgeMs;
     const allEntries = await db.getAll('journal');
-    const toDelete = allEntries.filter((e: any) => e && e.createdAt && e.createdAt < cutoff);
+    const toDelete = allEntries.filter((e) => e && e.createdAt && e.createdAt < cutoff);
+    const staleRedo = (await db.getAll('redo')).filter((e) => e.undoneAt < cutoff);
     
-    if (toDelete.length > 0) {
-      const tx = db.transaction('journal', 'readwrite');
+    if (toDelete.length > 0 || staleRedo.length > 0) {
+      const tx = db.transaction(['journal', 'redo'], 'readwrite');
       for (const entry of toDelete) {
-        await tx.store.delete((entry as any).id);
+        await tx.objectStore('journal').delete(entry.id);
+      }
+      for (const entry of staleRedo) {
+        await tx.objectStore('redo').delete(entry.id);
       }
       await tx.done;
       console.log(`[Journal] Pruned ${toDelete.length} old entries (cutoff: ${new Date(cutoff).toISOString()})`);
@@ -287,13 +328,13 @@ export async function undoLast(n = 1): Promise<void> {
   try {
     // Read entries outside of a long-lived transaction to avoid auto-close issues
     const entries = await db.getAllFromIndex('journal', 'by_createdAt');
-    const toUndo = entries.slice(-n).reverse() as JournalEntry[];
+    const toUndo = entries.slice(-n).reverse();
+
+    // Track in the redo stack
+    await pushRedo(toUndo);
 
     const idsToDelete: string[] = [];
     for (const e of toUndo) {
-      // Track in redo stack
-      undoneStack.push(e);
-      
       // Undo updates local state immediately for instant feedback
       await queueThreadModify(e.threadId, e.inverse.addLabelIds, e.inverse.removeLabelIds);
       idsToDelete.push(e.id);
@@ -323,15 +364,17 @@ export async function undoLast(n = 1): Promise<void> {
 
 export async function redoLast(n = 1): Promise<void> {
   try {
-    // Re-apply from the in-memory undone stack
-    const toRedo = undoneStack.slice(-n);
-    for (const e of toRedo) {
+    // Re-apply from the top of the persisted redo stack
+    const db = await getDB();
+    const stack = await db.getAllFromIndex('redo', 'by_undoneAt');
+    const toRedo = n > 0 ? stack.slice(-n).reverse() : [];
+    for (const { undoneAt: _undoneAt, ...e } of toRedo) {
       // Redo updates local state immediately for instant feedback
       await queueThreadModify(e.threadId, e.intent.addLabelIds, e.intent.removeLabelIds);
       await recordIntent(e.threadId, e.intent, e.inverse, { source: 'redo' });
+      // Remove the re-applied entry from the stack
+      await db.delete('redo', e.id);
     }
-    // Remove the re-applied entries from the stack
-    if (n > 0) undoneStack.splice(undoneStack.length - Math.min(n, undoneStack.length), Math.min(n, undoneStack.length));
   } catch (err) {
     // eslint-disable-next-line no-console
     console.error('[redoLast] error', err);
@@ -363,8 +406,10 @@ export async function applyRemoteLabels(
   const locallyAddedLabels = new Set<string>();
   try {
     const journalAll = await db.getAll('journal');
+    const protectedSince = Date.now() - JOURNAL_PROTECTION_MS;
     for (const e of journalAll as any[]) {
       if (!e || e.threadId !== threadId || !e.intent) continue;
+      if (!e.createdAt || e.createdAt < protectedSince) continue;
       const rem = Array.isArray(e.intent.removeLabelIds) ? e.intent.removeLabelIds : [];
       const add = Array.isArray(e.intent.addLabelIds) ? e.intent.addLabelIds : [];
       if (rem.includes('INBOX')) {
@@ -445,14 +490,87 @@ export async function applyRemoteLabels(
   messagesStore.set({ ...currentMessages, ...updatedMessages });
 }
 
-export async function queueSendRaw(rawRfc2822: string, threadId?: string): Promise<void> {
+/**
+ * Cancels a queued op before it reaches Gmail. Label changes are reverted locally
+ * through the matching journal entry's inverse; nothing is sent because the
+ * server never saw the change. Draft sends and discards return the draft to
+ * Drafts. Returns false if the op is already in flight or gone.
+ */
+export async function cancelQueuedOp(opId: string): Promise<boolean> {
+  const removed = await removeOp(opId);
+  if (!removed) return false;
+  const op = removed.op;
+  if (op.type === 'batchModify') {
+    const db = await getDB();
+    const threadId = removed.scopeKey;
+    const sameSet = (a: string[], b: string[]) => a.length === b.length && a.every((x) => b.includes(x));
+    const entries = (await db.getAllFromIndex('journal', 'by_createdAt')) as JournalEntry[];
+    const entry = entries
+      .reverse()
+      .find((e) => e.threadId === threadId && sameSet(e.intent.addLabelIds, op.addLabelIds) && sameSet(e.intent.removeLabelIds, op.removeLabelIds));
+    // Journal entries are pruned after a while; the op's own change is the fallback inverse
+    const inverse = entry?.inverse || { addLabelIds: op.removeLabelIds, removeLabelIds: op.addLabelIds };
+    const thread = await db.get('threads', threadId);
+    if (thread) {
+      const { inboxDelta, unreadDelta } = countDeltas(thread.labelIds || [], inverse.addLabelIds, inverse.removeLabelIds);
+      if (inboxDelta !== 0 || unreadDelta !== 0) {
+        counts.update((c) => ({
+          ...c,
+          inbox: Math.max(0, c.inbox + inboxDelta),
+          unread: Math.max(0, c.unread + unreadDelta),
+          lastUpdated: Date.now()
+        }));
+      }
+      await updateLocalThreadAndMessages(threadId, inverse.addLabelIds, inverse.removeLabelIds);
+    }
+    if (entry) await db.delete('journal', entry.id);
+  } else if (op.type === 'draftSend' || op.type === 'draftDelete') {
+    const { restoreDraft } = await import('$lib/compose/drafts');
+    await restoreDraft(op.draftId);
+  }
+  try {
+    const { refreshSyncState } = await import('$lib/stores/queue');
+    await refreshSyncState();
+  } catch (_) {
+    /* best-effort */
+  }
+  return true;
+}
+
+/**
+ * Reverts one journaled action (Activity view). The inverse is queued as a new
+ * label change, so this also works long after the original op reached Gmail.
+ * If the thread has since left the local cache it is fetched first. The entry
+ * moves to the redo stack like an undo. Returns false if the entry is gone.
+ */
+export async function revertJournalEntry(id: string): Promise<boolean> {
+  const db = await getDB();
+  const entry = await db.get('journal', id);
+  if (!entry) return false;
+  if (!(await db.get('threads', entry.threadId))) {
+    const { getThreadSummary } = await import('$lib/gmail/api');
+    const { thread, messages } = await getThreadSummary(entry.threadId);
+    const tx = db.transaction(['threads', 'messages'], 'readwrite');
+    await tx.objectStore('threads').put(thread);
+    for (const m of messages) await tx.objectStore('messages').put(m);
+    await tx.done;
+  }
+  await pushRedo([entry]);
+  await queueThreadModify(entry.threadId, entry.inverse.addLabelIds, entry.inverse.removeLabelIds);
+  await db.delete('journal', id);
+  return true;
+}
+
+/** Resolves to the queued op's id (follow-up watches wait on it). */
+export async function queueSendRaw(rawRfc2822: string, threadId?: string): Promise<string> {
   // No local state to mutate for compose. Just enqueue and let flush handle retries.
-  await enqueueSendMessage(ACCOUNT_SUB, rawRfc2822, threadId);
+  const op = await enqueueSendMessage(getActiveAccount(), rawRfc2822, threadId);
   
   // Refresh sync state to update pending operations count
   try {
     const { refreshSyncState } = await import('$lib/stores/queue');
     await refreshSyncState();
   } catch (_) {}
+  return op.id;
 }
 
@@ -1,7 +1,39 @@
-import { getDB } from '$lib/db/indexeddb';
-import type { QueuedOp } from '$lib/types';
+import { getActiveAccount, getDB } from '$lib/db/indexeddb';
+import type { QueuedOp, RawPayload } from '$lib/types';
 import { v4 as uuidv4 } from 'uuid';
 
+/** Background Sync tag the service worker replays the outbox under. */
+export const OPS_SYNC_TAG = 'jmail-ops-flush';
+
+/**
+ * Asks the service worker to replay the outbox once connectivity allows, even
+ * if every tab has been closed by then. No-op where Background Sync is missing.
+ */
+export async function requestBackgroundSync(): Promise<boolean> {
+  try {
+    if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return false;
+    const reg = (await navigator.serviceWorker.getRegistration()) as
+      | (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } })
+      | undefined;
+    if (!reg?.sync) return false;
+    await reg.sync.register(OPS_SYNC_TAG);
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+/** Messages above this size are stored as a Blob rather than a string in the op. */
+export const LARGE_RAW_BYTES = 256 * 1024;
+
+export function toRawPayload(raw: string): RawPayload {
+  return raw.length > LARGE_RAW_BYTES ? new Blob([raw], { type: 'text/plain' }) : raw;
+}
+
+export async function readRawPayload(raw: RawPayload): Promise<string> {
+  return typeof raw === 'string' ? raw : await raw.text();
+}
+
 export function hashIntent(input: unknown): string {
   const json = JSON.stringify(input);
   let hash = 0;
@@ -20,7 +52,7 @@ export async function enqueueBatchModify(
   removeLabelIds: string[],
   scopeKey: string
 ): Promise<QueuedOp> {
-  const db = await getDB();
+  const db = await getDB(accountSub);
   const intent = { type: 'batchModify' as const, ids, addLabelIds, removeLabelIds };
   const op: QueuedOp = {
     id: uuidv4(),
@@ -33,6 +65,7 @@ export async function enqueueBatchModify(
     nextAttemptAt: Date.now()
   };
   await db.put('ops', op);
+  void requestBackgroundSync();
   return op;
 }
 
@@ -41,30 +74,148 @@ export async function enqueueSendMessage(
   raw: string,
   threadId?: string
 ): Promise<QueuedOp> {
-  const db = await getDB();
+  const db = await getDB(accountSub);
   const intent = { type: 'sendMessage' as const, raw, threadId };
   const op: QueuedOp = {
     id: uuidv4(),
     accountSub,
-    op: intent,
+    op: { ...intent, raw: toRawPayload(raw) },
     scopeKey: threadId || `compose:${uuidv4()}`,
+    // Hash the string form: a Blob serializes to `{}` and would collide
     opHash: hashIntent(intent),
     createdAt: Date.now(),
     attempts: 0,
     nextAttemptAt: Date.now()
   };
   await db.put('ops', op);
+  void requestBackgroundSync();
   return op;
 }
 
-export async function getDueOps(now = Date.now()): Promise<QueuedOp[]> {
+/**
+ * Queues a Gmail drafts op for a local draft. Pending saves for the same draft
+ * that no flusher has picked up yet are dropped: only the newest content needs
+ * to reach Gmail, and a send or delete supersedes them entirely. `sendAt` holds
+ * the op back until then (send later); getDueOps simply does not return it yet.
+ */
+export async function enqueueDraftOp(
+  accountSub: string,
+  intent: { type: 'draftCreate' | 'draftUpdate' | 'draftSend'; draftId: string; raw: string; threadId?: string } | { type: 'draftDelete'; draftId: string },
+  sendAt?: number
+): Promise<QueuedOp> {
+  const db = await getDB(accountSub);
+  const now = Date.now();
+  const op: QueuedOp = {
+    id: uuidv4(),
+    accountSub,
+    op: 'raw' in intent ? { ...intent, raw: toRawPayload(intent.raw) } : intent,
+    scopeKey: `draft:${intent.draftId}`,
+    opHash: hashIntent(intent),
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: sendAt && sendAt > now ? sendAt : now
+  };
+  if (sendAt && sendAt > now) op.scheduledAt = sendAt;
+  const tx = db.transaction('ops', 'readwrite');
+  const pending = await tx.store.index('by_scopeKey').getAll(op.scopeKey);
+  for (const o of pending) {
+    if (!isLeasedAt(o, now) && (o.op.type === 'draftCreate' || o.op.type === 'draftUpdate')) await tx.store.delete(o.id);
+  }
+  await tx.store.put(op);
+  await tx.done;
+  void requestBackgroundSync();
+  return op;
+}
+
+/** Attempts after which an op moves to the failed (dead-letter) state instead of retrying. */
+export const MAX_OP_ATTEMPTS = 10;
+
+export function isFailed(op: QueuedOp): boolean {
+  return !!op.failedAt;
+}
+
+/** True while a send-later op is still waiting for its time. */
+export function isScheduled(op: QueuedOp, now = Date.now()): boolean {
+  return !!op.scheduledAt && op.scheduledAt > now;
+}
+
+function isLeasedAt(op: QueuedOp, now: number): boolean {
+  return !!op.leaseId && (op.leaseUntil || 0) > now;
+}
+
+/** Moves a not-yet-sent op to a new time. Returns null if it is already in flight or gone. */
+export async function rescheduleOp(id: string, at: number): Promise<QueuedOp | null> {
   const db = await getDB();
+  const tx = db.transaction('ops', 'readwrite');
+  const op = await tx.store.get(id);
+  if (!op || isLeasedAt(op, Date.now())) {
+    await tx.done;
+    return null;
+  }
+  const next: QueuedOp = { ...op, scheduledAt: at, nextAttemptAt: at };
+  await tx.store.put(next);
+  await tx.done;
+  return next;
+}
+
+/** Takes a failed op out of the dead-letter state and makes it due right away. */
+export async function retryOp(id: string): Promise<QueuedOp | null> {
+  const db = await getDB();
+  const tx = db.transaction('ops', 'readwrite');
+  const op = await tx.store.get(id);
+  if (!op) {
+    await tx.done;
+    return null;
+  }
+  const { failedAt: _failedAt, lastError: _lastError, ...rest } = op;
+  const next: QueuedOp = { ...rest, attempts: 0, nextAttemptAt: Date.now() };
+  await tx.store.put(next);
+  await tx.done;
+  void requestBackgroundSync();
+  return next;
+}
+
+/**
+ * Swaps the queue position of two ops. Replay sends due ops in `createdAt` order,
+ * so exchanging their timestamps is enough to reorder them.
+ */
+export async function swapOpOrder(aId: string, bId: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('ops', 'readwrite');
+  const [a, b] = await Promise.all([tx.store.get(aId), tx.store.get(bId)]);
+  if (a && b) {
+    await tx.store.put({ ...a, createdAt: b.createdAt });
+    await tx.store.put({ ...b, createdAt: a.createdAt });
+  }
+  await tx.done;
+}
+
+/** Deletes an op before it is sent. Returns the removed op, or null if it is in flight or gone. */
+export async function removeOp(id: string): Promise<QueuedOp | null> {
+  const db = await getDB();
+  const tx = db.transaction('ops', 'readwrite');
+  const op = await tx.store.get(id);
+  if (!op || isLeasedAt(op, Date.now())) {
+    await tx.done;
+    return null;
+  }
+  await tx.store.delete(id);
+  await tx.done;
+  return op;
+}
+
+export async function getDueOps(now = Date.now(), accountSub = getActiveAccount()): Promise<QueuedOp[]> {
+  const db = await getDB(accountSub);
   const tx = db.transaction('ops');
   const idx = tx.store.index('by_nextAttemptAt');
   const results: QueuedOp[] = [];
   let cursor = await idx.openCursor();
   while (cursor) {
-    if (cursor.value.nextAttemptAt <= now) results.push(cursor.value);
+    const o = cursor.value;
+    // Skip ops another flusher (page or service worker) is currently sending,
+    // and dead-lettered ops that wait for the user in the Outbox
+    const leased = !!o.leaseId && (o.leaseUntil || 0) > now;
+    if (o.nextAttemptAt <= now && !leased && !o.failedAt) results.push(o);
     cursor = await cursor.continue();
   }
   return results;
@@ -82,7 +233,10 @@ export async function pruneDuplicateOps(): Promise<void> {
   const all = await db.getAll('ops');
   const byKey = new Map<string, QueuedOp>();
   const toDelete: string[] = [];
+  const now = Date.now();
   for (const o of all) {
+    // Never drop an op that is in flight; its twin is pruned on a later pass
+    if (o.leaseId && (o.leaseUntil || 0) > now) continue;
     const key = `${o.scopeKey}:${o.opHash}`;
     if (byKey.has(key)) toDelete.push(o.id);
     else byKey.set(key, o);
@@ -0,0 +1,163 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect } from 'vitest';
+import { getDB } from '$lib/db/indexeddb';
+import type { QueuedOp } from '$lib/types';
+import { MAX_OP_ATTEMPTS } from './ops';
+import { OP_LEASE_MS, leaseFor, replayDueOps, type OpTransport } from './replay';
+
+// Real time: rescheduled ops get their backoff from Date.now()
+const NOW = Date.now();
+let accounts = 0;
+
+/** A fresh account, so every test gets its own outbox database. */
+function account(): string {
+  return `replay-test-${++accounts}`;
+}
+
+function batchOp(accountSub: string, id: string, extra: Partial<QueuedOp> = {}): QueuedOp {
+  return {
+    id,
+    accountSub,
+    op: { type: 'batchModify', ids: [`m-${id}`], addLabelIds: [], removeLabelIds: ['INBOX'] },
+    scopeKey: `t-${id}`,
+    opHash: id,
+    createdAt: NOW - 1000,
+    attempts: 0,
+    nextAttemptAt: NOW - 1000,
+    ...extra
+  };
+}
+
+/** Records batchModify calls (and, in `log`, every call in order); `fail` makes batchModify throw. */
+function fakeTransport(fail = false) {
+  const calls: string[][] = [];
+  const log: string[] = [];
+  const transport: OpTransport = {
+    async batchModify(ids, add, remove) {
+      calls.push(ids);
+      log.push(`modify +${add.join(',')} -${remove.join(',')} ${ids.join(',')}`);
+      if (fail) throw new Error('Gmail API error 500');
+    },
+    async sendMessage(raw) {
+      log.push(`send ${raw}`);
+      return {};
+    },
+    createDraft: async () => ({ id: 'd1' }),
+    updateDraft: async () => ({}),
+    sendDraft: async () => ({}),
+    deleteDraft: async () => ({})
+  };
+  return { transport, calls, log };
+}
+
+async function seed(accountSub: string, ops: QueuedOp[]) {
+  const db = await getDB(accountSub);
+  for (const o of ops) await db.put('ops', o);
+  return db;
+}
+
+describe('replayDueOps', () => {
+  it('leaves leased ops to their owner until the lease expires, then reclaims them', async () => {
+    const sub = account();
+    const db = await seed(sub, [batchOp(sub, 'a', { leaseId: 'other-tab', leaseUntil: NOW + 1000 })]);
+    const { transport, calls } = fakeTransport();
+
+    const held = await replayDueOps(transport, 'me-tab', NOW, {}, sub);
+    expect(calls).toEqual([]);
+    expect(await db.get('ops', 'a')).toBeDefined();
+    expect(held.completed).toBe(0);
+
+    const later = await replayDueOps(transport, 'me-tab', NOW + OP_LEASE_MS, {}, sub);
+    expect(calls).toEqual([['m-a']]);
+    expect(later.completed).toBe(1);
+    expect(await db.get('ops', 'a')).toBeUndefined();
+  });
+
+  it('skips ops scheduled for later', async () => {
+    const sub = account();
+    const db = await seed(sub, [batchOp(sub, 'a', { nextAttemptAt: NOW + 60_000, scheduledAt: NOW + 60_000 })]);
+    const { transport, calls } = fakeTransport();
+
+    const result = await replayDueOps(transport, 'me-tab', NOW, {}, sub);
+    expect(calls).toEqual([]);
+    expect(result).toEqual({ completed: 0, failed: 0, skipped: 0, deadLettered: 0 });
+    expect(await db.get('ops', 'a')).toBeDefined();
+  });
+
+  it('reschedules failures and dead-letters an op on its last attempt', async () => {
+    const sub = account();
+    const db = await seed(sub, [batchOp(sub, 'a'), batchOp(sub, 'b', { attempts: MAX_OP_ATTEMPTS - 1 })]);
+    const { transport } = fakeTransport(true);
+
+    const result = await replayDueOps(transport, 'me-tab', NOW, {}, sub);
+    expect(result.failed).toBe(2);
+    expect(result.deadLettered).toBe(1);
+    const retried = await db.get('ops', 'a');
+    expect(retried?.attempts).toBe(1);
+    expect(retried?.failedAt).toBeUndefined();
+    expect(retried?.leaseId).toBeUndefined();
+    const dead = await db.get('ops', 'b');
+    expect(dead?.attempts).toBe(MAX_OP_ATTEMPTS);
+    expect(dead?.failedAt).toBeTypeOf('number');
+    expect(dead?.lastError).toBe('Gmail API error 500');
+
+    // Dead-lettered ops wait for the user in the Outbox and are never retried
+    const { transport: next, calls } = fakeTransport();
+    await replayDueOps(next, 'me-tab', NOW + 24 * 3600_000, {}, sub);
+    expect(calls).toEqual([['m-a']]);
+    expect(await db.get('ops', 'b')).toBeDefined();
+  });
+
+  it('runs ops in queue order, merging only adjacent identical label changes', async () => {
+    const sub = account();
+    const star = (id: string, createdAt: number): QueuedOp => ({
+      ...batchOp(sub, id, { createdAt }),
+      op: { type: 'batchModify', ids: [`m-${id}`], addLabelIds: ['STARRED'], removeLabelIds: [] }
+    });
+    const send: QueuedOp = { ...batchOp(sub, 's', { createdAt: NOW - 800 }), op: { type: 'sendMessage', raw: 'raw-s' } };
+    await seed(sub, [
+      batchOp(sub, 'a', { createdAt: NOW - 1000 }),
+      batchOp(sub, 'b', { createdAt: NOW - 900 }),
+      send,
+      star('c', NOW - 700),
+      batchOp(sub, 'd', { createdAt: NOW - 600 })
+    ]);
+    const { transport, log } = fakeTransport();
+
+    await replayDueOps(transport, 'me-tab', NOW, {}, sub);
+    expect(log).toEqual(['modify + -INBOX m-a,m-b', 'send raw-s', 'modify +STARRED - m-c', 'modify + -INBOX m-d']);
+  });
+
+  it('renews the lease before each send and leaves an op taken over meanwhile', async () => {
+    const sub = account();
+    const send = (id: string, createdAt: number): QueuedOp => ({ ...batchOp(sub, id, { createdAt }), op: { type: 'sendMessage', raw: `raw-${id}` } });
+    const db = await seed(sub, [send('a', NOW - 1000), send('b', NOW - 900), send('c', NOW - 800)]);
+    const { transport, log } = fakeTransport();
+    const leases: Array<number | undefined> = [];
+    transport.sendMessage = async (raw) => {
+      log.push(`send ${raw}`);
+      leases.push((await db.get('ops', raw.replace('raw-', '')))?.leaseUntil);
+      // A slow send: another tab reclaims "b" once its first lease has lapsed
+      if (raw === 'raw-a') {
+        const b = await db.get('ops', 'b');
+        await db.put('ops', { ...b!, leaseId: 'other-tab', leaseUntil: Date.now() + OP_LEASE_MS });
+      }
+      return {};
+    };
+
+    const result = await replayDueOps(transport, 'me-tab', NOW, {}, sub);
+    expect(log).toEqual(['send raw-a', 'send raw-c']);
+    expect(result).toMatchObject({ completed: 2, skipped: 1 });
+    expect(await db.get('ops', 'b')).toMatchObject({ leaseId: 'other-tab' });
+    // Renewed from the time of the send, not from the start of the pass
+    expect(leases[1]).toBeGreaterThanOrEqual(leases[0]!);
+  });
+
+  it('sizes the lease from the message payload', () => {
+    const small = leaseFor({ type: 'sendMessage', raw: 'x' });
+    const large = leaseFor({ type: 'sendMessage', raw: new Blob([new Uint8Array(25_000_000)]) });
+    expect(small).toBeGreaterThanOrEqual(OP_LEASE_MS);
+    expect(large - OP_LEASE_MS).toBeGreaterThan(10 * 60 * 1000);
+    expect(leaseFor({ type: 'batchModify', ids: [], addLabelIds: [], removeLabelIds: [] })).toBe(OP_LEASE_MS);
+  });
+});
@@ -0,0 +1,311 @@
+// Worker-safe replay of the `ops` outbox. This module is shared by the page flush
+// loop (queue/flush.ts) and the service worker's Background Sync handler, so it
+// must not touch window, svelte stores or the auth modules.
+import { PRIMARY_ACCOUNT, getActiveAccount, getDB } from '$lib/db/indexeddb';
+import type { QueuedOp } from '$lib/types';
+import { MAX_OP_ATTEMPTS, backoffDelay, getDueOps, readRawPayload } from './ops';
+
+/** How long a flusher may hold an op before another context may take it over. */
+export const OP_LEASE_MS = 2 * 60 * 1000;
+
+// Upload speed assumed when sizing a send's lease (~256 kbit/s), so a large attachment outlasts no lease
+const SLOW_UPLINK_BYTES_PER_MS = 32;
+
+export type OpTransport = {
+  batchModify(ids: string[], addLabelIds: string[], removeLabelIds: string[]): Promise<unknown>;
+  sendMessage(raw: string, threadId?: string): Promise<unknown>;
+  createDraft(raw: string, threadId?: string): Promise<{ id: string }>;
+  updateDraft(draftId: string, raw: string, threadId?: string): Promise<unknown>;
+  sendDraft(draftId: string, raw: string, threadId?: string): Promise<unknown>;
+  deleteDraft(draftId: string): Promise<unknown>;
+};
+
+export type ReplayHooks = {
+  onSendError?: (op: QueuedOp, error: unknown) => Promise<void> | void;
+  onBatchError?: (ops: QueuedOp[], ids: string[], error: unknown) => Promise<void> | void;
+};
+
+export type ReplayResult = {
+  /** Ops deleted from the queue after the server accepted them */
+  completed: number;
+  /** Ops that failed and were rescheduled with backoff (or dead-lettered) */
+  failed: number;
+  /** Ops that reached MAX_OP_ATTEMPTS during this pass and are now marked failed */
+  deadLettered: number;
+  /** Due ops skipped because another context holds their lease */
+  skipped: number;
+};
+
+function isLeased(op: QueuedOp, now: number): boolean {
+  return !!op.leaseId && typeof op.leaseUntil === 'number' && op.leaseUntil > now;
+}
+
+/**
+ * Atomically leases the given ops to `owner`. Readwrite transactions on the same
+ * store are serialized across the page and the service worker, so two flushers
+ * can never both claim (and send) the same op. Returns the ops actually claimed,
+ * re-read from the store.
+ */
+export async function claimOps(ops: QueuedOp[], owner: string, now = Date.now(), accountSub = getActiveAccount()): Promise<QueuedOp[]> {
+  if (!ops.length) return [];
+  const db = await getDB(accountSub);
+  const tx = db.transaction('ops', 'readwrite');
+  const claimed: QueuedOp[] = [];
+  for (const o of ops) {
+    const current = await tx.store.get(o.id);
+    // Already sent and deleted, or rescheduled by another flusher
+    if (!current || current.nextAttemptAt > now || current.failedAt) continue;
+    if (isLeased(current, now) && current.leaseId !== owner) continue;
+    const next: QueuedOp = { ...current, leaseId: owner, leaseUntil: now + leaseFor(current.op) };
+    await tx.store.put(next);
+    claimed.push(next);
+  }
+  await tx.done;
+  return claimed;
+}
+
+/** The lease an op needs: the base lease plus upload time for a message payload. */
+export function leaseFor(op: QueuedOp['op']): number {
+  if (!('raw' in op)) return OP_LEASE_MS;
+  const bytes = typeof op.raw === 'string' ? op.raw.length : op.raw.size;
+  return OP_LEASE_MS + Math.ceil(bytes / SLOW_UPLINK_BYTES_PER_MS);
+}
+
+/**
+ * Extends `owner`'s lease on `ops` right before they are sent; earlier sends in
+ * the same pass may have used up the lease taken by claimOps. Returns the ops
+ * still held: one whose lease lapsed and was taken over is left to its new owner.
+ */
+async function renewLeases(ops: QueuedOp[], owner: string, accountSub: string): Promise<QueuedOp[]> {
+  const db = await getDB(accountSub);
+  const tx = db.transaction('ops', 'readwrite');
+  const held: QueuedOp[] = [];
+  for (const o of ops) {
+    const current = await tx.store.get(o.id);
+    if (!current || current.leaseId !== owner) continue;
+    const next: QueuedOp = { ...current, leaseUntil: Date.now() + leaseFor(current.op) };
+    await tx.store.put(next);
+    held.push(next);
+  }
+  await tx.done;
+  return held;
+}
+
+async function completeOps(ops: QueuedOp[], accountSub: string): Promise<void> {
+  const db = await getDB(accountSub);
+  const tx = db.transaction('ops', 'readwrite');
+  for (const o of ops) await tx.store.delete(o.id);
+  await tx.done;
+}
+
+/** Reschedules failed ops with backoff; returns how many hit MAX_OP_ATTEMPTS and were dead-lettered. */
+async function rescheduleOps(ops: QueuedOp[], error: unknown, accountSub: string): Promise<number> {
+  const db = await getDB(accountSub);
+  const message = error instanceof Error ? error.message : String(error);
+  const tx = db.transaction('ops', 'readwrite');
+  let deadLettered = 0;
+  for (const o of ops) {
+    o.attempts += 1;
+    o.nextAttemptAt = Date.now() + backoffDelay(o.attempts);
+    o.lastError = message;
+    if (o.attempts >= MAX_OP_ATTEMPTS) {
+      o.failedAt = Date.now();
+      deadLettered += 1;
+    }
+    delete o.leaseId;
+    delete o.leaseUntil;
+    await tx.store.put(o);
+  }
+  await tx.done;
+  return deadLettered;
+}
+
+type DraftOp = Extract<QueuedOp['op'], { draftId: string }>;
+
+function isDraftOp(op: QueuedOp['op']): op is DraftOp {
+  return op.type === 'draftCreate' || op.type === 'draftUpdate' || op.type === 'draftSend' || op.type === 'draftDelete';
+}
+
+/**
+ * A follow-up watch created at send time (see $lib/snooze/follow-up) learns its thread
+ * once Gmail accepts the message, and counts replies from then on.
+ */
+async function attachFollowUps(opId: string, sent: unknown, accountSub: string): Promise<void> {
+  const threadId = (sent as { threadId?: string } | undefined)?.threadId;
+  if (!threadId) return;
+  const db = await getDB(accountSub);
+  const tx = db.transaction('followUps', 'readwrite');
+  for (const { opId: _sentOp, ...f } of await tx.store.index('by_opId').getAll(opId)) {
+    await tx.store.put({ ...f, threadId, since: Date.now() });
+  }
+  await tx.done;
+}
+
+/**
+ * Mirrors one local draft change to Gmail. Create and update are interchangeable
+ * at this point: whichever runs first creates the server draft and records its id,
+ * later saves update it. Send and delete remove the local record once Gmail confirms.
+ * Resolves to Gmail's sent message for draftSend.
+ */
+async function replayDraftOp(transport: OpTransport, op: DraftOp, accountSub: string): Promise<unknown> {
+  const db = await getDB(accountSub);
+  const record = await db.get('drafts', op.draftId);
+  const gmailDraftId = record?.gmailDraftId;
+
+  if (op.type === 'draftDelete') {
+    if (gmailDraftId) await transport.deleteDraft(gmailDraftId);
+    await db.delete('drafts', op.draftId);
+    return;
+  }
+  const raw = await readRawPayload(op.raw);
+  if (op.type === 'draftSend') {
+    // Never synced to Gmail: a plain send is equivalent and leaves no server draft behind
+    const sent = gmailDraftId ? await transport.sendDraft(gmailDraftId, raw, op.threadId) : await transport.sendMessage(raw, op.threadId);
+    await db.delete('drafts', op.draftId);
+    return sent;
+  }
+
+  // draftCreate / draftUpdate; a save for a draft already sent or discarded is obsolete
+  if (!record || record.status) return;
+  if (gmailDraftId) {
+    await transport.updateDraft(gmailDraftId, raw, op.threadId);
+    await db.put('drafts', { ...record, syncedAt: Date.now() });
+    return;
+  }
+  const created = await transport.createDraft(raw, op.threadId);
+  const tx = db.transaction('drafts', 'readwrite');
+  const latest = await tx.store.get(op.draftId);
+  if (latest && !latest.status) await tx.store.put({ ...latest, gmailDraftId: created.id, syncedAt: Date.now() });
+  await tx.done;
+  // Sent or discarded while the create was in flight: do not leave an orphan in Gmail
+  if (!latest || latest.status) {
+    try { await transport.deleteDraft(created.id); } catch { /* best-effort */ }
+  }
+}
+
+/**
+ * Sends every due op through `transport` in queue order: sendMessage and draft
+ * ops one by one, runs of batchModify ops with identical add/remove label sets as
+ * one call. Successful ops are deleted, failed ones are rescheduled with
+ * `backoffDelay`. Each account has its own outbox (see getDB); `transport` must
+ * send with that account's credentials.
+ */
+export async function replayDueOps(
+  transport: OpTransport,
+  owner: string,
+  now = Date.now(),
+  hooks: ReplayHooks = {},
+  accountSub = getActiveAccount()
+): Promise<ReplayResult> {
+  const result: ReplayResult = { completed: 0, failed: 0, skipped: 0, deadLettered: 0 };
+  // Offline failures would only burn through MAX_OP_ATTEMPTS; wait for connectivity
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return result;
+  const candidates = await getDueOps(now, accountSub);
+  if (!candidates.length) return result;
+  // Queue order (the Outbox lets users reorder ops by swapping createdAt)
+  const due = (await claimOps(candidates, owner, now, accountSub)).sort((a, b) => a.createdAt - b.createdAt);
+  result.skipped = candidates.length - due.length;
+
+  const sendOne = async (queued: QueuedOp) => {
+    const [o] = await renewLeases([queued], owner, accountSub);
+    if (!o) {
+      result.skipped += 1;
+      return;
+    }
+    try {
+      const sent = o.op.type === 'sendMessage'
+        ? await transport.sendMessage(await readRawPayload(o.op.raw), o.op.threadId)
+        : isDraftOp(o.op) ? await replayDraftOp(transport, o.op, accountSub) : undefined;
+      await completeOps([o], accountSub);
+      result.completed += 1;
+      if (o.op.type === 'sendMessage' || o.op.type === 'draftSend') {
+        try { await attachFollowUps(o.id, sent, accountSub); } catch { /* best-effort; the message is already sent */ }
+      }
+    } catch (e: unknown) {
+      result.deadLettered += await rescheduleOps([o], e, accountSub);
+      result.failed += 1;
+      try { await hooks.onSendError?.(o, e); } catch { /* best-effort */ }
+    }
+  };
+
+  const modifyBatch = async (run: QueuedOp[]) => {
+    const ops = await renewLeases(run, owner, accountSub);
+    result.skipped += run.length - ops.length;
+    if (!ops.length) return;
+    const first = ops[0].op as Extract<QueuedOp['op'], { type: 'batchModify' }>;
+    const ids = Array.from(new Set(ops.flatMap((o) => (o.op.type === 'batchModify' ? o.op.ids : []))));
+    try {
+      await transport.batchModify(ids, first.addLabelIds, first.removeLabelIds);
+      // DO NOT reconcile with server immediately after operation success
+      // Gmail's eventual consistency is unpredictable (can take 1-10+ seconds)
+      // Immediate reconciliation causes thread resurrection when server returns stale state
+      await completeOps(ops, accountSub);
+      result.completed += ops.length;
+    } catch (e: unknown) {
+      // DO NOT reconcile with server state on failure - preserve optimistic local state
+      result.deadLettered += await rescheduleOps(ops, e, accountSub);
+      result.failed += ops.length;
+      try { await hooks.onBatchError?.(ops, ids, e); } catch { /* best-effort */ }
+    }
+  };
+
+  // Strictly in queue order: a draft is created before it is sent, and a reordered
+  // Outbox runs as shown. Only adjacent batchModify ops with identical add/remove
+  // sets are coalesced, so merging never moves an op past another.
+  const labelKey = (o: QueuedOp) =>
+    o.op.type === 'batchModify' ? JSON.stringify({ add: o.op.addLabelIds.slice().sort(), rem: o.op.removeLabelIds.slice().sort() }) : null;
+  let run: QueuedOp[] = [];
+  for (const o of due) {
+    const key = labelKey(o);
+    if (run.length && key !== labelKey(run[0])) {
+      await modifyBatch(run);
+      run = [];
+    }
+    if (key) run.push(o);
+    else await sendOne(o);
+  }
+  if (run.length) await modifyBatch(run);
+
+  return result;
+}
+
+/**
+ * Minimal transport against the server-side `gmail-proxy` function using the
+ * session cookies. Used from the service worker, where the page's auth helpers
+ * (localhost tokens, login redirects) are unavailable, and for accounts other
+ * than the primary one, which the proxy selects by the X-Jmail-Account header.
+ */
+export function createProxyTransport(base = '/api/gmail', accountSub = PRIMARY_ACCOUNT): OpTransport {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (accountSub !== PRIMARY_ACCOUNT) headers['X-Jmail-Account'] = accountSub;
+  const call = async <T = unknown>(method: string, path: string, body?: unknown): Promise<T> => {
+    const res = await fetch(`${base}${path}`, {
+      method,
+      headers,
+      credentials: 'include',
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!res.ok) {
+      let message = `Gmail API error ${res.status}`;
+      try {
+        const data = JSON.parse(await res.text());
+        message = data?.error?.message || (typeof data?.error === 'string' ? data.error : '') || message;
+      } catch { /* non-JSON error body */ }
+      throw new Error(message);
+    }
+    const text = await res.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  };
+  const draft = (raw: string, threadId?: string, id?: string) => {
+    const message = threadId ? { raw, threadId } : { raw };
+    return id ? { id, message } : { message };
+  };
+  return {
+    batchModify: (ids, addLabelIds, removeLabelIds) => call('POST', '/messages/batchModify', { ids, addLabelIds, removeLabelIds }),
+    sendMessage: (raw, threadId) => call('POST', '/messages/send', threadId ? { raw, threadId } : { raw }),
+    createDraft: (raw, threadId) => call<{ id: string }>('POST', '/drafts', draft(raw, threadId)),
+    updateDraft: (id, raw, threadId) => call('PUT', `/drafts/${encodeURIComponent(id)}`, draft(raw, threadId, id)),
+    sendDraft: (id, raw, threadId) => call('POST', '/drafts/send', draft(raw, threadId, id)),
+    deleteDraft: (id) => call('DELETE', `/drafts/${encodeURIComponent(id)}`)
+  };
+}
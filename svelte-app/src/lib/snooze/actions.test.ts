@@ -0,0 +1,30 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDB } from '$lib/db/indexeddb';
+import { snoozeThreadByRule } from './actions';
+import { getRecurrence } from './recurring';
+
+vi.mock('$lib/queue/intents', () => ({
+  queueThreadModify: async () => {},
+  recordIntent: async () => {}
+}));
+vi.mock('$lib/stores/settings', async () => {
+  const { writable } = await import('svelte/store');
+  return { settings: writable({ labelMapping: { '1d': 'L-1D', 'every monday 8am': 'L-MON' } }) };
+});
+
+describe('snoozeThreadByRule', () => {
+  beforeEach(async () => {
+    const db = await getDB();
+    await db.clear('recurrences');
+    await db.put('threads', { threadId: 't1', messageIds: [], lastMsgMeta: { subject: 'Weekly report' }, labelIds: ['INBOX'] });
+  });
+
+  it('starts a recurrence for an "every" rule and ends it when another rule replaces it', async () => {
+    await snoozeThreadByRule('t1', 'every monday 8am');
+    expect(await getRecurrence('t1')).toMatchObject({ ruleKey: 'every monday 8am', subject: 'Weekly report' });
+
+    await snoozeThreadByRule('t1', '1d');
+    expect(await getRecurrence('t1')).toBeUndefined();
+  });
+});
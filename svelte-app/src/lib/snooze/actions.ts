@@ -1,8 +1,10 @@
 import { get } from 'svelte/store';
 import { settings } from '$lib/stores/settings';
 import { getDB } from '$lib/db/indexeddb';
-import { normalizeRuleKey } from '$lib/snooze/rules';
+import { isRecurringRule, mappedLabelId } from '$lib/snooze/rules';
+import { recurringSnoozeLabel, startRecurrence, stopRecurrence } from '$lib/snooze/recurring';
 import { queueThreadModify, recordIntent } from '$lib/queue/intents';
+import { reportServerSnooze } from '$lib/snooze/server';
 import type { GmailThread } from '$lib/types';
 
 export async function snoozeThreadByRule(threadId: string, ruleKey: string, options?: { optimisticLocal?: boolean }) {
@@ -10,19 +12,35 @@ export async function snoozeThreadByRule(threadId: string, ruleKey: string, opti
   const thread = await db.get('threads', threadId);
   if (!thread) return;
   const s = get(settings);
-  const norm = normalizeRuleKey(ruleKey);
-  let labelId = s.labelMapping[norm];
-  if (!labelId) {
-    for (const [k, v] of Object.entries(s.labelMapping || {})) {
-      if (!v) continue;
-      if (normalizeRuleKey(k) === norm) { labelId = v; break; }
-    }
-  }
+  const labelId = mappedLabelId(s.labelMapping || {}, ruleKey);
   if (!labelId) throw new Error(`No labelId mapped for rule ${ruleKey}`);
 
-  // Label-driven snooze only: add snooze label and remove INBOX; external script handles due time/unsnooze
+  // Label-driven snooze only: add snooze label and remove INBOX; api/snooze-executor (or an external script) handles due time/unsnooze
   await queueThreadModify(threadId, [labelId], ['INBOX'], options);
   await recordIntent(threadId, { type: 'snooze', addLabelIds: [labelId], removeLabelIds: ['INBOX'], ruleKey }, { addLabelIds: ['INBOX'], removeLabelIds: [labelId] });
+  // "every ..." rules keep coming back: archiving the thread later snoozes it again.
+  // Any other rule replaces a recurrence, or resnoozeRecurring would add its label back
+  if (isRecurringRule(ruleKey)) await startRecurrence(threadId, ruleKey, thread.lastMsgMeta?.subject);
+  else await stopRecurrence(threadId);
+}
+
+/**
+ * Re-snoozes recurring threads that sync saw archived elsewhere (Gmail web,
+ * another device): out of INBOX, not trashed or spam, and not under their
+ * snooze label. Archives made in this app never get here; archiveThread
+ * snoozes them directly.
+ */
+export async function resnoozeRecurring(threadIds: string[]): Promise<void> {
+  const db = await getDB();
+  for (const threadId of threadIds) {
+    const thread = await db.get('threads', threadId);
+    if (!thread) continue;
+    const again = await recurringSnoozeLabel(threadId);
+    const labels = thread.labelIds || [];
+    if (!again || ['INBOX', 'TRASH', 'SPAM', again.labelId].some((l) => labels.includes(l))) continue;
+    await queueThreadModify(threadId, [again.labelId], []);
+    if (get(settings).serverSnooze) reportServerSnooze(threadId, [again.labelId]);
+  }
 }
 
 function getMappedSnoozeLabelIds(): string[] {
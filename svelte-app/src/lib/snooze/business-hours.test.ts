@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DateTime } from 'luxon';
+import { DEFAULT_BUSINESS_HOURS, nextWorkingSlot, parseHolidayList } from './business-hours';
+import { resolveRule, setBusinessCalendar } from './rules';
+
+const zone = 'America/New_York';
+const cal = { ...DEFAULT_BUSINESS_HOURS, holidays: ['2025-01-20'] };
+const local = (iso: string) => DateTime.fromISO(iso, { zone });
+const fmt = (dt: DateTime) => dt.toFormat('ccc yyyy-MM-dd HH:mm');
+
+describe('business hours', () => {
+  it('moves targets outside working hours to the next working slot', () => {
+    expect(fmt(nextWorkingSlot(local('2025-01-16T05:00'), cal))).toBe('Thu 2025-01-16 09:00');
+    expect(fmt(nextWorkingSlot(local('2025-01-16T11:30'), cal))).toBe('Thu 2025-01-16 11:30');
+    expect(fmt(nextWorkingSlot(local('2025-01-17T18:00'), cal))).toBe('Tue 2025-01-21 09:00');
+  });
+
+  it('applies only to the rules that opt in', () => {
+    const friday = local('2025-01-17T10:02').toJSDate();
+    const defaults = { anchorHour: 5, roundMinutes: 5 };
+    setBusinessCalendar(cal, ['1d']);
+    const at = (key: string) => fmt(DateTime.fromJSDate(resolveRule(key, zone, defaults, friday) as Date).setZone(zone));
+    expect(at('1d')).toBe('Tue 2025-01-21 09:00');
+    expect(at('2d')).toBe('Sun 2025-01-19 05:00');
+    setBusinessCalendar(null, []);
+  });
+
+  it('reads holidays from ICS and plain lists', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20251225',
+      'DTEND;VALUE=DATE:20251227',
+      'SUMMARY:Christmas',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20250704T000000Z',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+    expect(parseHolidayList(ics)).toEqual(['2025-07-04', '2025-12-25', '2025-12-26']);
+    expect(parseHolidayList('2025-12-25 Christmas\n2025-02-30, 2025-01-01')).toEqual(['2025-01-01', '2025-12-25']);
+  });
+});
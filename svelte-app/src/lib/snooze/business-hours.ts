@@ -0,0 +1,96 @@
+import type { DateTime } from 'luxon';
+
+/** Working week for snoozes that respect business hours (settings.businessHours). */
+export type BusinessHours = {
+  /** ISO weekdays, Monday = 1 */
+  days: number[];
+  /** "HH:mm" in the user's zone */
+  start: string;
+  end: string;
+};
+
+export type BusinessCalendar = BusinessHours & {
+  /** Non-working dates, "YYYY-MM-DD" */
+  holidays: string[];
+};
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = { days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' };
+
+function minutesOf(hhmm: string, fallback: number): number {
+  const m = String(hhmm || '').match(/^(\d{1,2}):([0-5]\d)$/);
+  return m && Number(m[1]) < 24 ? Number(m[1]) * 60 + Number(m[2]) : fallback;
+}
+
+function isoDate(dt: DateTime): string {
+  return `${dt.year}-${String(dt.month).padStart(2, '0')}-${String(dt.day).padStart(2, '0')}`;
+}
+
+/**
+ * `due` if it falls inside working hours, otherwise the start of the next
+ * working slot: later today when before opening, else the next working day
+ * that is not a holiday. Gives up (returns `due`) after a year of non-working
+ * days, which only a calendar with no working days at all can reach.
+ */
+export function nextWorkingSlot(due: DateTime, cal: BusinessCalendar): DateTime {
+  const start = minutesOf(cal.start, 9 * 60);
+  const end = Math.max(start + 1, minutesOf(cal.end, 17 * 60));
+  const holidays = new Set(cal.holidays);
+  let day = due.startOf('day');
+  let minute = due.hour * 60 + due.minute;
+  for (let i = 0; i < 366; i++) {
+    if (cal.days.includes(day.weekday) && !holidays.has(isoDate(day))) {
+      if (minute < start) return day.set({ hour: Math.floor(start / 60), minute: start % 60, second: 0, millisecond: 0 });
+      if (minute < end) return due;
+    }
+    day = day.plus({ days: 1 });
+    minute = -1;
+  }
+  return due;
+}
+
+function toIso(compact: string): string {
+  return `${compact.slice(0, 4)}-${compact.slice(4, 6)}-${compact.slice(6, 8)}`;
+}
+
+function addDay(iso: string): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Holiday dates from an imported file: an ICS calendar (each VEVENT's DTSTART,
+ * all-day events spanning to their exclusive DTEND) or a plain list with one
+ * date per line or comma, optionally followed by a name ("2025-12-25 Christmas").
+ * Returns sorted, de-duplicated "YYYY-MM-DD" strings. Recurring ICS events
+ * count only their first date.
+ */
+export function parseHolidayList(text: string): string[] {
+  const out = new Set<string>();
+  if (/BEGIN:VCALENDAR/i.test(text)) {
+    // Unfold continuation lines (RFC 5545 §3.1) before reading properties
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    let start: string | null = null;
+    let end: string | null = null;
+    for (const line of lines) {
+      if (/^BEGIN:VEVENT/i.test(line)) start = end = null;
+      const m = line.match(/^(DTSTART|DTEND)[^:]*:(\d{8})/i);
+      if (m) {
+        if (m[1].toUpperCase() === 'DTSTART') start = toIso(m[2]);
+        else end = toIso(m[2]);
+      }
+      if (/^END:VEVENT/i.test(line) && start) {
+        out.add(start);
+        // Cap runaway ranges; holiday events span days, not months
+        for (let d = addDay(start), n = 0; end && d < end && n < 31; d = addDay(d), n++) out.add(d);
+      }
+    }
+  } else {
+    for (const m of text.matchAll(/(?:^|[\s,;])(\d{4})-(\d{2})-(\d{2})(?=$|[\s,;])/gm)) {
+      const iso = `${m[1]}-${m[2]}-${m[3]}`;
+      const d = new Date(`${iso}T00:00:00Z`);
+      if (!Number.isNaN(d.getTime()) && d.toISOString().startsWith(iso)) out.add(iso);
+    }
+  }
+  return [...out].sort();
+}
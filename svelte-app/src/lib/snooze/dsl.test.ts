@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DateTime } from 'luxon';
+import { evaluateRuleExpression, parseRuleExpression } from './dsl';
+import { normalizeRuleKey, resolveRule, setCustomPresets } from './rules';
+
+const zone = 'America/New_York';
+const defaults = { anchorHour: 5, roundMinutes: 5 };
+// Wednesday 2025-01-15 10:02 in New York
+const now = DateTime.fromISO('2025-01-15T10:02', { zone });
+
+function at(expr: string): string {
+  const parsed = parseRuleExpression(expr);
+  if (!parsed) throw new Error(`not parsed: ${expr}`);
+  return evaluateRuleExpression(parsed, now, defaults).toFormat('ccc yyyy-MM-dd HH:mm');
+}
+
+describe('rule expressions', () => {
+  it('resolves times, offsets and calendar steps', () => {
+    expect(at('8:30')).toBe('Thu 2025-01-16 08:30');
+    expect(at('6pm')).toBe('Wed 2025-01-15 18:00');
+    expect(at('in 90 minutes')).toBe('Wed 2025-01-15 11:35');
+    expect(at('+2 days')).toBe('Fri 2025-01-17 05:00');
+    expect(at('+3 business days at 9am')).toBe('Mon 2025-01-20 09:00');
+    expect(at('tomorrow noon')).toBe('Thu 2025-01-16 12:00');
+  });
+
+  it('resolves weekdays and periods', () => {
+    expect(at('wed 9am')).toBe('Wed 2025-01-22 09:00');
+    expect(at('next weekday 8:30')).toBe('Thu 2025-01-16 08:30');
+    expect(at('first Monday of month 9am')).toBe('Mon 2025-02-03 09:00');
+    expect(at('last friday of next month')).toBe('Fri 2025-02-28 05:00');
+    expect(at('end of quarter 5pm')).toBe('Mon 2025-03-31 17:00');
+    expect(at('end of week')).toBe('Fri 2025-01-17 05:00');
+    expect(at('next month')).toBe('Sat 2025-02-01 05:00');
+  });
+
+  it('reads days of the month and recurring "every" rules', () => {
+    expect(at('1st of month 9am')).toBe('Sat 2025-02-01 09:00');
+    expect(at('31st of next month')).toBe('Fri 2025-02-28 05:00');
+    expect(at('every monday 8am')).toBe('Mon 2025-01-20 08:00');
+    expect(at('every day 9am')).toBe('Thu 2025-01-16 09:00');
+    expect(parseRuleExpression('every 1st of month')?.repeat).toBe(true);
+    expect(parseRuleExpression('monday 8am')?.repeat).toBeUndefined();
+  });
+
+  it('rejects text that is not an expression', () => {
+    expect(parseRuleExpression('Desktop')).toBeNull();
+    expect(parseRuleExpression('13pm')).toBeNull();
+    expect(parseRuleExpression('fifth monday of month')).toBeNull();
+    expect(parseRuleExpression('32nd of month')).toBeNull();
+    expect(parseRuleExpression('every')).toBeNull();
+  });
+
+  it('resolves custom presets by name through resolveRule', () => {
+    setCustomPresets([{ name: 'Board prep', expr: 'first monday of month 9am' }]);
+    expect(normalizeRuleKey('Snooze/board prep')).toBe('Board prep');
+    const due = resolveRule('Board prep', zone, defaults, now.toJSDate());
+    expect(due && DateTime.fromJSDate(due).setZone(zone).toISO({ suppressMilliseconds: true })).toBe('2025-02-03T09:00:00-05:00');
+    setCustomPresets([]);
+  });
+});
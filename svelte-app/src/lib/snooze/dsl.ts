@@ -0,0 +1,200 @@
+import { DateTime } from 'luxon';
+
+/**
+ * Snooze rule expressions, the language behind custom presets:
+ *
+ *   8:30, 6pm, noon                  next occurrence of that time
+ *   in 90 minutes, +3h               from now (rounded up first, like `10m`)
+ *   +2 days, 3 weeks, 1 month [TIME] that many calendar days / weeks / months
+ *   +2 business days [TIME]          skipping Saturday and Sunday
+ *   today 5pm, tomorrow [TIME]
+ *   monday [TIME], next fri [TIME]   next occurrence ("next" never means today)
+ *   next weekday [TIME]              next Monday–Friday after today
+ *   next week|month|quarter|year     first day of the next period
+ *   end of week|month|quarter|year   Friday / last day of the period
+ *   first|second|third|fourth|last monday of [next] month [TIME]
+ *   1st|15th|31st of [next] month [TIME]  clamped to shorter months
+ *   every <any of the above>         a recurring snooze: the thread is snoozed
+ *                                    again whenever it is archived; "every day",
+ *                                    "every weekday", "every week|month" also work
+ *
+ * TIME is `8:30`, `8:30am`, `9am`, `17:00`, `noon` or `midnight`, optionally
+ * after "at"; without it the rule lands on the anchor hour. Expressions parse
+ * to a plain object so presets can be stored and sent to the server executor
+ * (api/_lib/snooze-rules.js evaluates the same shapes; keep them in step).
+ */
+
+export type RuleTime = { hour: number; minute: number };
+export type PeriodUnit = 'week' | 'month' | 'quarter' | 'year';
+
+export type RuleDate =
+  | { kind: 'time' }
+  | { kind: 'days'; n: number }
+  | { kind: 'weeks'; n: number }
+  | { kind: 'months'; n: number }
+  | { kind: 'businessDays'; n: number }
+  | { kind: 'weekday'; weekday: number; next: boolean }
+  | { kind: 'nextWorkday' }
+  | { kind: 'startOf'; unit: PeriodUnit }
+  | { kind: 'endOf'; unit: PeriodUnit }
+  | { kind: 'nthWeekday'; n: number; weekday: number; nextMonth: boolean }
+  | { kind: 'monthDay'; day: number; nextMonth: boolean };
+
+export type RuleExpr =
+  | { kind: 'offset'; minutes: number; repeat?: boolean }
+  | { kind: 'date'; date: RuleDate; time?: RuleTime; repeat?: boolean };
+
+export type RuleDefaults = { anchorHour: number; roundMinutes: number };
+
+const WEEKDAYS: Record<string, number> = {
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, weds: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+  sun: 7, sunday: 7
+};
+const ORDINALS: Record<string, number> = { first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4, last: -1 };
+const WEEKDAY_RE = Object.keys(WEEKDAYS).join('|');
+
+function parseTime(text: string): RuleTime | null {
+  if (text === 'noon') return { hour: 12, minute: 0 };
+  if (text === 'midnight') return { hour: 0, minute: 0 };
+  const m = text.match(/^(\d{1,2})(?::([0-5]\d))?\s*(am|pm)?$/);
+  if (!m || (!m[2] && !m[3])) return null;
+  let hour = Number(m[1]);
+  const minute = m[2] ? Number(m[2]) : 0;
+  if (m[3]) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (m[3] === 'pm' ? 12 : 0);
+  }
+  return hour > 23 ? null : { hour, minute };
+}
+
+function parseDate(text: string): RuleDate | null {
+  let m: RegExpMatchArray | null;
+  if (text === '') return { kind: 'time' };
+  if (text === 'today') return { kind: 'days', n: 0 };
+  if (text === 'tomorrow') return { kind: 'days', n: 1 };
+  if ((m = text.match(/^(?:in\s+|\+\s*)?(\d{1,3})\s*(?:d|days?)$/))) return { kind: 'days', n: Number(m[1]) };
+  if ((m = text.match(/^(?:in\s+|\+\s*)?(\d{1,3})\s*(?:w|wks?|weeks?)$/))) return { kind: 'weeks', n: Number(m[1]) };
+  if ((m = text.match(/^(?:in\s+|\+\s*)?(\d{1,2})\s*months?$/))) return { kind: 'months', n: Number(m[1]) };
+  if ((m = text.match(/^(?:in\s+|\+\s*)?(\d{1,3})\s*(?:business|work|working)\s*days?$/))) return { kind: 'businessDays', n: Number(m[1]) };
+  if ((m = text.match(new RegExp(`^(next\\s+)?(${WEEKDAY_RE})$`)))) return { kind: 'weekday', weekday: WEEKDAYS[m[2]], next: !!m[1] };
+  if (/^next\s+(?:weekday|workday|business\s+day|working\s+day)$/.test(text)) return { kind: 'nextWorkday' };
+  if ((m = text.match(/^(?:start\s+of\s+)?next\s+(week|month|quarter|year)$/))) return { kind: 'startOf', unit: m[1] as PeriodUnit };
+  if ((m = text.match(/^end\s+of\s+(?:the\s+)?(week|month|quarter|year)$/))) return { kind: 'endOf', unit: m[1] as PeriodUnit };
+  m = text.match(new RegExp(`^(${Object.keys(ORDINALS).join('|')})\\s+(${WEEKDAY_RE})\\s+of\\s+(?:the\\s+)?(next\\s+)?month$`));
+  if (m) return { kind: 'nthWeekday', n: ORDINALS[m[1]], weekday: WEEKDAYS[m[2]], nextMonth: !!m[3] };
+  m = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+of\s+(?:the\s+)?(next\s+)?month$/);
+  if (m && Number(m[1]) >= 1 && Number(m[1]) <= 31) return { kind: 'monthDay', day: Number(m[1]), nextMonth: !!m[2] };
+  return null;
+}
+
+/** Parses a rule expression; null when it is not one. */
+export function parseRuleExpression(input: string): RuleExpr | null {
+  let text = String(input || '').toLowerCase().trim().replace(/\s+/g, ' ');
+  const repeat = /^every\s/.test(text);
+  if (repeat) text = text.slice(6);
+  if (!text) return null;
+  const expr = parseOnce(text, repeat);
+  return expr && repeat ? { ...expr, repeat } : expr;
+}
+
+function parseOnce(text: string, repeat: boolean): RuleExpr | null {
+  const offset = text.match(/^(?:in\s+|\+\s*)?(\d{1,4})\s*(m|mins?|minutes?|h|hrs?|hours?)$/);
+  if (offset) {
+    const n = Number(offset[1]);
+    if (n <= 0) return null;
+    return { kind: 'offset', minutes: offset[2].startsWith('h') ? n * 60 : n };
+  }
+  // Split off a trailing time ("... at 8:30", "... 9am"); the rest names the day
+  let time: RuleTime | undefined;
+  let rest = text;
+  const tail = text.match(/^(.*?)\s*(?:\bat\s+)?(noon|midnight|\d{1,2}(?::[0-5]\d)?\s*(?:am|pm)?)$/);
+  if (tail) {
+    const t = parseTime(tail[2]);
+    if (t) {
+      time = t;
+      rest = tail[1].trim();
+    }
+  }
+  // "every day 9am" is every 9am; "every week" is one week on
+  if (repeat && rest === 'day') rest = time ? '' : '1 day';
+  else if (repeat && rest === 'weekday') rest = 'next weekday';
+  else if (repeat && (rest === 'week' || rest === 'month')) rest = `1 ${rest}`;
+  const date = parseDate(rest);
+  if (!date) return null;
+  if (date.kind === 'time' && !time) return null;
+  return time ? { kind: 'date', date, time } : { kind: 'date', date };
+}
+
+function roundUp(dt: DateTime, minutes: number): DateTime {
+  const mod = dt.minute % minutes;
+  const add = mod === 0 && dt.second === 0 ? 0 : minutes - mod;
+  return dt.plus({ minutes: add }).startOf('minute');
+}
+
+// Day of `unit` that the rule lands on, before the "already passed" roll
+function landingDay(date: RuleDate, now: DateTime, shift = 0): DateTime {
+  const today = now.startOf('day');
+  switch (date.kind) {
+    case 'time':
+      return today.plus({ days: shift });
+    case 'days':
+      return today.plus({ days: date.n });
+    case 'weeks':
+      return today.plus({ weeks: date.n });
+    case 'months':
+      return today.plus({ months: date.n });
+    case 'businessDays': {
+      let d = today;
+      for (let left = date.n; left > 0; ) {
+        d = d.plus({ days: 1 });
+        if (d.weekday <= 5) left--;
+      }
+      return d;
+    }
+    case 'weekday': {
+      let offset = (date.weekday - today.weekday + 7) % 7;
+      if (date.next && offset === 0) offset = 7;
+      return today.plus({ days: offset + 7 * shift });
+    }
+    case 'nextWorkday': {
+      let d = today.plus({ days: 1 });
+      while (d.weekday > 5) d = d.plus({ days: 1 });
+      return d;
+    }
+    case 'startOf':
+      return today.startOf(date.unit).plus({ [date.unit + 's']: 1 });
+    case 'endOf': {
+      const base = today.plus({ [date.unit + 's']: shift });
+      return date.unit === 'week' ? base.startOf('week').plus({ days: 4 }) : base.endOf(date.unit).startOf('day');
+    }
+    case 'nthWeekday': {
+      const month = today.startOf('month').plus({ months: (date.nextMonth ? 1 : 0) + shift });
+      if (date.n < 0) {
+        const last = month.endOf('month').startOf('day');
+        return last.minus({ days: (last.weekday - date.weekday + 7) % 7 });
+      }
+      return month.plus({ days: (date.weekday - month.weekday + 7) % 7 + 7 * (date.n - 1) });
+    }
+    case 'monthDay': {
+      const month = today.startOf('month').plus({ months: (date.nextMonth ? 1 : 0) + shift });
+      return month.set({ day: Math.min(date.day, month.endOf('month').day) });
+    }
+  }
+}
+
+// Rules that name a recurring moment move to the next one once it has passed
+const ROLLS = new Set<RuleDate['kind']>(['time', 'weekday', 'endOf', 'nthWeekday', 'monthDay']);
+
+/** When `expr` fires for a snooze made at `now` (a zoned DateTime). */
+export function evaluateRuleExpression(expr: RuleExpr, now: DateTime, defaults: RuleDefaults): DateTime {
+  if (expr.kind === 'offset') return roundUp(now, defaults.roundMinutes).plus({ minutes: expr.minutes });
+  const at = (d: DateTime) => d.set({ hour: expr.time?.hour ?? defaults.anchorHour, minute: expr.time?.minute ?? 0, second: 0, millisecond: 0 });
+  let due = at(landingDay(expr.date, now));
+  if (due <= now && ROLLS.has(expr.date.kind)) due = at(landingDay(expr.date, now, 1));
+  return due;
+}
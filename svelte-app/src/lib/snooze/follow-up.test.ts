@@ -0,0 +1,103 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDB } from '$lib/db/indexeddb';
+import type { FollowUp, GmailMessage, GmailThread } from '$lib/types';
+import { NO_REPLY_LABEL, checkDueFollowUps } from './follow-up';
+
+const gmail = vi.hoisted(() => {
+  class GmailApiError extends Error {
+    constructor(message: string, public status: number) {
+      super(message);
+    }
+  }
+  return { GmailApiError, threads: new Map<string, { thread: unknown; messages: unknown[] } | Error>(), modified: [] as Array<[string, string[], string[]]> };
+});
+
+vi.mock('$lib/gmail/api', () => ({
+  GmailApiError: gmail.GmailApiError,
+  getThreadSummary: async (id: string) => {
+    const found = gmail.threads.get(id);
+    if (found instanceof Error) throw found;
+    if (!found) throw new gmail.GmailApiError('Gmail API error 404', 404);
+    return found;
+  },
+  listLabels: async () => [{ id: 'L-NOREPLY', name: NO_REPLY_LABEL }],
+  createLabel: async () => ({ id: 'L-NEW' })
+}));
+vi.mock('$lib/queue/intents', () => ({
+  queueThreadModify: async (threadId: string, add: string[], remove: string[]) => {
+    gmail.modified.push([threadId, add, remove]);
+  }
+}));
+vi.mock('$lib/stores/settings', async () => {
+  const { writable } = await import('svelte/store');
+  return { settings: writable({ anchorHour: 5, roundMinutes: 5 }) };
+});
+
+const NOW = Date.UTC(2025, 5, 2, 12, 0);
+
+function watch(id: string, extra: Partial<FollowUp> = {}): FollowUp {
+  return { id, threadId: `t-${id}`, ruleKey: '3d', dueAt: NOW - 1000, since: NOW - 3 * 86400_000, snoozed: false, status: 'waiting', createdAt: NOW - 3 * 86400_000, ...extra };
+}
+
+function message(threadId: string, id: string, labelIds: string[], internalDate: number): GmailMessage {
+  return { id, threadId, labelIds, internalDate };
+}
+
+async function cacheThread(threadId: string, messages: GmailMessage[]) {
+  const db = await getDB();
+  for (const m of messages) await db.put('messages', m);
+  const thread: GmailThread = { threadId, messageIds: messages.map((m) => m.id), lastMsgMeta: {}, labelIds: [] };
+  await db.put('threads', thread);
+}
+
+async function statusOf(id: string) {
+  return (await (await getDB()).get('followUps', id))?.status;
+}
+
+describe('checkDueFollowUps', () => {
+  beforeEach(async () => {
+    gmail.threads.clear();
+    gmail.modified.length = 0;
+    const db = await getDB();
+    for (const store of ['followUps', 'threads', 'messages'] as const) await db.clear(store);
+  });
+
+  it('resurfaces a due watch with no reply under the No reply label', async () => {
+    await cacheThread('t-a', [message('t-a', 'm1', ['SENT'], NOW - 3 * 86400_000)]);
+    await (await getDB()).put('followUps', watch('a'));
+    await (await getDB()).put('followUps', watch('later', { dueAt: NOW + 1000 }));
+
+    expect(await checkDueFollowUps(NOW)).toBe(1);
+    expect(gmail.modified).toEqual([['t-a', ['INBOX', 'L-NOREPLY'], []]]);
+    expect(await statusOf('a')).toBe('resurfaced');
+    expect(await statusOf('later')).toBe('waiting');
+  });
+
+  it('closes a watch whose thread got a reply, fetching threads that were never cached', async () => {
+    gmail.threads.set('t-b', {
+      thread: { threadId: 't-b', messageIds: ['m1', 'm2'], lastMsgMeta: {}, labelIds: ['INBOX'] },
+      messages: [message('t-b', 'm1', ['SENT'], NOW - 3 * 86400_000), message('t-b', 'm2', ['INBOX'], NOW - 86400_000)]
+    });
+    await (await getDB()).put('followUps', watch('b'));
+
+    expect(await checkDueFollowUps(NOW)).toBe(0);
+    expect(gmail.modified).toEqual([]);
+    expect(await statusOf('b')).toBe('replied');
+  });
+
+  it('cancels a watch whose thread is gone and still checks the rest', async () => {
+    gmail.threads.set('t-flaky', new gmail.GmailApiError('Gmail API error 503', 503));
+    await cacheThread('t-c', [message('t-c', 'm1', ['SENT'], NOW - 3 * 86400_000)]);
+    const db = await getDB();
+    await db.put('followUps', watch('gone', { dueAt: NOW - 3000 }));
+    await db.put('followUps', watch('flaky', { dueAt: NOW - 2000 }));
+    await db.put('followUps', watch('c'));
+
+    expect(await checkDueFollowUps(NOW)).toBe(1);
+    expect(await statusOf('gone')).toBe('cancelled');
+    // Anything but a 404 is tried again next time
+    expect(await statusOf('flaky')).toBe('waiting');
+    expect(await statusOf('c')).toBe('resurfaced');
+  });
+});
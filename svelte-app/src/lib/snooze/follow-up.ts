@@ -0,0 +1,184 @@
+import { get } from 'svelte/store';
+import { v4 as uuidv4 } from 'uuid';
+import { settings } from '$lib/stores/settings';
+import { getDB } from '$lib/db/indexeddb';
+import { GmailApiError, createLabel, getThreadSummary, listLabels } from '$lib/gmail/api';
+import { queueThreadModify } from '$lib/queue/intents';
+import { resolveRule } from '$lib/snooze/rules';
+import type { FollowUp, GmailMessage } from '$lib/types';
+
+/** Label put on threads that come back because nobody answered. */
+export const NO_REPLY_LABEL = 'No reply';
+
+/** Deadlines offered by compose and the viewer; keys are snooze rule keys. */
+export const FOLLOW_UP_PRESETS: Array<{ ruleKey: string; label: string }> = [
+  { ruleKey: '1d', label: '1 day' },
+  { ruleKey: '3d', label: '3 days' },
+  { ruleKey: '7d', label: '1 week' }
+];
+
+function localZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** An inbound message: anything the user did not write themselves. */
+export function isReply(m: GmailMessage, since: number): boolean {
+  const labels = m.labelIds || [];
+  return (m.internalDate || 0) > since && !labels.includes('SENT') && !labels.includes('DRAFT');
+}
+
+async function latestMessageAt(threadId: string): Promise<number | null> {
+  const db = await getDB();
+  const thread = await db.get('threads', threadId);
+  let latest: number | null = null;
+  for (const id of thread?.messageIds || []) {
+    const m = await db.get('messages', id);
+    if (m?.internalDate && (latest === null || m.internalDate > latest)) latest = m.internalDate;
+  }
+  return latest;
+}
+
+async function hasCachedReply(f: FollowUp): Promise<boolean> {
+  if (!f.threadId) return false;
+  const db = await getDB();
+  const thread = await db.get('threads', f.threadId);
+  for (const id of thread?.messageIds || []) {
+    const m = await db.get('messages', id);
+    if (m && isReply(m, f.since)) return true;
+  }
+  return false;
+}
+
+/**
+ * Starts waiting for a reply. The deadline is `ruleKey` resolved from `sendAt`
+ * (or now), so "3d" after a send-later means three days after it goes out.
+ * Pass `threadId` for an existing conversation, `opId` for a message still in
+ * the outbox (replay fills in the thread once Gmail accepts it). With `snoozed`
+ * the thread also leaves the inbox until the reply or the deadline.
+ */
+export async function watchForReply(opts: { threadId?: string; opId?: string; ruleKey: string; snoozed?: boolean; subject?: string; sendAt?: number }): Promise<FollowUp> {
+  const s = get(settings);
+  const start = opts.sendAt ?? Date.now();
+  const due = resolveRule(opts.ruleKey, localZone(), { anchorHour: s.anchorHour, roundMinutes: s.roundMinutes }, new Date(start));
+  if (!due) throw new Error(`Unknown follow-up rule ${opts.ruleKey}`);
+  const follow: FollowUp = {
+    id: uuidv4(),
+    threadId: opts.threadId,
+    opId: opts.threadId ? undefined : opts.opId,
+    subject: opts.subject,
+    ruleKey: opts.ruleKey,
+    dueAt: due.getTime(),
+    since: (opts.threadId && (await latestMessageAt(opts.threadId))) || start,
+    snoozed: !!opts.snoozed,
+    status: 'waiting',
+    createdAt: Date.now()
+  };
+  const db = await getDB();
+  // One watch per conversation: a new one replaces whatever was waiting
+  if (follow.threadId) await cancelFollowUp(follow.threadId);
+  await db.put('followUps', follow);
+  if (follow.snoozed && follow.threadId) await queueThreadModify(follow.threadId, [], ['INBOX']);
+  return follow;
+}
+
+async function resolve(f: FollowUp, status: FollowUp['status']): Promise<void> {
+  const db = await getDB();
+  await db.put('followUps', { ...f, status, resolvedAt: Date.now() });
+}
+
+async function waitingOn(threadId: string): Promise<FollowUp[]> {
+  const db = await getDB();
+  return (await db.getAllFromIndex('followUps', 'by_threadId', threadId)).filter((f) => f.status === 'waiting');
+}
+
+/** Stops waiting on a conversation; the thread stays where it is. */
+export async function cancelFollowUp(threadId: string): Promise<void> {
+  for (const f of await waitingOn(threadId)) await resolve(f, 'cancelled');
+}
+
+/** The watch currently waiting on `threadId`, if any. */
+export async function getFollowUp(threadId: string): Promise<FollowUp | undefined> {
+  return (await waitingOn(threadId))[0];
+}
+
+/** Watches still waiting, soonest deadline first. */
+export async function listFollowUps(): Promise<FollowUp[]> {
+  const db = await getDB();
+  return (await db.getAll('followUps')).filter((f) => f.status === 'waiting').sort((a, b) => a.dueAt - b.dueAt);
+}
+
+/**
+ * Closes the watches on threads that just received a message from someone else
+ * (HistorySyncResult.inboundThreadIds). Snoozed threads need nothing more:
+ * Gmail files the reply in INBOX and the next sync brings the thread back.
+ */
+export async function resolveReplies(threadIds: string[]): Promise<number> {
+  let n = 0;
+  for (const threadId of new Set(threadIds)) {
+    for (const f of await waitingOn(threadId)) {
+      if (!(await hasCachedReply(f))) continue;
+      await resolve(f, 'replied');
+      n++;
+    }
+  }
+  return n;
+}
+
+const labelIdCache: Record<string, string> = {};
+
+async function ensureNoReplyLabel(): Promise<string> {
+  if (labelIdCache[NO_REPLY_LABEL]) return labelIdCache[NO_REPLY_LABEL];
+  const existing = (await listLabels()).find((l) => l.name === NO_REPLY_LABEL);
+  const id = existing?.id || (await createLabel(NO_REPLY_LABEL)).id;
+  labelIdCache[NO_REPLY_LABEL] = id;
+  return id;
+}
+
+async function resurface(f: FollowUp): Promise<boolean> {
+  const db = await getDB();
+  const threadId = f.threadId as string;
+  if (await hasCachedReply(f)) {
+    await resolve(f, 'replied');
+    return false;
+  }
+  // Sent-only conversations may never have been cached; queueThreadModify needs the thread
+  if (!(await db.get('threads', threadId))) {
+    const { thread, messages } = await getThreadSummary(threadId);
+    const tx = db.transaction(['threads', 'messages'], 'readwrite');
+    for (const m of messages) await tx.objectStore('messages').put(m);
+    await tx.objectStore('threads').put(thread);
+    await tx.done;
+    if (await hasCachedReply(f)) {
+      await resolve(f, 'replied');
+      return false;
+    }
+  }
+  await queueThreadModify(threadId, ['INBOX', await ensureNoReplyLabel()], []);
+  await resolve(f, 'resurfaced');
+  return true;
+}
+
+/**
+ * Resurfaces every watch past its deadline that still has no reply: the thread
+ * goes back to INBOX with the "No reply" label through the outbox, like any
+ * other label change. Watches whose message never left the outbox wait on.
+ * A watch whose thread is gone from Gmail is cancelled; any other failure
+ * leaves it waiting for the next check and moves on to the rest.
+ */
+export async function checkDueFollowUps(now = Date.now()): Promise<number> {
+  const db = await getDB();
+  const due = (await db.getAll('followUps')).filter((f) => f.status === 'waiting' && f.threadId && f.dueAt <= now);
+  let n = 0;
+  for (const f of due) {
+    try {
+      if (await resurface(f)) n++;
+    } catch (e) {
+      if (e instanceof GmailApiError && e.status === 404) {
+        await resolve(f, 'cancelled');
+        continue;
+      }
+      console.warn('[FollowUp] Could not check', f.threadId, e instanceof Error ? e.message : String(e));
+    }
+  }
+  return n;
+}
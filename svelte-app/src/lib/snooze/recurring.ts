@@ -0,0 +1,51 @@
+import { get } from 'svelte/store';
+import { settings } from '$lib/stores/settings';
+import { getDB } from '$lib/db/indexeddb';
+import { isRecurringRule, mappedLabelId, normalizeRuleKey, resolveRule } from '$lib/snooze/rules';
+import type { Recurrence } from '$lib/types';
+
+function localZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/** When a thread on `ruleKey` would come back if it were archived at `at`. */
+export function nextOccurrence(ruleKey: string, at: Date = new Date()): Date | null {
+  const s = get(settings);
+  return resolveRule(ruleKey, localZone(), { anchorHour: s.anchorHour, roundMinutes: s.roundMinutes }, at);
+}
+
+/** Puts `threadId` on a recurring snooze; a thread has at most one. */
+export async function startRecurrence(threadId: string, ruleKey: string, subject?: string): Promise<void> {
+  const db = await getDB();
+  await db.put('recurrences', { threadId, ruleKey: normalizeRuleKey(ruleKey), subject, createdAt: Date.now() });
+}
+
+/** Ends the recurrence; the thread keeps whatever labels it has now. */
+export async function stopRecurrence(threadId: string): Promise<void> {
+  const db = await getDB();
+  await db.delete('recurrences', threadId);
+}
+
+export async function getRecurrence(threadId: string): Promise<Recurrence | undefined> {
+  const db = await getDB();
+  return db.get('recurrences', threadId);
+}
+
+/** Every recurrence with its next occurrence, soonest first. */
+export async function listRecurrences(): Promise<Array<Recurrence & { next: Date | null }>> {
+  const db = await getDB();
+  const list = (await db.getAll('recurrences')).map((r) => ({ ...r, next: nextOccurrence(r.ruleKey) }));
+  return list.sort((a, b) => (a.next?.getTime() ?? Infinity) - (b.next?.getTime() ?? Infinity));
+}
+
+/**
+ * The snooze label to put `threadId` back under instead of archiving it, or
+ * null when it has no recurrence. A rule that stopped recurring (its preset was
+ * edited or removed) or lost its label mapping does nothing until fixed.
+ */
+export async function recurringSnoozeLabel(threadId: string): Promise<{ ruleKey: string; labelId: string } | null> {
+  const r = await getRecurrence(threadId);
+  if (!r || !isRecurringRule(r.ruleKey)) return null;
+  const labelId = mappedLabelId(get(settings).labelMapping || {}, r.ruleKey);
+  return labelId ? { ruleKey: r.ruleKey, labelId } : null;
+}
@@ -0,0 +1,38 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { DateTime } from 'luxon';
+import { parseRuleExpression } from './dsl';
+import { normalizeRuleKey, resolveRule, setBusinessCalendar, setCustomPresets } from './rules';
+// Shared with api/_lib/snooze-rules.test.js: the executor's copies must resolve every case the same way
+import cases from './rule-cases.json';
+
+const presets = Object.entries(cases.presets).map(([name, expr]) => ({ name, expr }));
+
+describe('shared rule cases', () => {
+  afterAll(() => {
+    setCustomPresets([]);
+    setBusinessCalendar(null, []);
+  });
+
+  it('parses the same expressions', () => {
+    for (const expr of cases.expressions.valid) expect(parseRuleExpression(expr), expr).not.toBeNull();
+    for (const expr of cases.expressions.invalid) expect(parseRuleExpression(expr), expr).toBeNull();
+  });
+
+  it('reads label names as the same rules', () => {
+    setCustomPresets(presets);
+    for (const [label, key] of cases.labels) expect(normalizeRuleKey(label), label).toBe(key);
+  });
+
+  for (const group of cases.groups) {
+    it(`resolves ${group.name}`, () => {
+      setCustomPresets(presets);
+      const business = 'business' in group ? group.business : undefined;
+      setBusinessCalendar(business || null, business?.rules);
+      const at = DateTime.fromISO(group.at, { zone: group.zone }).toJSDate();
+      for (const [ruleKey, due] of group.cases) {
+        const got = resolveRule(ruleKey as string, group.zone, group.defaults, at);
+        expect(got && DateTime.fromJSDate(got).setZone(group.zone).toFormat("yyyy-MM-dd'T'HH:mmZZ"), ruleKey as string).toBe(due);
+      }
+    });
+  }
+});
@@ -1,5 +1,9 @@
-import type { SnoozeRule } from '$lib/types';
+import type { SnoozePreset, SnoozeRule } from '$lib/types';
 import { DateTime } from 'luxon';
+import { evaluateRuleExpression, parseRuleExpression } from './dsl';
+import type { RuleExpr } from './dsl';
+import { nextWorkingSlot } from './business-hours';
+import type { BusinessCalendar } from './business-hours';
 
 export const DEFAULTS = { anchorHour: 5, roundMinutes: 5 };
 
@@ -9,43 +13,44 @@ function roundUp(dt: DateTime, minutes: number) {
   return dt.plus({ minutes: add }).startOf('minute');
 }
 
-// Keep rules for previewing times in the CalendarPopover; actual scheduling is label-driven externally
+// Keep rules for previewing times in the CalendarPopover; actual scheduling is label-driven,
+// done by api/snooze-executor, whose _lib/snooze-rules.js must stay in step with this table (rule-cases.json checks both)
 export const rules: Record<string, SnoozeRule> = {
   '10m': {
     labelName: '10m',
-    resolver: (nowLocal, d) => roundUp(DateTime.fromJSDate(nowLocal), d.roundMinutes).plus({ minutes: 10 }).toJSDate()
+    resolver: (nowLocal, d, zone) => roundUp(DateTime.fromJSDate(nowLocal).setZone(zone), d.roundMinutes).plus({ minutes: 10 }).toJSDate()
   },
   '30m': {
     labelName: '30m',
-    resolver: (nowLocal, d) => roundUp(DateTime.fromJSDate(nowLocal), d.roundMinutes).plus({ minutes: 30 }).toJSDate()
+    resolver: (nowLocal, d, zone) => roundUp(DateTime.fromJSDate(nowLocal).setZone(zone), d.roundMinutes).plus({ minutes: 30 }).toJSDate()
   },
   '3h': {
     labelName: '3h',
-    resolver: (nowLocal, d) => roundUp(DateTime.fromJSDate(nowLocal), d.roundMinutes).plus({ hours: 3 }).toJSDate()
+    resolver: (nowLocal, d, zone) => roundUp(DateTime.fromJSDate(nowLocal).setZone(zone), d.roundMinutes).plus({ hours: 3 }).toJSDate()
   },
   '1h': {
     labelName: '1h',
-    resolver: (nowLocal, d) => roundUp(DateTime.fromJSDate(nowLocal), d.roundMinutes).plus({ hours: 1 }).toJSDate()
+    resolver: (nowLocal, d, zone) => roundUp(DateTime.fromJSDate(nowLocal).setZone(zone), d.roundMinutes).plus({ hours: 1 }).toJSDate()
   },
   '2h': {
     labelName: '2h',
-    resolver: (nowLocal, d) => roundUp(DateTime.fromJSDate(nowLocal), d.roundMinutes).plus({ hours: 2 }).toJSDate()
+    resolver: (nowLocal, d, zone) => roundUp(DateTime.fromJSDate(nowLocal).setZone(zone), d.roundMinutes).plus({ hours: 2 }).toJSDate()
   },
   '1d': {
     labelName: '1d',
-    resolver: (nowLocal, d) => {
-      const dt = DateTime.fromJSDate(nowLocal);
-      const candidate = dt.plus({ days: 1 }).set({ hour: d.anchorHour, minute: 0, second: 0, millisecond: 0 });
+    resolver: (nowLocal, d, zone) => {
+      const dt = DateTime.fromJSDate(nowLocal).setZone(zone);
+      const candidate = dt.plus({ days: 1 }).startOf('day').set({ hour: d.anchorHour, minute: 0, second: 0, millisecond: 0 });
       return candidate.toJSDate();
     }
   },
-  '2d': { labelName: '2d', resolver: (n, d) => DateTime.fromJSDate(n).plus({ days: 2 }).set({ hour: d.anchorHour, minute: 0, second: 0, millisecond: 0 }).toJSDate() },
-  '3d': { labelName: '3d', resolver: (n, d) => DateTime.fromJSDate(n).plus({ days: 3 }).set({ hour: d.anchorHour, minute: 0, second: 0, millisecond: 0 }).toJSDate() },
-  '7d': { labelName: '7d', resolver: (n, d) => DateTime.fromJSDate(n).plus({ days: 7 }).set({ hour: d.anchorHour, minute: 0, second: 0, millisecond: 0 }).toJSDate() },
+  '2d': { labelName: '2d', resolver: (n, d, zone) => DateTime.fromJSDate(n).setZone(zone).plus({ days: 2 }).startOf('day').set({ hour: d.anchorHour, minute: 0, second: 0, millisecond: 0 }).toJSDate() },
+  '3d': { labelName: '3d', resolver: (n, d, zone) => DateTime.fromJSDate(n).setZone(zone).plus({ days: 3 }).startOf('day').set({ hour: d.anchorHour, minute: 0, second: 0, millisecond: 0 }).toJSDate() },
+  '7d': { labelName: '7d', resolver: (n, d, zone) => DateTime.fromJSDate(n).setZone(zone).plus({ days: 7 }).startOf('day').set({ hour: d.anchorHour, minute: 0, second: 0, millisecond: 0 }).toJSDate() },
   '6am': {
     labelName: '6am',
-    resolver: (nowLocal, d) => {
-      const dt = DateTime.fromJSDate(nowLocal);
+    resolver: (nowLocal, d, zone) => {
+      const dt = DateTime.fromJSDate(nowLocal).setZone(zone);
       let candidate = dt.set({ hour: 6, minute: 0, second: 0, millisecond: 0 });
       if (candidate <= dt) candidate = candidate.plus({ days: 1 });
       return candidate.toJSDate();
@@ -53,8 +58,8 @@ export const rules: Record<string, SnoozeRule> = {
   },
   '2pm': {
     labelName: '2pm',
-    resolver: (nowLocal, d) => {
-      const dt = DateTime.fromJSDate(nowLocal);
+    resolver: (nowLocal, d, zone) => {
+      const dt = DateTime.fromJSDate(nowLocal).setZone(zone);
       let candidate = dt.set({ hour: 14, minute: 0, second: 0, millisecond: 0 });
       if (candidate <= dt) candidate = candidate.plus({ days: 1 });
       return candidate.toJSDate();
@@ -62,8 +67,8 @@ export const rules: Record<string, SnoozeRule> = {
   },
   '7pm': {
     labelName: '7pm',
-    resolver: (nowLocal, d) => {
-      const dt = DateTime.fromJSDate(nowLocal);
+    resolver: (nowLocal, d, zone) => {
+      const dt = DateTime.fromJSDate(nowLocal).setZone(zone);
       let candidate = dt.set({ hour: 19, minute: 0, second: 0, millisecond: 0 });
       if (candidate <= dt) candidate = candidate.plus({ days: 1 });
       return candidate.toJSDate();
@@ -71,18 +76,18 @@ export const rules: Record<string, SnoozeRule> = {
   },
   Monday: {
     labelName: 'Monday',
-    resolver: (nowLocal, d) => {
-      const dt = DateTime.fromJSDate(nowLocal);
-      let candidate = dt.set({ weekday: 1, hour: d.anchorHour, minute: 0, second: 0, millisecond: 0 });
+    resolver: (nowLocal, d, zone) => {
+      const dt = DateTime.fromJSDate(nowLocal).setZone(zone);
+      let candidate = dt.set({ weekday: 1 }).startOf('day').set({ hour: d.anchorHour });
       if (candidate <= dt) candidate = candidate.plus({ weeks: 1 });
       return candidate.toJSDate();
     }
   },
   Friday: {
     labelName: 'Friday',
-    resolver: (nowLocal, d) => {
-      const dt = DateTime.fromJSDate(nowLocal);
-      let candidate = dt.set({ weekday: 5, hour: d.anchorHour, minute: 0, second: 0, millisecond: 0 });
+    resolver: (nowLocal, d, zone) => {
+      const dt = DateTime.fromJSDate(nowLocal).setZone(zone);
+      let candidate = dt.set({ weekday: 5 }).startOf('day').set({ hour: d.anchorHour });
       if (candidate <= dt) candidate = candidate.plus({ weeks: 1 });
       return candidate.toJSDate();
     }
@@ -91,7 +96,47 @@ export const rules: Record<string, SnoozeRule> = {
   'long-term': { labelName: 'long-term', resolver: () => null, persistent: true }
 };
 
+// User-defined presets (settings.snoozePresets), keyed by lower-cased name
+let customPresets = new Map<string, { name: string; expr: RuleExpr }>();
+
+/** Installs the user's presets; ones whose expression does not parse are left out. */
+export function setCustomPresets(presets: SnoozePreset[] | undefined): void {
+  const next = new Map<string, { name: string; expr: RuleExpr }>();
+  for (const p of presets || []) {
+    const expr = parseRuleExpression(p.expr);
+    if (p.name.trim() && expr) next.set(p.name.trim().toLowerCase(), { name: p.name.trim(), expr });
+  }
+  customPresets = next;
+}
+
+// Working week and the rule keys that respect it (settings.businessHours / businessHoursRules)
+let businessCalendar: BusinessCalendar | null = null;
+let businessRules = new Set<string>();
+
+/** Installs the working week; `ruleKeys` are the rules whose targets move to the next working slot. */
+export function setBusinessCalendar(cal: BusinessCalendar | null, ruleKeys: string[] | undefined): void {
+  businessCalendar = cal;
+  businessRules = new Set((ruleKeys || []).map((k) => normalizeRuleKey(k)));
+}
+
+/** Why a preset cannot be saved, or null. Names must not shadow a built-in rule or another preset. */
+export function presetError(preset: SnoozePreset, all: SnoozePreset[]): string | null {
+  const name = preset.name.trim();
+  if (!name) return 'Name is required';
+  if (name.includes('/')) return 'Name cannot contain "/"';
+  const builtin = normalizeBuiltinKey(name);
+  if (rules[builtin] || /^\d+d$/.test(builtin)) return `"${name}" is already a built-in snooze`;
+  if (all.filter((p) => p.name.trim().toLowerCase() === name.toLowerCase()).length > 1) return 'Name is used twice';
+  if (!parseRuleExpression(preset.expr)) return 'Expression not understood';
+  return null;
+}
+
 export function normalizeRuleKey(ruleKey: string): string {
+  const leaf = (ruleKey.trim().split('/').pop() || ruleKey).trim();
+  return customPresets.get(leaf.toLowerCase())?.name ?? normalizeBuiltinKey(ruleKey);
+}
+
+function normalizeBuiltinKey(ruleKey: string): string {
   // Work on the leaf segment only (support nested labels like "Snooze/01 day" or "?jlmSnooze/zz-2Hour")
   const kFull = ruleKey.trim();
   const leaf = (kFull.split('/').pop() || kFull).trim();
@@ -174,21 +219,55 @@ export function normalizeRuleKey(ruleKey: string): string {
   return leaf;
 }
 
-export function resolveRule(ruleKey: string, zone: string, defaults = DEFAULTS): Date | null {
+/** The expression behind a custom preset or an expression-named label, or null for built-ins and unknown keys. */
+export function ruleExpression(ruleKey: string): RuleExpr | null {
+  const key = normalizeRuleKey(ruleKey);
+  if (rules[key] || /^\d+d$/.test(key)) return null;
+  return customPresets.get(key.toLowerCase())?.expr ?? parseRuleExpression(key);
+}
+
+/** The label mapped to `ruleKey`, matching mapping keys by their normalized form. */
+export function mappedLabelId(mapping: Record<string, string>, ruleKey: string): string | undefined {
+  const norm = normalizeRuleKey(ruleKey);
+  if (mapping[norm]) return mapping[norm];
+  for (const [k, v] of Object.entries(mapping)) {
+    if (v && normalizeRuleKey(k) === norm) return v;
+  }
+  return undefined;
+}
+
+/** Whether `ruleKey` re-snoozes its threads when they are archived ("every monday 8am"). */
+export function isRecurringRule(ruleKey: string): boolean {
+  return ruleExpression(ruleKey)?.repeat === true;
+}
+
+export function resolveRule(ruleKey: string, zone: string, defaults = DEFAULTS, at: Date = new Date()): Date | null {
+  const due = resolveUnadjusted(ruleKey, zone, defaults, at);
+  if (!due || !businessCalendar || !businessRules.has(normalizeRuleKey(ruleKey))) return due;
+  return nextWorkingSlot(DateTime.fromJSDate(due).setZone(zone), businessCalendar).toJSDate();
+}
+
+function resolveUnadjusted(ruleKey: string, zone: string, defaults: typeof DEFAULTS, at: Date): Date | null {
   const key = normalizeRuleKey(ruleKey);
   if (/^(\d+)d$/.test(key)) {
     const days = Number(key.slice(0, -1));
-    const dt = DateTime.now().setZone(zone).plus({ days }).set({ hour: defaults.anchorHour, minute: 0, second: 0, millisecond: 0 });
+    const dt = DateTime.fromJSDate(at).setZone(zone).plus({ days }).startOf('day').set({ hour: defaults.anchorHour, minute: 0, second: 0, millisecond: 0 });
     const candidate = dt.toJSDate();
-    const now = DateTime.now().setZone(zone).toJSDate();
+    const now = DateTime.fromJSDate(at).setZone(zone).toJSDate();
     const candDt = DateTime.fromJSDate(candidate).setZone(zone);
     const nowDt = DateTime.fromJSDate(now).setZone(zone);
     return candDt <= nowDt ? nowDt.plus({ minutes: 1 }).toJSDate() : candDt.toJSDate();
   }
   const r = rules[key];
-  if (!r) return null;
-  const now = DateTime.now().setZone(zone).toJSDate();
-  const result = r.resolver(now, defaults);
+  if (!r) {
+    const expr = ruleExpression(key);
+    if (!expr) return null;
+    const nowDt = DateTime.fromJSDate(at).setZone(zone);
+    const dt = evaluateRuleExpression(expr, nowDt, defaults);
+    return dt <= nowDt ? nowDt.plus({ minutes: 1 }).toJSDate() : dt.toJSDate();
+  }
+  const now = DateTime.fromJSDate(at).setZone(zone).toJSDate();
+  const result = r.resolver(now, defaults, zone);
   if (!result) return null;
   const dt = DateTime.fromJSDate(result).setZone(zone);
   const nowDt = DateTime.fromJSDate(now).setZone(zone);
@@ -0,0 +1,46 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PRIMARY_ACCOUNT, getDB } from '$lib/db/indexeddb';
+import type { AppSettings } from '$lib/stores/settings';
+import { registerServerSnooze, unregisterServerSnooze } from './server';
+
+const settings = { anchorHour: 5, roundMinutes: 5, unreadOnUnsnooze: true, snoozePresets: [], labelMapping: { '1d': 'L-ME-1D' } } as unknown as AppSettings;
+
+type Sent = { method: string; account: string; labelMapping?: Record<string, string> };
+
+describe('server snooze registration', () => {
+  let sent: Sent[];
+
+  beforeEach(async () => {
+    sent = [];
+    vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+      const account = (init.headers as Record<string, string>)['X-Jmail-Account'] || PRIMARY_ACCOUNT;
+      if (account === 'down') return new Response(JSON.stringify({ error: 'unauthorized' }), { status: 401 });
+      const body = init.body ? JSON.parse(String(init.body)) : {};
+      sent.push({ method: String(init.method), account, labelMapping: body.labelMapping });
+      return new Response('{}', { status: 200 });
+    });
+    const primary = await getDB(PRIMARY_ACCOUNT);
+    await primary.put('settings', [{ sub: PRIMARY_ACCOUNT }, { sub: 'work' }, { sub: 'new' }], 'accounts');
+    await (await getDB('work')).put('settings', { '1d': 'L-WORK-1D' }, 'labelMapping');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('registers every signed-in account with its own label mapping', async () => {
+    await registerServerSnooze(settings);
+    // "new" has not been opened yet, so nothing is mapped for it
+    expect(sent).toEqual([
+      { method: 'POST', account: PRIMARY_ACCOUNT, labelMapping: { '1d': 'L-ME-1D' } },
+      { method: 'POST', account: 'work', labelMapping: { '1d': 'L-WORK-1D' } }
+    ]);
+  });
+
+  it('unregisters the rest when one account fails', async () => {
+    await (await getDB(PRIMARY_ACCOUNT)).put('settings', [{ sub: PRIMARY_ACCOUNT }, { sub: 'down' }, { sub: 'work' }], 'accounts');
+    await expect(unregisterServerSnooze()).rejects.toThrow('down: unauthorized');
+    expect(sent.map((s) => `${s.method} ${s.account}`)).toEqual([`DELETE ${PRIMARY_ACCOUNT}`, 'DELETE work']);
+  });
+});
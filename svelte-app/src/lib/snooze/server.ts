@@ -0,0 +1,107 @@
+import { PRIMARY_ACCOUNT, getActiveAccount, getDB, listAccountSubs } from '$lib/db/indexeddb';
+import type { AppSettings, LabelMapping } from '$lib/stores/settings';
+
+export type ServerSnoozeStatus = {
+  registered: boolean;
+  zone?: string;
+  /** Snoozed threads the executor is waiting on */
+  pending: number;
+  lastRunAt?: number;
+  lastResult?: { moved: number; errors: Array<{ error: string }> };
+};
+
+function headers(sub: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(sub === PRIMARY_ACCOUNT ? {} : { 'X-Jmail-Account': sub })
+  };
+}
+
+async function call<T>(method: string, body?: unknown, sub = getActiveAccount()): Promise<T> {
+  const res = await fetch('/api/snooze-register', {
+    method,
+    headers: headers(sub),
+    credentials: 'include',
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const data = (await res.json().catch(() => ({}))) as T & { error?: string };
+  if (!res.ok) throw new Error(data.error || `snooze-register ${res.status}`);
+  return data;
+}
+
+// Runs `fn` for every signed-in account; one failure does not stop the rest
+async function forEveryAccount(fn: (sub: string) => Promise<void>): Promise<void> {
+  const failed: string[] = [];
+  for (const sub of await listAccountSubs()) {
+    try {
+      await fn(sub);
+    } catch (e: unknown) {
+      failed.push(`${sub === PRIMARY_ACCOUNT ? 'primary account' : sub}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (failed.length) throw new Error(failed.join('; '));
+}
+
+/**
+ * Hands one account's snooze settings to the server executor, which then returns
+ * due snoozes to the inbox with no tab open. The defaults are app-wide; the label
+ * mapping is the account's own. An account with nothing mapped yet (its labels
+ * are mapped when it is first opened) is skipped.
+ */
+export async function registerServerSnoozeAccount(s: AppSettings, sub: string): Promise<void> {
+  const labelMapping = sub === getActiveAccount()
+    ? s.labelMapping
+    : ((await (await getDB(sub)).get('settings', 'labelMapping')) as LabelMapping | undefined) || {};
+  if (!Object.values(labelMapping).some(Boolean)) return;
+  await call('POST', {
+    zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    anchorHour: s.anchorHour,
+    roundMinutes: s.roundMinutes,
+    unreadOnUnsnooze: s.unreadOnUnsnooze,
+    labelMapping,
+    presets: Object.fromEntries((s.snoozePresets || []).map((p) => [p.name, p.expr])),
+    businessHours: s.businessHours,
+    holidays: s.holidays,
+    businessHoursRules: s.businessHoursRules
+  }, sub);
+}
+
+/**
+ * Registers every signed-in account (the setting is app-wide). Call again
+ * whenever the defaults or a label mapping change.
+ */
+export async function registerServerSnooze(s: AppSettings): Promise<void> {
+  await forEveryAccount((sub) => registerServerSnoozeAccount(s, sub));
+}
+
+/**
+ * Tells the executor when `threadId` went under `labelId`, so its due time
+ * counts from the snooze rather than from the first run that sees the label.
+ * Best-effort: without the report the executor falls back to that first run.
+ */
+export function reportServerSnooze(threadId: string, labelIds: string[], at = Date.now()): void {
+  if (!labelIds.length) return;
+  call('PATCH', { snoozes: labelIds.map((labelId) => ({ threadId, labelId, at })) }).catch((e: unknown) => {
+    console.warn('[Snooze] Could not report the snooze to the server:', e instanceof Error ? e.message : String(e));
+  });
+}
+
+/** Stops the executor for one account, e.g. before it signs out. */
+export async function unregisterServerSnoozeAccount(sub: string): Promise<void> {
+  await call('DELETE', undefined, sub);
+}
+
+export async function unregisterServerSnooze(): Promise<void> {
+  await forEveryAccount(unregisterServerSnoozeAccount);
+}
+
+/** The active account's registration. */
+export async function getServerSnoozeStatus(): Promise<ServerSnoozeStatus> {
+  return call<ServerSnoozeStatus>('GET');
+}
+
+/** Registers or unregisters to match `s.serverSnooze`. */
+export async function syncServerSnooze(s: AppSettings): Promise<void> {
+  if (s.serverSnooze) await registerServerSnooze(s);
+  else await unregisterServerSnooze();
+}
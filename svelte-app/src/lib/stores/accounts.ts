@@ -0,0 +1,89 @@
+import { get, writable } from 'svelte/store';
+import { PRIMARY_ACCOUNT, deleteAccountDB, getActiveAccount, getDB, setActiveAccount } from '$lib/db/indexeddb';
+import { unregisterServerSnoozeAccount } from '$lib/snooze/server';
+import type { GmailThread, SignedInAccount } from '$lib/types';
+
+type MeResponse = {
+  authenticated?: boolean;
+  user?: { sub: string; email?: string };
+  accounts?: Array<{ sub: string; email?: string; primary?: boolean }>;
+};
+
+/** Accounts signed in on the server, primary first (sub PRIMARY_ACCOUNT). */
+export const accounts = writable<SignedInAccount[]>([]);
+export const activeAccount = writable<string>(getActiveAccount());
+
+async function storeAccounts(list: SignedInAccount[]): Promise<void> {
+  const db = await getDB(PRIMARY_ACCOUNT);
+  await db.put('settings', list, 'accounts');
+  accounts.set(list);
+}
+
+/**
+ * Loads the signed-in accounts from `/api/google-me`, falling back to the stored
+ * list when offline. The list is persisted for the flush loop and service worker.
+ */
+export async function loadAccounts(): Promise<SignedInAccount[]> {
+  const db = await getDB(PRIMARY_ACCOUNT);
+  const stored = ((await db.get('settings', 'accounts')) as SignedInAccount[] | undefined) || [];
+  accounts.set(stored);
+  try {
+    const res = await fetch('/api/google-me', { credentials: 'include' });
+    if (!res.ok) return stored;
+    const me = (await res.json()) as MeResponse;
+    const raw = me.accounts || (me.user ? [{ ...me.user, primary: true }] : []);
+    const list = raw.map((a) => ({ sub: a.primary ? PRIMARY_ACCOUNT : a.sub, email: a.email }));
+    await storeAccounts(list);
+    // The active account was signed out in another tab or its session expired
+    const active = getActiveAccount();
+    if (active !== PRIMARY_ACCOUNT && !list.some((a) => a.sub === active)) switchAccount(PRIMARY_ACCOUNT);
+    return list;
+  } catch {
+    return stored;
+  }
+}
+
+/** Makes `sub` the active account and reloads so every store starts from its database. */
+export function switchAccount(sub: string, path = '/inbox'): void {
+  setActiveAccount(sub);
+  activeAccount.set(sub);
+  location.href = path;
+}
+
+/** Starts the server sign-in for another Google account; the callback returns to the inbox. */
+export function addAccount(): void {
+  const url = new URL('/api/google-login', location.origin);
+  url.searchParams.set('add_account', '1');
+  url.searchParams.set('return_to', new URL('/inbox', location.origin).toString());
+  location.href = url.toString();
+}
+
+/** Signs out an additional account and deletes its local data. The primary account uses Re-login. */
+export async function signOutAccount(sub: string): Promise<void> {
+  if (sub === PRIMARY_ACCOUNT) return;
+  // While the session is still there; a no-op when server snooze is off
+  await unregisterServerSnoozeAccount(sub).catch(() => { /* offline or no Functions app */ });
+  await fetch(`/api/google/logout?sub=${encodeURIComponent(sub)}`, { method: 'POST', credentials: 'include' });
+  await deleteAccountDB(sub);
+  await storeAccounts(get(accounts).filter((a) => a.sub !== sub));
+  if (getActiveAccount() === sub) switchAccount(PRIMARY_ACCOUNT);
+}
+
+export type UnifiedThread = GmailThread & { accountSub: string; accountEmail?: string };
+
+/**
+ * Inbox threads of every signed-in account, newest first, read from each
+ * account's local database (each account syncs while it is the active one).
+ */
+export async function loadUnifiedInbox(limit = 200): Promise<UnifiedThread[]> {
+  const list = get(accounts).length ? get(accounts) : await loadAccounts();
+  const all: UnifiedThread[] = [];
+  for (const a of list) {
+    const db = await getDB(a.sub);
+    const threads = await db.getAllFromIndex('threads', 'by_lastMsgDate');
+    for (const t of threads) {
+      if ((t.labelIds || []).includes('INBOX')) all.push({ ...t, accountSub: a.sub, accountEmail: a.email });
+    }
+  }
+  return all.sort((x, y) => (y.lastMsgMeta.date || 0) - (x.lastMsgMeta.date || 0)).slice(0, limit);
+}
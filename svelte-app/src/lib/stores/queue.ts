@@ -1,8 +1,11 @@
 import { writable } from 'svelte/store';
 import { getDB } from '$lib/db/indexeddb';
+import { isFailed, isScheduled } from '$lib/queue/ops';
 
 export type SyncState = {
   pendingOps: number;
+  /** Dead-lettered ops waiting for the user in the Outbox (not counted in pendingOps) */
+  failedOps?: number;
   lastError?: string;
   lastUpdatedAt: number;
 };
@@ -11,9 +14,12 @@ export const syncState = writable<SyncState>({ pendingOps: 0, lastUpdatedAt: 0 }
 
 export async function refreshSyncState(): Promise<void> {
   const db = await getDB();
-  const ops = await db.getAll('ops');
+  const now = Date.now();
+  // Send-later ops are intentional waits, not unsynced work
+  const ops = (await db.getAll('ops')).filter((o) => !isScheduled(o, now));
+  const failedOps = ops.filter(isFailed).length;
   const lastError = ops.map((o) => o.lastError).filter(Boolean).pop();
-  syncState.set({ pendingOps: ops.length, lastError: lastError || undefined, lastUpdatedAt: Date.now() });
+  syncState.set({ pendingOps: ops.length - failedOps, failedOps, lastError: lastError || undefined, lastUpdatedAt: Date.now() });
 }
 
 export async function syncNow(): Promise<void> {
@@ -30,7 +36,7 @@ export async function syncNow(): Promise<void> {
     const { resetOptimisticCounters } = await import('$lib/stores/optimistic-counters');
     
     const db = await getDB();
-    const remainingOps = await db.getAll('ops');
+    const remainingOps = (await db.getAll('ops')).filter((o) => !isScheduled(o));
     
     if (!remainingOps || remainingOps.length === 0) {
       // All operations completed - safe to reset counters
@@ -2,4 +2,5 @@ import { writable } from 'svelte/store';
 
 export const searchQuery = writable('');
 
-
+/** 'meaning' ranks cached threads by embedding similarity instead of matching text. */
+export const searchMode = writable<'text' | 'meaning'>('text');
@@ -1,5 +1,10 @@
-import { writable } from 'svelte/store';
-import { getDB } from '$lib/db/indexeddb';
+import { get, writable } from 'svelte/store';
+import { PRIMARY_ACCOUNT, getActiveAccount, getDB } from '$lib/db/indexeddb';
+import { setBusinessCalendar, setCustomPresets } from '$lib/snooze/rules';
+import { DEFAULT_BUSINESS_HOURS } from '$lib/snooze/business-hours';
+import { registerServerSnooze, registerServerSnoozeAccount } from '$lib/snooze/server';
+import type { BusinessHours } from '$lib/snooze/business-hours';
+import type { AIFeature, SnoozePreset } from '$lib/types';
 
 // Request persistent storage to prevent browser from clearing IndexedDB
 async function requestPersistentStorage(): Promise<boolean> {
@@ -27,13 +32,42 @@ export type AppSettings = {
   roundMinutes: number;
   unreadOnUnsnooze: boolean;
   labelMapping: LabelMapping;
+  /** User-defined snoozes; each name can be mapped to a label like a built-in rule */
+  snoozePresets?: SnoozePreset[];
+  /** Working days and hours; rules in `businessHoursRules` move to the next working slot */
+  businessHours?: BusinessHours;
+  /** Non-working dates ("YYYY-MM-DD"), imported from ICS or a date list */
+  holidays?: string[];
+  /** Rule keys whose targets respect business hours and holidays */
+  businessHoursRules?: string[];
   notifEnabled?: boolean;
-  aiProvider?: 'openai' | 'anthropic' | 'gemini';
+  /** 'local' targets any OpenAI-compatible server at `aiBaseUrl` */
+  aiProvider?: 'openai' | 'anthropic' | 'gemini' | 'local';
   aiApiKey?: string;
+  /** Base URL of the OpenAI-compatible server, e.g. http://localhost:11434/v1 */
+  aiBaseUrl?: string;
   aiModel?: string;
   aiSummaryModel?: string;
   aiDraftModel?: string;
   aiPageFetchOptIn?: boolean;
+  /** Background precompute pauses once today's tokens reach this (unset = no limit) */
+  aiBudgetDailyTokens?: number;
+  /** Background precompute pauses once this month's tokens reach this */
+  aiBudgetMonthlyTokens?: number;
+  /** Background precompute pauses once this month's estimated cost reaches this (USD) */
+  aiBudgetMonthlyUsd?: number;
+  /** Daily token cap per feature; only that feature's background work pauses */
+  aiBudgetFeatureDailyTokens?: Partial<Record<AIFeature, number>>;
+  /** Build an embeddings index during precompute and offer "search by meaning" */
+  semanticSearch?: boolean;
+  /** Embed with the configured provider, or with a model on an OpenAI-compatible server */
+  aiEmbeddingSource?: 'provider' | 'local';
+  /** Embedding model; empty uses the source's default */
+  aiEmbeddingModel?: string;
+  /** Server for `aiEmbeddingSource: 'local'`; falls back to `aiBaseUrl` */
+  aiEmbeddingBaseUrl?: string;
+  /** Mask email addresses, phone numbers and tokens in mail sent as inbox chat context (default on) */
+  aiChatRedactPII?: boolean;
   taskFilePath?: string;
   trailingRefreshDelayMs?: number;
   /** Duration for residual slide-out on refresh/removal (ms) */
@@ -60,6 +94,8 @@ export type AppSettings = {
   precomputeUseBatch?: boolean;
   /** Use Gemini Context Caching for stable instructions/signatures */
   precomputeUseContextCache?: boolean;
+  /** Extract event, order and bill cards from cached mail during precompute */
+  precomputeCards?: boolean;
   // Note: AI summary schema version concept removed; cached summaries are
   // treated as binary (exists / does not exist) and preserved while thread
   // remains in INBOX. No app-controlled summary version is stored.
@@ -71,6 +107,10 @@ export type AppSettings = {
   authPopupCooldownSeconds?: number;
   /** Number of emails to pull forward from snooze when inbox is empty */
   pullForwardCount?: number;
+  /** Let the server executor (api/snooze-executor) unsnooze while no tab is open */
+  serverSnooze?: boolean;
+  /** Days of action history (undo / redo / Activity) kept in IndexedDB */
+  journalRetentionDays?: number;
   /** AI summary schema version (legacy but kept for compat) */
   aiSummaryVersion?: number;
   /** Force recompute of summaries when version bumps */
@@ -103,22 +143,57 @@ const DEFAULTS: AppSettings = {
   // Default to 100 messages per page for a denser inbox load while keeping performance reasonable
   inboxPageSize: 100,
   // Default to pulling forward 3 emails when inbox is empty
-  pullForwardCount: 3
+  pullForwardCount: 3,
+  journalRetentionDays: 30
 };
 
 export const settings = writable<AppSettings>({ ...DEFAULTS });
+// normalizeRuleKey / resolveRule read presets from the rules module
+settings.subscribe((s) => {
+  setCustomPresets(s.snoozePresets);
+  setBusinessCalendar({ ...(s.businessHours || DEFAULT_BUSINESS_HOURS), holidays: s.holidays || [] }, s.businessHoursRules);
+});
 
+/**
+ * A first label mapping for an additional account, carried over from the primary
+ * account by label name (label IDs differ between accounts). Returns undefined
+ * until the account's labels are cached, so the next load tries again.
+ */
+async function seedLabelMapping(accountSub: string): Promise<LabelMapping | undefined> {
+  const [primary, own] = await Promise.all([getDB(PRIMARY_ACCOUNT), getDB(accountSub)]);
+  const source = (await primary.get('settings', 'labelMapping')) as LabelMapping | undefined;
+  if (!source) return undefined;
+  const primaryNames = new Map((await primary.getAll('labels')).map((l) => [l.id, l.name]));
+  const ownIds = new Map((await own.getAll('labels')).map((l) => [l.name, l.id]));
+  if (!ownIds.size) return undefined;
+  const seeded: LabelMapping = {};
+  for (const [key, labelId] of Object.entries(source)) {
+    const name = primaryNames.get(labelId);
+    seeded[key] = (name && ownIds.get(name)) || '';
+  }
+  await own.put('settings', seeded, 'labelMapping');
+  console.log('[Settings] Seeded label mapping from the primary account:', Object.values(seeded).filter(Boolean).length, 'mapped');
+  return seeded;
+}
+
+/**
+ * Loads the settings. App-wide settings (AI provider and key, snooze presets, server
+ * snooze config, ...) live in the primary account's database and are shared by every
+ * account; the label mapping is per account because label IDs are.
+ */
 export async function loadSettings(): Promise<void> {
   console.log('[Settings] loadSettings() called');
   
   // Request persistent storage on first load
   await requestPersistentStorage();
   
-  const db = await getDB();
-  const [app, mapping] = await Promise.all([
+  const db = await getDB(PRIMARY_ACCOUNT);
+  const account = getActiveAccount();
+  const [app, ownMapping] = await Promise.all([
     db.get('settings', 'app'),
-    db.get('settings', 'labelMapping')
+    getDB(account).then((own) => own.get('settings', 'labelMapping'))
   ]);
+  const mapping = ownMapping ?? (account === PRIMARY_ACCOUNT ? undefined : await seedLabelMapping(account));
   
   console.log('[Settings] Raw data from IndexedDB:', { 
     app: app ? 'present' : 'null/undefined', 
@@ -135,7 +210,7 @@ export async function loadSettings(): Promise<void> {
   };
 
   // Automatically enable precompute if API key is present
-  const hasKey = merged.aiApiKey && merged.aiApiKey.trim() !== '';
+  const hasKey = hasAIConfigured(merged);
   if (hasKey) {
     merged.precomputeSummaries = true;
   } else {
@@ -162,6 +237,12 @@ export async function loadSettings(): Promise<void> {
     needsWrite = true;
   }
   settings.set(merged);
+  // An account added after server snooze was turned on is registered once it has a mapping
+  if (merged.serverSnooze && !ownMapping && mapping) {
+    registerServerSnoozeAccount(merged, account).catch((e: unknown) => {
+      console.warn('[Settings] Server snooze could not register this account:', e instanceof Error ? e.message : String(e));
+    });
+  }
   if (needsWrite) {
     const nextApp = { ...(app as object), trailingSlideOutDurationMs: normalSlideMs };
     await db.put('settings', nextApp, 'app');
@@ -170,13 +251,34 @@ export async function loadSettings(): Promise<void> {
   console.log('[Settings] loadSettings() complete');
 }
 
+/** Whether AI calls can be made: a key for cloud providers, a base URL for a local server. */
+export function hasAIConfigured(s: Partial<AppSettings> | undefined): boolean {
+  if (!s) return false;
+  if (s.aiProvider === 'local') return !!(s.aiBaseUrl && s.aiBaseUrl.trim());
+  return !!(s.aiApiKey && s.aiApiKey.trim());
+}
+
+// What the server executor keeps a copy of (see registerServerSnooze), besides the label mapping
+const SERVER_SNOOZE_KEYS: Array<keyof AppSettings> = ['anchorHour', 'roundMinutes', 'unreadOnUnsnooze', 'snoozePresets', 'businessHours', 'holidays', 'businessHoursRules'];
+
+// Re-registers every account with the executor whichever screen changed its config; Settings reports failures on save
+function resyncServerSnooze(): void {
+  const s = get(settings);
+  if (!s.serverSnooze) return;
+  registerServerSnooze(s).catch((e: unknown) => {
+    console.warn('[Settings] Server snooze config could not be updated:', e instanceof Error ? e.message : String(e));
+  });
+}
+
 export async function saveLabelMapping(newMapping: LabelMapping): Promise<void> {
   console.log('[Settings] saveLabelMapping() called with', Object.keys(newMapping).length, 'keys');
+  // Per account: label IDs are the account's own
   const db = await getDB();
   // Ensure we persist a plain object (avoid Svelte $state proxies not being cloneable)
   const clean: LabelMapping = JSON.parse(JSON.stringify(newMapping));
   await db.put('settings', clean, 'labelMapping');
   settings.update((s) => ({ ...s, labelMapping: clean }));
+  resyncServerSnooze();
   
   // Verify the save worked
   const verify = await db.get('settings', 'labelMapping');
@@ -190,14 +292,14 @@ export async function updateAppSettings(patch: Partial<AppSettings>): Promise<vo
   console.log('[Settings] updateAppSettings() called with keys:', Object.keys(patch));
   console.log('[Settings] updateAppSettings() hasApiKey:', !!patch.aiApiKey);
   
-  const db = await getDB();
+  const db = await getDB(PRIMARY_ACCOUNT);
   const current = (await db.get('settings', 'app')) as Partial<AppSettings> || {};
   
   // Merge current and patch
   const merged = { ...current, ...patch };
 
-  // Enforce precomputeSummaries based on aiApiKey
-  const hasKey = merged.aiApiKey && merged.aiApiKey.trim() !== '';
+  // Enforce precomputeSummaries based on aiApiKey (or the local server URL)
+  const hasKey = hasAIConfigured(merged);
   if (hasKey) {
     merged.precomputeSummaries = true;
   } else {
@@ -214,8 +316,10 @@ export async function updateAppSettings(patch: Partial<AppSettings>): Promise<vo
   // Ensure we persist a plain object (avoid Svelte $state proxies not being cloneable)
   const clean = JSON.parse(JSON.stringify(merged));
   
-  settings.set({ ...DEFAULTS, ...clean, labelMapping: (await db.get('settings', 'labelMapping')) as LabelMapping || {} });
+  const mapping = (await (await getDB()).get('settings', 'labelMapping')) as LabelMapping | undefined;
+  settings.set({ ...DEFAULTS, ...clean, labelMapping: mapping || {} });
   await db.put('settings', clean, 'app');
+  if (SERVER_SNOOZE_KEYS.some((k) => k in patch)) resyncServerSnooze();
   
   // Verify the save worked
   const verify = await db.get('settings', 'app');
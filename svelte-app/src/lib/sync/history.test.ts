@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { runHistorySync, type HistoryPage, type SyncGmail, type SyncStore } from './history';
+import type { GmailMessage, GmailThread, JournalEntry } from '$lib/types';
+
+const NOW = 1_750_000_000_000;
+
+function msg(id: string, threadId: string, labelIds: string[]): GmailMessage {
+  return { id, threadId, labelIds, internalDate: NOW - 1000 };
+}
+
+function thread(threadId: string, messages: GmailMessage[]): GmailThread {
+  return {
+    threadId,
+    messageIds: messages.map((m) => m.id),
+    lastMsgMeta: { subject: threadId, date: NOW - 1000 },
+    labelIds: Array.from(new Set(messages.flatMap((m) => m.labelIds)))
+  };
+}
+
+function journal(threadId: string, ageMs: number, addLabelIds: string[], removeLabelIds: string[]): JournalEntry {
+  return {
+    id: `${threadId}:${ageMs}`,
+    createdAt: NOW - ageMs,
+    threadId,
+    intent: { type: 'archive', addLabelIds, removeLabelIds },
+    inverse: { addLabelIds: removeLabelIds, removeLabelIds: addLabelIds }
+  };
+}
+
+/** Gmail with a fixed history log and mailbox; `expired` makes history.list answer 404. */
+function fakeGmail(opts: { history?: HistoryPage[]; mailbox?: Record<string, GmailMessage[]>; historyId?: string; expired?: boolean }): SyncGmail {
+  const mailbox = opts.mailbox || {};
+  return {
+    async listHistory(_start, pageToken) {
+      if (opts.expired) throw Object.assign(new Error('Requested entity was not found.'), { status: 404 });
+      return (opts.history || [])[pageToken ? Number(pageToken) : 0] || {};
+    },
+    async getProfile() {
+      return { historyId: opts.historyId || '900' };
+    },
+    async listThreadIdsByLabelId(labelId) {
+      return { ids: Object.keys(mailbox).filter((id) => mailbox[id].some((m) => m.labelIds.includes(labelId))) };
+    },
+    async getThreadSummary(threadId) {
+      const messages = mailbox[threadId];
+      if (!messages) throw Object.assign(new Error('Thread not found or empty'), { status: 404 });
+      return { thread: thread(threadId, messages), messages };
+    }
+  };
+}
+
+function memoryStore(init: { threads?: GmailThread[]; messages?: GmailMessage[]; historyId?: string; journal?: JournalEntry[]; pending?: string[] }) {
+  const threads = new Map((init.threads || []).map((t) => [t.threadId, t]));
+  const messages = new Map((init.messages || []).map((m) => [m.id, m]));
+  let historyId = init.historyId || null;
+  const store: SyncStore = {
+    getHistoryId: async () => historyId,
+    setHistoryId: async (id) => {
+      historyId = id;
+    },
+    getThread: async (id) => threads.get(id),
+    getMessages: async (ids) => ids.map((id) => messages.get(id)).filter((m): m is GmailMessage => !!m),
+    putThread: async (t, ms) => {
+      threads.set(t.threadId, t);
+      for (const m of ms) messages.set(m.id, m);
+    },
+    deleteThread: async (id) => {
+      threads.delete(id);
+    },
+    deleteMessages: async (ids) => {
+      for (const id of ids) messages.delete(id);
+    },
+    listInboxThreadIds: async () => [...threads.values()].filter((t) => t.labelIds.includes('INBOX')).map((t) => t.threadId),
+    getJournalSince: async (since) => (init.journal || []).filter((e) => e.createdAt >= since),
+    getPendingScopeKeys: async () => new Set(init.pending || []),
+    isSnoozeLabel: (id) => id.startsWith('Snooze_')
+  };
+  return { store, threads, messages, historyId: () => historyId };
+}
+
+function seeded(labels: string[], extra: Parameters<typeof memoryStore>[0] = {}) {
+  const m = msg('m1', 't1', labels);
+  return memoryStore({ threads: [thread('t1', [m])], messages: [m], historyId: '100', ...extra });
+}
+
+const labelChange = (added: string[], removed: string[]): HistoryPage => ({
+  historyId: '200',
+  history: [
+    {
+      id: '150',
+      labelsAdded: added.length ? [{ message: { id: 'm1', threadId: 't1' }, labelIds: added }] : undefined,
+      labelsRemoved: removed.length ? [{ message: { id: 'm1', threadId: 't1' }, labelIds: removed }] : undefined
+    }
+  ]
+});
+
+describe('runHistorySync', () => {
+  it('applies label records for any label and advances the historyId', async () => {
+    const s = seeded(['INBOX', 'UNREAD']);
+    const result = await runHistorySync(fakeGmail({ history: [labelChange(['STARRED', 'Label_7'], ['UNREAD'])] }), s.store, { now: () => NOW });
+    expect(result.mode).toBe('incremental');
+    expect(s.threads.get('t1')?.labelIds.sort()).toEqual(['INBOX', 'Label_7', 'STARRED']);
+    expect(s.messages.get('m1')?.labelIds.sort()).toEqual(['INBOX', 'Label_7', 'STARRED']);
+    expect(s.historyId()).toBe('200');
+  });
+
+  it('follows history pages', async () => {
+    const s = seeded(['INBOX']);
+    const pages: HistoryPage[] = [
+      { ...labelChange(['STARRED'], []), nextPageToken: '1' },
+      { ...labelChange([], ['INBOX']), historyId: '300' }
+    ];
+    await runHistorySync(fakeGmail({ history: pages }), s.store, { now: () => NOW });
+    expect(s.threads.get('t1')?.labelIds).toEqual(['STARRED']);
+    expect(s.historyId()).toBe('300');
+  });
+
+  it('removes deleted messages and drops threads left empty', async () => {
+    const s = seeded(['INBOX']);
+    const result = await runHistorySync(
+      fakeGmail({ history: [{ historyId: '200', history: [{ id: '150', messagesDeleted: [{ message: { id: 'm1', threadId: 't1' } }] }] }] }),
+      s.store,
+      { now: () => NOW }
+    );
+    expect(s.threads.has('t1')).toBe(false);
+    expect(s.messages.has('m1')).toBe(false);
+    expect(result.deletedThreadIds).toEqual(['t1']);
+  });
+
+  it('fetches threads that gain messages', async () => {
+    const s = memoryStore({ historyId: '100' });
+    const mailbox = { t2: [msg('m2', 't2', ['INBOX', 'UNREAD'])] };
+    await runHistorySync(
+      fakeGmail({ mailbox, history: [{ historyId: '200', history: [{ id: '150', messagesAdded: [{ message: { id: 'm2', threadId: 't2', labelIds: ['INBOX', 'UNREAD'] } }] }] }] }),
+      s.store,
+      { now: () => NOW }
+    );
+    expect(s.threads.get('t2')?.messageIds).toEqual(['m2']);
+    expect(s.messages.get('m2')?.labelIds).toEqual(['INBOX', 'UNREAD']);
+  });
+
+  it('reports threads that gain a reply but not the user\'s own sends', async () => {
+    const s = seeded(['SENT']);
+    const mailbox = { t1: [msg('m1', 't1', ['SENT']), msg('m2', 't1', ['INBOX', 'UNREAD'])], t3: [msg('m3', 't3', ['SENT'])] };
+    const added = (id: string, threadId: string) => ({ message: { id, threadId } });
+    const result = await runHistorySync(
+      fakeGmail({ mailbox, history: [{ historyId: '200', history: [{ id: '150', messagesAdded: [added('m2', 't1'), added('m3', 't3')] }] }] }),
+      s.store,
+      { now: () => NOW }
+    );
+    expect(result.inboundThreadIds).toEqual(['t1']);
+  });
+
+  it('falls back to a bounded full resync when the historyId expired', async () => {
+    const s = seeded(['INBOX']);
+    const mailbox = {
+      t1: [msg('m1', 't1', ['CATEGORY_UPDATES'])],
+      t2: [msg('m2', 't2', ['INBOX'])],
+      t3: [msg('m3', 't3', ['INBOX'])]
+    };
+    const result = await runHistorySync(fakeGmail({ mailbox, expired: true, historyId: '900' }), s.store, { now: () => NOW, fullResyncLimit: 10 });
+    expect(result.mode).toBe('full');
+    expect(s.threads.get('t1')?.labelIds).toEqual(['CATEGORY_UPDATES']);
+    expect([...s.threads.keys()].sort()).toEqual(['t1', 't2', 't3']);
+    expect(s.historyId()).toBe('900');
+  });
+});
+
+describe('journal protection', () => {
+  it('keeps local labels while an op for the thread is pending', async () => {
+    const s = seeded([], { pending: ['t1'] });
+    const result = await runHistorySync(fakeGmail({ history: [labelChange(['INBOX'], [])] }), s.store, { now: () => NOW });
+    expect(s.threads.get('t1')?.labelIds).toEqual([]);
+    expect(result.protectedThreadIds).toEqual(['t1']);
+  });
+
+  it('keeps local labels after an action in the last 30 seconds', async () => {
+    const s = seeded(['Label_1'], { journal: [journal('t1', 10_000, [], ['INBOX'])] });
+    await runHistorySync(fakeGmail({ history: [labelChange(['INBOX', 'STARRED'], [])] }), s.store, { now: () => NOW });
+    expect(s.threads.get('t1')?.labelIds).toEqual(['Label_1']);
+  });
+
+  it('does not re-add INBOX within 2 minutes of an archive but applies other labels', async () => {
+    const s = seeded(['Label_1'], { journal: [journal('t1', 60_000, [], ['INBOX'])] });
+    await runHistorySync(fakeGmail({ history: [labelChange(['INBOX', 'STARRED'], [])] }), s.store, { now: () => NOW });
+    expect(s.threads.get('t1')?.labelIds.sort()).toEqual(['Label_1', 'STARRED']);
+    expect(s.messages.get('m1')?.labelIds).not.toContain('INBOX');
+  });
+
+  it('applies the server state once the journal entry is older than 2 minutes', async () => {
+    const s = seeded(['Label_1'], { journal: [journal('t1', 180_000, [], ['INBOX'])] });
+    await runHistorySync(fakeGmail({ history: [labelChange(['INBOX'], [])] }), s.store, { now: () => NOW });
+    expect(s.threads.get('t1')?.labelIds).toContain('INBOX');
+  });
+
+  it('never puts INBOX next to TRASH, SPAM or a snooze label', async () => {
+    for (const label of ['TRASH', 'SPAM', 'Snooze_1h']) {
+      const s = seeded([label]);
+      await runHistorySync(fakeGmail({ history: [labelChange(['INBOX'], [])] }), s.store, { now: () => NOW });
+      expect(s.threads.get('t1')?.labelIds).toEqual([label]);
+    }
+  });
+});
@@ -0,0 +1,319 @@
+import type { GmailMessage, GmailThread, JournalEntry } from '$lib/types';
+import { PHASE2_WINDOW_MS, reconcileLabels } from './protection';
+
+type HistoryMessage = { id: string; threadId: string; labelIds?: string[] };
+
+/** One record of Gmail `users.history.list`. */
+export type HistoryRecord = {
+  id: string;
+  messagesAdded?: { message: HistoryMessage }[];
+  messagesDeleted?: { message: HistoryMessage }[];
+  labelsAdded?: { message: HistoryMessage; labelIds: string[] }[];
+  labelsRemoved?: { message: HistoryMessage; labelIds: string[] }[];
+};
+
+export type HistoryPage = { history?: HistoryRecord[]; historyId?: string; nextPageToken?: string };
+
+/** The Gmail calls the engine needs; `$lib/gmail/api` in the app, a fake in tests. */
+export interface SyncGmail {
+  listHistory(startHistoryId: string, pageToken?: string): Promise<HistoryPage>;
+  getProfile(): Promise<{ historyId: string }>;
+  listThreadIdsByLabelId(labelId: string, maxResults?: number, pageToken?: string): Promise<{ ids: string[]; nextPageToken?: string }>;
+  getThreadSummary(threadId: string): Promise<{ thread: GmailThread; messages: GmailMessage[] }>;
+}
+
+/** Local state the engine reads and writes; IndexedDB in the app, memory in tests. */
+export interface SyncStore {
+  getHistoryId(): Promise<string | null>;
+  setHistoryId(historyId: string): Promise<void>;
+  getThread(threadId: string): Promise<GmailThread | undefined>;
+  getMessages(ids: string[]): Promise<GmailMessage[]>;
+  putThread(thread: GmailThread, messages: GmailMessage[]): Promise<void>;
+  deleteThread(threadId: string): Promise<void>;
+  deleteMessages(ids: string[]): Promise<void>;
+  listInboxThreadIds(): Promise<string[]>;
+  getJournalSince(since: number): Promise<JournalEntry[]>;
+  /** Scope keys (thread ids) of ops still waiting in the outbox */
+  getPendingScopeKeys(): Promise<Set<string>>;
+  isSnoozeLabel(labelId: string): boolean;
+}
+
+export type HistorySyncProgress = { phase: 'history' | 'threads' | 'resync'; done: number; total: number };
+
+export type HistorySyncOptions = {
+  now?: () => number;
+  /** Most inbox threads a full resync enumerates */
+  fullResyncLimit?: number;
+  onProgress?: (progress: HistorySyncProgress) => void;
+};
+
+export type HistorySyncResult = {
+  mode: 'incremental' | 'full';
+  historyId: string;
+  changedThreadIds: string[];
+  /** Threads removed locally because all their messages were deleted in Gmail */
+  deletedThreadIds: string[];
+  /** Threads whose local labels were kept because of a pending op or a recent action */
+  protectedThreadIds: string[];
+  /** Threads that gained a message not sent by the user (follow-up tracking cancels on these) */
+  inboundThreadIds: string[];
+};
+
+export const DEFAULT_FULL_RESYNC_LIMIT = 500;
+const FETCH_CONCURRENCY = 4;
+
+type LabelOp = { add: boolean; labelIds: string[] };
+type ThreadChange = {
+  added: Set<string>;
+  deleted: Set<string>;
+  /** Label changes per message id, in history order */
+  labelOps: Map<string, LabelOp[]>;
+  inboxAdded: boolean;
+};
+
+type RunContext = {
+  now: number;
+  journal: Map<string, JournalEntry[]>;
+  pending: Set<string>;
+  result: HistorySyncResult;
+};
+
+function isNotFound(e: unknown): boolean {
+  return !!e && typeof e === 'object' && (e as { status?: number }).status === 404;
+}
+
+/**
+ * Brings the local mailbox up to date from Gmail history since the stored
+ * historyId. Every label and all four record types are applied. When Gmail no
+ * longer has that history (404) or no historyId is stored yet, a bounded full
+ * resync of the inbox runs instead.
+ */
+export async function runHistorySync(gmail: SyncGmail, store: SyncStore, opts: HistorySyncOptions = {}): Promise<HistorySyncResult> {
+  const now = (opts.now || Date.now)();
+  const start = await store.getHistoryId();
+  if (!start) return fullResync(gmail, store, opts, await createContext(store, now, 'full'));
+
+  const records: HistoryRecord[] = [];
+  let latest = start;
+  let pageToken: string | undefined;
+  try {
+    do {
+      const page = await gmail.listHistory(start, pageToken);
+      records.push(...(page.history || []));
+      if (page.historyId) latest = page.historyId;
+      pageToken = page.nextPageToken;
+      opts.onProgress?.({ phase: 'history', done: records.length, total: records.length });
+    } while (pageToken);
+  } catch (e) {
+    if (isNotFound(e)) return fullResync(gmail, store, opts, await createContext(store, now, 'full'));
+    throw e;
+  }
+
+  const ctx = await createContext(store, now, 'incremental');
+  const changes = collectChanges(records);
+  let done = 0;
+  for (const [threadId, change] of changes) {
+    await applyThreadChange(gmail, store, ctx, threadId, change);
+    opts.onProgress?.({ phase: 'threads', done: ++done, total: changes.size });
+  }
+  await store.setHistoryId(latest);
+  ctx.result.historyId = latest;
+  return ctx.result;
+}
+
+async function createContext(store: SyncStore, now: number, mode: HistorySyncResult['mode']): Promise<RunContext> {
+  const journal = new Map<string, JournalEntry[]>();
+  for (const e of await store.getJournalSince(now - PHASE2_WINDOW_MS)) {
+    const list = journal.get(e.threadId) || [];
+    list.push(e);
+    journal.set(e.threadId, list);
+  }
+  return {
+    now,
+    journal,
+    pending: await store.getPendingScopeKeys(),
+    result: { mode, historyId: '', changedThreadIds: [], deletedThreadIds: [], protectedThreadIds: [], inboundThreadIds: [] }
+  };
+}
+
+function collectChanges(records: HistoryRecord[]): Map<string, ThreadChange> {
+  const changes = new Map<string, ThreadChange>();
+  const changeFor = (threadId: string) => {
+    let c = changes.get(threadId);
+    if (!c) changes.set(threadId, (c = { added: new Set(), deleted: new Set(), labelOps: new Map(), inboxAdded: false }));
+    return c;
+  };
+  const pushOp = (c: ThreadChange, messageId: string, op: LabelOp) => {
+    const ops = c.labelOps.get(messageId) || [];
+    ops.push(op);
+    c.labelOps.set(messageId, ops);
+  };
+  for (const r of records) {
+    for (const { message } of r.messagesAdded || []) {
+      const c = changeFor(message.threadId);
+      c.added.add(message.id);
+      c.deleted.delete(message.id);
+    }
+    for (const { message } of r.messagesDeleted || []) {
+      const c = changeFor(message.threadId);
+      c.deleted.add(message.id);
+      c.added.delete(message.id);
+    }
+    for (const { message, labelIds } of r.labelsAdded || []) {
+      const c = changeFor(message.threadId);
+      pushOp(c, message.id, { add: true, labelIds });
+      if (labelIds.includes('INBOX')) c.inboxAdded = true;
+    }
+    for (const { message, labelIds } of r.labelsRemoved || []) {
+      pushOp(changeFor(message.threadId), message.id, { add: false, labelIds });
+    }
+  }
+  return changes;
+}
+
+async function applyThreadChange(gmail: SyncGmail, store: SyncStore, ctx: RunContext, threadId: string, change: ThreadChange): Promise<void> {
+  const local = await store.getThread(threadId);
+  // New messages change the thread summary, and a thread we never cached only
+  // matters once it lands in the inbox: both need the thread from Gmail
+  if (change.added.size || (!local && change.inboxAdded)) {
+    await fetchAndApply(gmail, store, ctx, threadId, local, change.added);
+    return;
+  }
+  if (!local) return;
+
+  const messageIds = local.messageIds.filter((id) => !change.deleted.has(id));
+  const deleted = local.messageIds.filter((id) => change.deleted.has(id));
+  if (deleted.length) await store.deleteMessages(deleted);
+  if (!messageIds.length) {
+    await store.deleteThread(threadId);
+    ctx.result.deletedThreadIds.push(threadId);
+    return;
+  }
+  const stored = await store.getMessages(messageIds);
+  // Thread labels are the union of message labels; without every message cached, ask Gmail
+  if (stored.length < messageIds.length) {
+    await fetchAndApply(gmail, store, ctx, threadId, local);
+    return;
+  }
+  const messages = stored.map((m) => {
+    const labels = new Set(m.labelIds || []);
+    for (const op of change.labelOps.get(m.id) || []) {
+      for (const l of op.labelIds) {
+        if (op.add) labels.add(l);
+        else labels.delete(l);
+      }
+    }
+    return { ...m, labelIds: Array.from(labels) };
+  });
+  const remoteLabels = Array.from(new Set(messages.flatMap((m) => m.labelIds)));
+  await applyRemoteThread(store, ctx, local, { ...local, messageIds, labelIds: remoteLabels }, messages);
+}
+
+async function fetchAndApply(
+  gmail: SyncGmail,
+  store: SyncStore,
+  ctx: RunContext,
+  threadId: string,
+  local: GmailThread | undefined,
+  added?: Set<string>
+): Promise<void> {
+  let remote: { thread: GmailThread; messages: GmailMessage[] };
+  try {
+    remote = await gmail.getThreadSummary(threadId);
+  } catch (e) {
+    if (!isNotFound(e)) throw e;
+    // Gone from Gmail (deleted forever)
+    if (local) {
+      await store.deleteMessages(local.messageIds);
+      await store.deleteThread(threadId);
+      ctx.result.deletedThreadIds.push(threadId);
+    }
+    return;
+  }
+  if (added && remote.messages.some((m) => added.has(m.id) && !(m.labelIds || []).some((l) => l === 'SENT' || l === 'DRAFT'))) {
+    ctx.result.inboundThreadIds.push(threadId);
+  }
+  await applyRemoteThread(store, ctx, local, remote.thread, remote.messages);
+}
+
+async function applyRemoteThread(
+  store: SyncStore,
+  ctx: RunContext,
+  local: GmailThread | undefined,
+  remote: GmailThread,
+  remoteMessages: GmailMessage[]
+): Promise<void> {
+  const threadId = remote.threadId;
+  const { labels, keptLocal } = reconcileLabels({
+    localLabels: local?.labelIds || [],
+    remoteLabels: remote.labelIds,
+    journal: local ? ctx.journal.get(threadId) || [] : [],
+    hasPendingOps: !!local && ctx.pending.has(threadId),
+    isSnoozeLabel: (l) => store.isSnoozeLabel(l),
+    now: ctx.now
+  });
+  if (keptLocal) ctx.result.protectedThreadIds.push(threadId);
+
+  const localMessages = keptLocal && local ? new Map((await store.getMessages(local.messageIds)).map((m) => [m.id, m])) : null;
+  const messages = remoteMessages.map((m) => {
+    const kept = localMessages?.get(m.id);
+    if (kept) return { ...m, labelIds: kept.labelIds };
+    return labels.includes('INBOX') ? m : { ...m, labelIds: (m.labelIds || []).filter((l) => l !== 'INBOX') };
+  });
+  if (local) {
+    const dropped = local.messageIds.filter((id) => !remote.messageIds.includes(id));
+    if (dropped.length) await store.deleteMessages(dropped);
+  }
+  await store.putThread({ ...local, ...remote, labelIds: labels }, messages);
+  ctx.result.changedThreadIds.push(threadId);
+}
+
+/**
+ * Re-enumerates up to `fullResyncLimit` inbox threads and fetches the ones that
+ * are new or whose INBOX state differs locally. The new baseline historyId is
+ * taken first so that changes made while this runs are replayed next time.
+ */
+async function fullResync(gmail: SyncGmail, store: SyncStore, opts: HistorySyncOptions, ctx: RunContext): Promise<HistorySyncResult> {
+  const limit = opts.fullResyncLimit ?? DEFAULT_FULL_RESYNC_LIMIT;
+  const { historyId } = await gmail.getProfile();
+  const remoteIds: string[] = [];
+  let pageToken: string | undefined;
+  let complete = false;
+  while (remoteIds.length < limit) {
+    const page = await gmail.listThreadIdsByLabelId('INBOX', Math.min(100, limit - remoteIds.length), pageToken);
+    remoteIds.push(...page.ids);
+    pageToken = page.nextPageToken;
+    if (!pageToken) {
+      complete = true;
+      break;
+    }
+    opts.onProgress?.({ phase: 'resync', done: 0, total: remoteIds.length });
+  }
+
+  const toFetch: string[] = [];
+  for (const id of remoteIds) {
+    const local = await store.getThread(id);
+    if (!local || !local.labelIds.includes('INBOX')) toFetch.push(id);
+  }
+  // Only a complete listing proves a local inbox thread left the inbox
+  if (complete) {
+    const remoteSet = new Set(remoteIds);
+    for (const id of await store.listInboxThreadIds()) if (!remoteSet.has(id)) toFetch.push(id);
+  }
+
+  let done = 0;
+  opts.onProgress?.({ phase: 'resync', done, total: toFetch.length });
+  let next = 0;
+  const worker = async () => {
+    while (next < toFetch.length) {
+      const id = toFetch[next++];
+      await fetchAndApply(gmail, store, ctx, id, await store.getThread(id));
+      opts.onProgress?.({ phase: 'resync', done: ++done, total: toFetch.length });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, toFetch.length) }, worker));
+
+  if (historyId) await store.setHistoryId(historyId);
+  ctx.result.historyId = historyId;
+  return ctx.result;
+}
@@ -0,0 +1,115 @@
+import { get, writable } from 'svelte/store';
+import { getDB } from '$lib/db/indexeddb';
+import { getProfile, getThreadSummary, listHistory, listThreadIdsByLabelId } from '$lib/gmail/api';
+import { settings } from '$lib/stores/settings';
+import { labels as labelsStore } from '$lib/stores/labels';
+import { isSnoozeLabel } from '$lib/snooze/cleanup';
+import { checkDueFollowUps, resolveReplies } from '$lib/snooze/follow-up';
+import { resnoozeRecurring } from '$lib/snooze/actions';
+import { runHistorySync, type HistorySyncProgress, type HistorySyncResult, type SyncGmail, type SyncStore } from './history';
+
+export { runHistorySync } from './history';
+export type { HistoryPage, HistoryRecord, HistorySyncProgress, HistorySyncResult, SyncGmail, SyncStore } from './history';
+export { reconcileLabels, PHASE1_WINDOW_MS, PHASE2_WINDOW_MS } from './protection';
+
+export type SyncState = {
+  status: 'idle' | 'syncing' | 'error';
+  /** Set while a sync runs */
+  progress?: HistorySyncProgress;
+  lastMode?: HistorySyncResult['mode'];
+  lastSyncedAt?: number;
+  lastError?: string;
+};
+
+export const syncState = writable<SyncState>({ status: 'idle' });
+
+export const gmailSyncApi: SyncGmail = { listHistory, getProfile, listThreadIdsByLabelId, getThreadSummary };
+
+/** SyncStore over the active account's IndexedDB. */
+export async function createIdbSyncStore(): Promise<SyncStore> {
+  const db = await getDB();
+  const mapping = get(settings).labelMapping || {};
+  const allLabels = get(labelsStore) || [];
+  return {
+    async getHistoryId() {
+      // Older builds stored `{ value }`; the inbox stores the raw id
+      const stored = (await db.get('settings', 'lastHistoryId')) as string | { value?: string } | undefined;
+      return (typeof stored === 'string' ? stored : stored?.value) || null;
+    },
+    async setHistoryId(historyId) {
+      await db.put('settings', historyId, 'lastHistoryId');
+    },
+    getThread: (threadId) => db.get('threads', threadId),
+    async getMessages(ids) {
+      const out = [];
+      for (const id of ids) {
+        const m = await db.get('messages', id);
+        if (m) out.push(m);
+      }
+      return out;
+    },
+    async putThread(thread, messages) {
+      const tx = db.transaction(['threads', 'messages'], 'readwrite');
+      for (const m of messages) await tx.objectStore('messages').put(m);
+      await tx.objectStore('threads').put(thread);
+      await tx.done;
+    },
+    deleteThread: (threadId) => db.delete('threads', threadId),
+    async deleteMessages(ids) {
+      const tx = db.transaction('messages', 'readwrite');
+      for (const id of ids) await tx.store.delete(id);
+      await tx.done;
+    },
+    async listInboxThreadIds() {
+      return (await db.getAll('threads')).filter((t) => (t.labelIds || []).includes('INBOX')).map((t) => t.threadId);
+    },
+    getJournalSince: (since) => db.getAllFromIndex('journal', 'by_createdAt', IDBKeyRange.lowerBound(since)),
+    async getPendingScopeKeys() {
+      return new Set((await db.getAll('ops')).filter((o) => !o.failedAt).map((o) => o.scopeKey));
+    },
+    isSnoozeLabel: (labelId) => isSnoozeLabel(labelId, mapping, allLabels)
+  };
+}
+
+let inFlight: Promise<HistorySyncResult | null> | null = null;
+
+/**
+ * Runs one incremental sync of the active account (full resync when the stored
+ * historyId has expired) and reports it through `syncState`. Concurrent calls
+ * share the running sync. Resolves to null when the sync failed. A successful
+ * sync also settles follow-up watches (see $lib/snooze/follow-up) and
+ * re-snoozes recurring threads archived elsewhere.
+ */
+export function syncMailbox(): Promise<HistorySyncResult | null> {
+  if (inFlight) return inFlight;
+  inFlight = (async () => {
+    syncState.update((s) => ({ ...s, status: 'syncing', progress: undefined }));
+    try {
+      const store = await createIdbSyncStore();
+      const result = await runHistorySync(gmailSyncApi, store, {
+        onProgress: (progress) => syncState.update((s) => ({ ...s, progress }))
+      });
+      syncState.set({ status: 'idle', lastMode: result.mode, lastSyncedAt: Date.now() });
+      try {
+        await resolveReplies(result.inboundThreadIds);
+        await checkDueFollowUps();
+      } catch (e) {
+        console.warn('[Sync] Follow-up check failed', e);
+      }
+      try {
+        const protectedIds = new Set(result.protectedThreadIds);
+        await resnoozeRecurring(result.changedThreadIds.filter((id) => !protectedIds.has(id)));
+      } catch (e) {
+        console.warn('[Sync] Recurring snooze check failed', e);
+      }
+      return result;
+    } catch (e) {
+      console.warn('[Sync] History sync failed', e);
+      syncState.update((s) => ({ ...s, status: 'error', progress: undefined, lastError: e instanceof Error ? e.message : String(e) }));
+      return null;
+    } finally {
+      inFlight = null;
+    }
+  })();
+  return inFlight;
+}
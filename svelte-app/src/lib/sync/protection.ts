@@ -0,0 +1,54 @@
+import type { JournalEntry } from '$lib/types';
+
+/** Any local action on a thread this recent leaves its labels untouched (Phase 1). */
+export const PHASE1_WINDOW_MS = 30_000;
+/** A local INBOX change this recent wins over the server's INBOX state (Phase 2). */
+export const PHASE2_WINDOW_MS = 120_000;
+
+export const TERMINAL_LABELS = ['TRASH', 'SPAM'];
+
+export type ProtectionInput = {
+  /** Thread labels currently stored on this device */
+  localLabels: string[];
+  /** Thread labels Gmail reports now */
+  remoteLabels: string[];
+  /** Journal entries of this thread (any age; old ones are ignored) */
+  journal: Pick<JournalEntry, 'createdAt' | 'intent'>[];
+  /** The outbox still holds an op for this thread */
+  hasPendingOps: boolean;
+  isSnoozeLabel: (labelId: string) => boolean;
+  now: number;
+};
+
+export type ProtectionResult = {
+  labels: string[];
+  /** Set when the local labels were kept as they are */
+  keptLocal?: 'pending-op' | 'recent-action';
+};
+
+/**
+ * Merges the server's labels for a thread into the local ones following the
+ * rules in sync-architecture.md: pending ops and very recent actions keep the
+ * local state, a recent INBOX change is not reverted, and INBOX never sits next
+ * to a terminal or snooze label.
+ */
+export function reconcileLabels(input: ProtectionInput): ProtectionResult {
+  const { localLabels, remoteLabels, journal, now } = input;
+  if (input.hasPendingOps) return { labels: localLabels.slice(), keptLocal: 'pending-op' };
+  const recent = journal.filter((e) => e.createdAt >= now - PHASE2_WINDOW_MS).sort((a, b) => a.createdAt - b.createdAt);
+  if (recent.some((e) => e.createdAt >= now - PHASE1_WINDOW_MS)) return { labels: localLabels.slice(), keptLocal: 'recent-action' };
+
+  const labels = new Set(remoteLabels);
+  // The newest local INBOX change decides whether the thread is in the inbox
+  const lastInboxChange = recent.filter((e) => e.intent.addLabelIds.includes('INBOX') || e.intent.removeLabelIds.includes('INBOX')).pop();
+  if (lastInboxChange?.intent.removeLabelIds.includes('INBOX')) {
+    labels.delete('INBOX');
+    for (const l of lastInboxChange.intent.addLabelIds) labels.add(l);
+  } else if (lastInboxChange && localLabels.includes('INBOX')) {
+    labels.add('INBOX');
+  }
+
+  if (TERMINAL_LABELS.some((l) => labels.has(l))) labels.delete('INBOX');
+  if ([...labels].some((l) => input.isSnoozeLabel(l))) labels.delete('INBOX');
+  return { labels: Array.from(labels) };
+}
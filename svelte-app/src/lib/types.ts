@@ -47,6 +47,16 @@ export type GmailThread = {
   subjectVersion?: number;
   /** Last update timestamp for the AI subject (ms epoch) */
   aiSubjectUpdatedAt?: number;
+  /** Events, orders and bills extracted from the thread's latest message */
+  cards?: ThreadCard[];
+  /** Precompute status for the cards; 'ready' with no cards means nothing was found */
+  cardsStatus?: 'none' | 'pending' | 'ready' | 'error';
+  /** Hash of the content the cards were extracted from */
+  cardsHash?: string;
+  /** CARDS_VERSION the cards were extracted with; older ones are extracted again */
+  cardsVersion?: number;
+  /** Last update timestamp for the cards (ms epoch) */
+  cardsUpdatedAt?: number;
   /** AI-based auto moderation/classification results keyed by identifier */
   autoModeration?: Record<string, {
     status: 'pending' | 'match' | 'not_match' | 'unknown' | 'error';
@@ -58,6 +68,23 @@ export type GmailThread = {
   }>;
 };
 
+/**
+ * Structured data extracted from an email. Dates are ISO 8601 as written in
+ * the email: 'YYYY-MM-DD', or 'YYYY-MM-DDTHH:mm' in the sender's wall time.
+ */
+export type ThreadCard =
+  | { kind: 'event'; title: string; start: string; end?: string; location?: string }
+  | {
+      kind: 'order';
+      merchant?: string;
+      orderNumber?: string;
+      items: Array<{ name: string; quantity?: number; price?: number }>;
+      total?: number;
+      currency?: string;
+      tracking?: { carrier?: string; number: string; url?: string };
+    }
+  | { kind: 'bill'; payee: string; amount: number; currency?: string; dueDate?: string };
+
 export type GmailAttachment = {
   id?: string; // Gmail attachmentId when available
   filename?: string;
@@ -73,13 +100,18 @@ export type SnoozeRule = {
   labelName: string;
   resolver: (
     nowLocal: Date,
-    defaults: { anchorHour: number; roundMinutes: number }
+    defaults: { anchorHour: number; roundMinutes: number },
+    /** IANA zone the times of day are in */
+    zone: string
   ) => Date | null;
   addLabels?: string[];
   removeLabels?: string[];
   persistent?: boolean;
 };
 
+/** A user-defined snooze: `name` is its rule key (label mapping, menus), `expr` a rule expression (snooze/dsl.ts). */
+export type SnoozePreset = { name: string; expr: string };
+
 export type SnoozeQueueItem = {
   id: string; // `${threadId}:${snoozeLabelId}`
   accountSub: string;
@@ -91,6 +123,12 @@ export type SnoozeQueueItem = {
   addUnreadOnUnsnooze: boolean;
 };
 
+/**
+ * base64url-encoded RFC 2822 message. Large messages (attachments) are stored as a
+ * Blob so IndexedDB does not have to hold them as one giant string; see queue/ops.ts.
+ */
+export type RawPayload = string | Blob;
+
 export type QueuedOp = {
   id: string; // uuid
   accountSub: string;
@@ -103,15 +141,181 @@ export type QueuedOp = {
       }
     | {
         type: "sendMessage";
-        raw: string; // base64url-encoded RFC 2822
+        raw: RawPayload;
+        threadId?: string;
+      }
+    | {
+        // Gmail drafts ops reference the local DraftRecord; its gmailDraftId is resolved at replay time
+        type: "draftCreate" | "draftUpdate" | "draftSend";
+        draftId: string;
+        raw: RawPayload;
         threadId?: string;
+      }
+    | {
+        type: "draftDelete";
+        draftId: string;
       };
-  scopeKey: string; // `${threadId}` or synthetic key for compose
+  scopeKey: string; // `${threadId}`, `draft:${draftId}` or synthetic key for compose
   opHash: string; // deterministic hash of intent for idempotency
   createdAt: number;
   attempts: number;
   nextAttemptAt: number;
   lastError?: string;
+  /** Set once attempts reach MAX_OP_ATTEMPTS: the op is kept as failed (dead letter) and no longer retried */
+  failedAt?: number;
+  /** Send-later time (ms epoch) chosen by the user; nextAttemptAt starts here */
+  scheduledAt?: number;
+  /** Flusher currently sending this op (page or service worker); see queue/replay.ts */
+  leaseId?: string;
+  /** Lease expiry (ms epoch); an expired lease may be taken over by another flusher */
+  leaseUntil?: number;
+};
+
+/** A user action on a thread together with the label change that reverts it (undo / Activity). */
+export type JournalEntry = {
+  id: string;
+  createdAt: number;
+  threadId: string;
+  intent: { type: string; addLabelIds: string[]; removeLabelIds: string[]; ruleKey?: string };
+  inverse: { addLabelIds: string[]; removeLabelIds: string[] };
+};
+
+/** What a moderation rule does to a matching thread, besides adding its label. */
+export type ModerationAction = 'label' | 'archive' | 'trash' | 'snooze';
+
+/** User-defined AI moderation rule; threads are re-evaluated whenever `version` changes. */
+export type ModerationRule = {
+  id: string; // key into GmailThread.autoModeration
+  name: string;
+  prompt: string;
+  labelName: string;
+  version: number;
+  action: ModerationAction;
+  /** Snooze rule key (e.g. '1d', 'Monday') when action is 'snooze' */
+  snoozeRuleKey?: string;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** What an AI call was made for; the usage ledger and budgets group by it. */
+export type AIFeature = 'summary' | 'subject' | 'moderation' | 'draft' | 'attachment' | 'unsubscribe' | 'search' | 'chat' | 'cards';
+
+/** Usage of one feature/provider/model on one local day. */
+export type AIUsageBucket = {
+  key: string; // `${day}|${feature}|${provider}|${model}`
+  day: string; // YYYY-MM-DD, local time
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Calls whose provider reported no usage; their tokens are estimated from text length */
+  estimatedCalls: number;
+  costUsd: number;
+};
+
+/** A submitted Gemini Batch API job whose results precompute still has to apply. */
+export type GeminiBatchJobRecord = {
+  name: string; // `batches/…`
+  mode: 'summary' | 'subject';
+  model: string;
+  /** Thread ids in request order */
+  threadIds: string[];
+  submittedAt: number;
+  lastPolledAt?: number;
+  state: 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'expired';
+  /** Cached-content handle the requests reference, if any */
+  cachedContent?: string;
+};
+
+/** Embedding of a thread's subject, sender, summary and body for semantic search. */
+export type ThreadEmbedding = {
+  threadId: string;
+  /** `${provider}/${model}`; vectors from different models are never compared */
+  model: string;
+  /** Hash of the embedded text; the thread is re-embedded when it changes */
+  contentHash: string;
+  /** Unit length, so similarity is a dot product */
+  vector: Float32Array;
+  updatedAt: number;
+};
+
+/**
+ * "Remind me if no reply" / "snooze until reply" watch on a thread. A watch
+ * created at send time waits on its queued op (`opId`) and learns its thread
+ * once Gmail accepts the message.
+ */
+export type FollowUp = {
+  id: string; // uuid
+  threadId?: string;
+  opId?: string;
+  subject?: string;
+  /** Rule the deadline was resolved from, e.g. '3d' */
+  ruleKey: string;
+  dueAt: number;
+  /** Only messages after this count as a reply */
+  since: number;
+  /** Archived until the reply or the deadline ("snooze until reply") */
+  snoozed: boolean;
+  status: 'waiting' | 'replied' | 'resurfaced' | 'cancelled';
+  createdAt: number;
+  resolvedAt?: number;
+};
+
+/**
+ * A thread on a recurring snooze (a rule whose expression starts with "every"):
+ * archiving it from the inbox snoozes it again under `ruleKey` until stopped.
+ */
+export type Recurrence = {
+  threadId: string;
+  ruleKey: string;
+  subject?: string;
+  createdAt: number;
+};
+
+/** An undone journal entry waiting on the redo stack. */
+export type RedoEntry = JournalEntry & { undoneAt: number };
+
+/** File attached in compose; the Blob is stored in IndexedDB with the draft. */
+export type DraftAttachment = {
+  id: string; // local uuid; also the Content-ID of inline images
+  filename: string;
+  mimeType: string;
+  size: number;
+  blob: Blob;
+  /** Shown inside the message body (images only) instead of as an attachment */
+  inline?: boolean;
+};
+
+/** Locally autosaved compose draft; mirrored to Gmail `users.drafts` through the ops queue. */
+export type DraftRecord = {
+  id: string; // local uuid
+  accountSub: string;
+  mode: "new" | "reply" | "replyAll" | "forward";
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+  threadId?: string;
+  inReplyTo?: string;
+  references?: string;
+  attachments?: DraftAttachment[];
+  /** Gmail draft id once the server copy exists */
+  gmailDraftId?: string;
+  createdAt: number; // ms epoch
+  updatedAt: number; // ms epoch; last local edit
+  syncedAt?: number; // ms epoch; last time Gmail accepted the content
+  /** Set once send/discard is queued; the record is removed when Gmail confirms */
+  status?: "sending" | "discarded";
+};
+
+/** A Google account signed in on the server; `sub` is PRIMARY_ACCOUNT ('me') for the primary session. */
+export type SignedInAccount = {
+  sub: string;
+  email?: string;
 };
 
 export type AccountAuthMeta = {
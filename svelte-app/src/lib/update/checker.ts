@@ -85,6 +85,7 @@ export function startUpdateChecker(
 		// Only consider a new version when the declared app version changes.
 		// This avoids false positives from differing build IDs across identical versions.
 		if (remote.appVersion && remote.appVersion !== current.appVersion) {
+			void updateServiceWorker();
 			onNewVersion(remote, current);
 			notifyAllTabs(remote);
 			stop();
@@ -140,11 +141,30 @@ export async function checkForUpdateOnce(): Promise<CheckOnceResult> {
 	if (!remote) return { status: 'error', current };
 	// Treat update as available only when the app version changes
 	if (remote.appVersion && remote.appVersion !== current.appVersion) {
+		void updateServiceWorker();
 		return { status: 'new', remote, current };
 	}
 	return { status: 'same', current, remote };
 }
 
+/**
+ * Asks the browser to re-fetch the service worker so the new build's worker
+ * installs (precaching its assets) and drops the previous version's cache
+ * before the user reloads. Resolves false when no worker is registered.
+ */
+export async function updateServiceWorker(): Promise<boolean> {
+	try {
+		if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+		const reg = await navigator.serviceWorker.getRegistration();
+		if (!reg) return false;
+		await reg.update();
+		reg.waiting?.postMessage({ type: 'SKIP_WAITING' });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
 /** Navigates with a hard reload parameter to ensure newest assets are loaded. */
 export function hardReloadNow(): void {
 	try {
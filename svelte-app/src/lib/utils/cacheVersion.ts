@@ -2,28 +2,42 @@ import { readable } from 'svelte/store';
 
 let current = 'unknown';
 
+/** Posts a message to the controlling service worker and resolves with its reply (or null). */
+export function askServiceWorker(message: unknown, timeoutMs = 2000): Promise<Record<string, unknown> | null> {
+  return new Promise((resolve) => {
+    try {
+      const controller = typeof navigator !== 'undefined' ? navigator.serviceWorker?.controller : null;
+      if (!controller) return resolve(null);
+      const channel = new MessageChannel();
+      const timer = setTimeout(() => resolve(null), timeoutMs);
+      channel.port1.onmessage = (ev) => { clearTimeout(timer); resolve(ev.data); };
+      controller.postMessage(message, [channel.port2]);
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
 async function probeCacheVersion() {
   try {
     try {
       const keys = await caches.keys();
       const cache = keys.find((k: string) => k.startsWith('Jmail-v'));
       if (cache) return cache.replace('Jmail-v', '');
-    } catch (e) {
+    } catch {
       // ignore and continue
     }
 
     try {
-      const r = await fetch('/sw.js', { method: 'GET', cache: 'no-store' });
-      if (r && r.ok) {
-        const swText = await r.text();
-        const m = /CACHE_NAME\s*=\s*['"]Jmail-v([0-9.]+)['"]/i.exec(swText);
-        if (m && m[1]) return m[1];
-      }
-    } catch (e) {
+      // No cache yet (first load): ask the active worker which cache it will use
+      const reply = await askServiceWorker({ type: 'GET_VERSION' });
+      const name = reply && typeof reply.cacheName === 'string' ? reply.cacheName : '';
+      if (name.startsWith('Jmail-v')) return name.replace('Jmail-v', '');
+    } catch {
       // ignore
     }
     return 'unknown';
-  } catch (e) {
+  } catch {
     return 'unknown';
   }
 }
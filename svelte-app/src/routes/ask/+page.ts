@@ -0,0 +1,5 @@
+export const prerender = false;
+export const ssr = false;
+export const csr = true;
+export const trailingSlash = 'ignore';
+
@@ -0,0 +1,216 @@
+/// <reference types="@sveltejs/kit" />
+/// <reference lib="webworker" />
+
+// Jmail service worker. Built by SvelteKit to /service-worker.js and loaded by
+// the /sw.js shim that app.html registers (see public/sw.js).
+import { build, files, version } from '$service-worker';
+import { OPS_SYNC_TAG } from '$lib/queue/ops';
+import { createProxyTransport, replayDueOps } from '$lib/queue/replay';
+import { listAccountSubs } from '$lib/db/indexeddb';
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+// Cache names are keyed by the declared app version (what update/checker.ts compares)
+// plus the SvelteKit build version, so every deploy gets a fresh cache and the
+// previous one is dropped on activate. utils/cacheVersion.ts reads this prefix.
+const CACHE_PREFIX = 'Jmail-v';
+const APP_VERSION = import.meta.env.VITE_APP_VERSION || 'dev';
+const CACHE_NAME = `${CACHE_PREFIX}${APP_VERSION}-${version}`;
+
+// adapter-static writes the SPA fallback to index.html; it is the offline app shell.
+const APP_SHELL = '/index.html';
+const PRECACHE = Array.from(new Set([...build, ...files, APP_SHELL]));
+
+// Never serve these from cache: API calls, the version probe and the worker scripts themselves
+const NETWORK_ONLY = [/^\/api\//, /^\/version\.json$/, /^\/sw\.js$/, /^\/service-worker\.js$/];
+
+sw.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      // addAll is all-or-nothing; add individually so one missing asset does not block install
+      await Promise.all(
+        PRECACHE.map((url) => cache.add(new Request(url, { cache: 'reload' })).catch(() => {}))
+      );
+      await sw.skipWaiting();
+    })()
+  );
+});
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(keys.map((key) => (key !== CACHE_NAME ? caches.delete(key) : Promise.resolve(false))));
+      await sw.clients.claim();
+      const registration = sw.registration as ServiceWorkerRegistration & {
+        periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+      };
+      if (registration.periodicSync) {
+        try {
+          // Name: 'gmail-sync' (ops flush + snooze processing delegated to client via postMessage)
+          await registration.periodicSync.register('gmail-sync', { minInterval: 15 * 60 * 1000 });
+        } catch (_) {
+          // ignore: permission not granted or unsupported
+        }
+      }
+      // Let open tabs know which cache is now serving them
+      const all = await sw.clients.matchAll({ type: 'window' });
+      for (const c of all) c.postMessage({ type: 'SW_ACTIVATED', cacheName: CACHE_NAME });
+    })()
+  );
+});
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== sw.location.origin) return;
+  if (NETWORK_ONLY.some((re) => re.test(url.pathname))) return;
+
+  // Navigations: network first so a fresh index.html always wins, app shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      (async () => {
+        try {
+          return await fetch(request);
+        } catch {
+          const cache = await caches.open(CACHE_NAME);
+          return (await cache.match(APP_SHELL)) || (await cache.match(request)) || Response.error();
+        }
+      })()
+    );
+    return;
+  }
+
+  event.respondWith(
+    (async () => {
+      const cache = await caches.open(CACHE_NAME);
+      // Build output is content-hashed and static files are versioned with the cache, so cache first
+      if (PRECACHE.includes(url.pathname)) {
+        const cached = await cache.match(url.pathname);
+        if (cached) return cached;
+      }
+      try {
+        const response = await fetch(request);
+        if (response && response.status === 200 && response.type === 'basic') {
+          cache.put(request, response.clone());
+        }
+        return response;
+      } catch {
+        return (await cache.match(request)) || Response.error();
+      }
+    })()
+  );
+});
+
+// Background Sync: replay the ops outbox after the last tab closed (queued by ops.ts).
+// Ops are leased in IndexedDB before sending, so an open tab's flush loop and this
+// handler never send the same op twice.
+const SW_OWNER = `sw:${version}:${Math.random().toString(36).slice(2)}`;
+
+async function replayOutbox(): Promise<void> {
+  let completed = 0;
+  let failed = 0;
+  // Every signed-in account has its own outbox and server session
+  for (const sub of await listAccountSubs()) {
+    const result = await replayDueOps(createProxyTransport('/api/gmail', sub), SW_OWNER, Date.now(), {}, sub);
+    completed += result.completed;
+    failed += result.failed;
+  }
+  if (completed) {
+    const all = await sw.clients.matchAll({ type: 'window' });
+    for (const c of all) c.postMessage({ type: 'OPS_REPLAYED', completed });
+  }
+  // Rejecting asks the browser to retry the sync later with its own backoff
+  if (failed) throw new Error(`${failed} op(s) failed; will retry`);
+}
+
+// Notify clients periodically to trigger background processing in the app. Also
+// replay the outbox so scheduled sends that came due with no tab open go out.
+sw.addEventListener('periodicsync', ((event: ExtendableEvent & { tag: string }) => {
+  if (event.tag === 'gmail-sync') {
+    event.waitUntil(
+      (async () => {
+        const all = await sw.clients.matchAll({ type: 'window' });
+        for (const c of all) c.postMessage({ type: 'SYNC_TICK' });
+        await replayOutbox().catch(() => { /* retried on the next tick */ });
+      })()
+    );
+  }
+}) as EventListener);
+
+sw.addEventListener('sync', ((event: ExtendableEvent & { tag: string }) => {
+  if (event.tag === OPS_SYNC_TAG) event.waitUntil(replayOutbox());
+}) as EventListener);
+
+type NotificationPayload = {
+  title?: string;
+  body?: string;
+  tag?: string;
+  data?: { threadId?: string; [key: string]: unknown };
+  actions?: Array<{ action: string; title: string }>;
+};
+
+async function showNotification(payload: NotificationPayload): Promise<void> {
+  const { title, body, tag, data, actions } = payload;
+  // Thread-specific notifications get quick actions; summary notifications just open the app
+  const defaultActions = data?.threadId
+    ? [
+        { action: 'archive', title: 'Archive' },
+        { action: 'snooze1h', title: '+1h' }
+      ]
+    : [];
+  await sw.registration.showNotification(title || 'Update', {
+    body: body || '',
+    tag: tag || undefined,
+    data: data || undefined,
+    icon: '/favicon.png',
+    badge: '/favicon.png',
+    actions: actions || defaultActions
+  } as NotificationOptions);
+}
+
+sw.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type === 'SHOW_NOTIFICATION') {
+    event.waitUntil(showNotification(data.payload || {}).catch(() => {}));
+    return;
+  }
+  if (data.type === 'SKIP_WAITING') {
+    event.waitUntil(sw.skipWaiting());
+    return;
+  }
+  if (data.type === 'GET_VERSION') {
+    const reply = { type: 'VERSION', appVersion: APP_VERSION, buildVersion: version, cacheName: CACHE_NAME };
+    const port = event.ports && event.ports[0];
+    if (port) port.postMessage(reply);
+    else (event.source as Client | null)?.postMessage(reply);
+  }
+});
+
+sw.addEventListener('notificationclick', (event) => {
+  const action = event.action;
+  const ndata = (event.notification?.data || {}) as { threadId?: string };
+  event.notification.close();
+  event.waitUntil(
+    (async () => {
+      const url = ndata.threadId ? `/viewer/${encodeURIComponent(ndata.threadId)}` : '/inbox';
+      const all = (await sw.clients.matchAll({ type: 'window', includeUncontrolled: true })) as WindowClient[];
+      let client: WindowClient | null = all.find((c) => 'focus' in c) || null;
+      if (client) {
+        // Quick actions run in the existing tab without navigating away from what the user is doing
+        if (!action) {
+          try {
+            client = (await client.navigate(url)) || client;
+          } catch (_) {
+            // navigate() rejects for uncontrolled clients; fall back to a message
+          }
+        }
+        await client.focus().catch(() => client);
+      } else {
+        client = await sw.clients.openWindow(url);
+      }
+      if (client) client.postMessage({ type: 'NOTIFICATION_ACTION', action, data: ndata });
+    })()
+  );
+});
@@ -1,18 +1,30 @@
 // Minimal subset of Luxon typings used in this project
 declare module 'luxon' {
+  type DurationValues = Partial<{ minutes: number; hours: number; days: number; weeks: number; months: number; quarters: number; years: number }>;
   export class DateTime {
     static now(): DateTime;
     static fromJSDate(d: Date): DateTime;
+    static fromISO(text: string, opts?: { zone?: string }): DateTime;
     // selected readonly fields used by the app
+    readonly year: number;
+    readonly month: number;
+    readonly day: number;
+    /** ISO weekday, Monday = 1 */
+    readonly weekday: number;
+    readonly hour: number;
     readonly minute: number;
     readonly second: number;
-    set(values: Partial<{ hour: number; minute: number; second: number; millisecond: number }>): DateTime;
+    set(values: Partial<{ year: number; month: number; day: number; weekday: number; hour: number; minute: number; second: number; millisecond: number }>): DateTime;
     setZone(zone: string): DateTime;
     toUTC(): DateTime;
     toMillis(): number;
-    plus(values: Partial<{ minutes: number; hours: number; days: number }>): DateTime;
+    plus(values: DurationValues): DateTime;
+    minus(values: DurationValues): DateTime;
     startOf(unit: string): DateTime;
+    endOf(unit: string): DateTime;
     toJSDate(): Date;
+    toISO(opts?: { suppressMilliseconds?: boolean }): string | null;
+    toFormat(format: string): string;
+    toLocaleString(format?: Intl.DateTimeFormatOptions): string;
   }
 }
-
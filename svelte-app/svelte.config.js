@@ -12,6 +12,11 @@ const config = {
     paths: {
       relative: false,
     },
+    serviceWorker: {
+      // app.html registers the stable /sw.js shim, which imports the built worker
+      register: false,
+      files: (filepath) => !/^(sw\.js|version\.json|llms\.txt)$/.test(filepath),
+    },
     prerender: { 
       handleHttpError: "warn"
     },
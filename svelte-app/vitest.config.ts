@@ -1,6 +1,11 @@
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    // The sveltekit() plugin is not loaded here; map $lib so modules under test can use it
+    alias: { $lib: fileURLToPath(new URL('./src/lib', import.meta.url)) }
+  },
   test: {
     environment: 'happy-dom',
     globals: true,